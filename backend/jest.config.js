@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    // tsconfig.json's rootDir is src/; tests live beside it
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { rootDir: '.' } }],
+  },
+};
@@ -0,0 +1,10 @@
+-- Scope audit log entries to a brand and link them to the acting user
+
+-- AlterTable
+ALTER TABLE "audit_logs" ADD COLUMN "brand_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "audit_logs_brand_id_created_at_idx" ON "audit_logs"("brand_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "audit_logs" ADD CONSTRAINT "audit_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
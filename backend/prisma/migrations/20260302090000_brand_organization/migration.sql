@@ -0,0 +1,21 @@
+-- Group brands under an organization so analytics can be rolled up per organization
+
+-- AlterTable
+ALTER TABLE "brands" ADD COLUMN "organization_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "brands_organization_id_idx" ON "brands"("organization_id");
+
+-- AddForeignKey
+ALTER TABLE "brands" ADD CONSTRAINT "brands_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Assign existing brands to their owner's default organization
+UPDATE "brands" b
+SET "organization_id" = (
+  SELECT u."default_organization_id"
+  FROM "brand_members" bm
+  JOIN "users" u ON u."id" = bm."user_id"
+  WHERE bm."brand_id" = b."id" AND bm."role" = 'owner'
+  LIMIT 1
+)
+WHERE b."organization_id" IS NULL;
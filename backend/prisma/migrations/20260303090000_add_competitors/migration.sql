@@ -0,0 +1,20 @@
+-- CreateTable: competitors
+CREATE TABLE "competitors" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "variants" JSONB NOT NULL DEFAULT '[]',
+    "website" TEXT,
+    "notes" TEXT,
+    "brand_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "competitors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "competitors_brand_id_name_key" ON "competitors"("brand_id", "name");
+CREATE INDEX "competitors_brand_id_idx" ON "competitors"("brand_id");
+
+-- AddForeignKey
+ALTER TABLE "competitors" ADD CONSTRAINT "competitors_brand_id_fkey" FOREIGN KEY ("brand_id") REFERENCES "brands"("id") ON DELETE CASCADE ON UPDATE CASCADE;
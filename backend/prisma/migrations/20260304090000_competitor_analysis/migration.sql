@@ -0,0 +1,3 @@
+-- AlterTable: cache competitor mention analysis on engagement items
+ALTER TABLE "engagement_items" ADD COLUMN "competitor_analysis" JSONB;
+ALTER TABLE "engagement_items" ADD COLUMN "competitor_analyzed_at" TIMESTAMP(3);
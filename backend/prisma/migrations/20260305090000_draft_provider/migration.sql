@@ -0,0 +1,3 @@
+-- AlterTable: record which AI provider and model wrote the draft
+ALTER TABLE "engagement_items" ADD COLUMN "draft_provider" TEXT;
+ALTER TABLE "engagement_items" ADD COLUMN "draft_model" TEXT;
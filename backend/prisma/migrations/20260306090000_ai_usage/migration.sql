@@ -0,0 +1,27 @@
+-- Track AI token usage and cost per brand, with an optional monthly budget
+
+-- AlterTable
+ALTER TABLE "brands" ADD COLUMN "ai_monthly_budget" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ai_usage_records" (
+    "id" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "input_tokens" INTEGER NOT NULL,
+    "output_tokens" INTEGER NOT NULL,
+    "estimated_cost" DOUBLE PRECISION NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "brand_id" TEXT,
+    "user_id" TEXT,
+
+    CONSTRAINT "ai_usage_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_records_brand_id_created_at_idx" ON "ai_usage_records"("brand_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage_records" ADD CONSTRAINT "ai_usage_records_brand_id_fkey" FOREIGN KEY ("brand_id") REFERENCES "brands"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ai_usage_records" ADD CONSTRAINT "ai_usage_records_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Count AI completions whose output failed schema validation
+
+-- AlterTable
+ALTER TABLE "ai_usage_records" ADD COLUMN "parse_failed" BOOLEAN NOT NULL DEFAULT false;
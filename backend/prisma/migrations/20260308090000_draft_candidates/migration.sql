@@ -0,0 +1,30 @@
+-- Store multi-variant draft candidates and which one the reviewer picked
+
+-- CreateEnum
+CREATE TYPE "DraftCandidateStatus" AS ENUM ('pending', 'chosen', 'discarded');
+
+-- CreateTable
+CREATE TABLE "draft_candidates" (
+    "id" TEXT NOT NULL,
+    "engagement_item_id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "style" TEXT,
+    "length" TEXT,
+    "temperature" DOUBLE PRECISION,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "status" "DraftCandidateStatus" NOT NULL DEFAULT 'pending',
+    "merged" BOOLEAN NOT NULL DEFAULT false,
+    "chosen_at" TIMESTAMP(3),
+    "chosen_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "draft_candidates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "draft_candidates_engagement_item_id_status_idx" ON "draft_candidates"("engagement_item_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "draft_candidates" ADD CONSTRAINT "draft_candidates_engagement_item_id_fkey" FOREIGN KEY ("engagement_item_id") REFERENCES "engagement_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "draft_candidates" ADD CONSTRAINT "draft_candidates_chosen_by_id_fkey" FOREIGN KEY ("chosen_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
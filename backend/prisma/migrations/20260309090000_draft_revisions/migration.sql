@@ -0,0 +1,27 @@
+-- Keep every revision of an engagement's response text for diffing and revert
+
+-- CreateEnum
+CREATE TYPE "DraftRevisionSource" AS ENUM ('generate', 'regenerate', 'candidate', 'refine', 'proofread', 'edit', 'revert');
+
+-- CreateTable
+CREATE TABLE "draft_revisions" (
+    "id" TEXT NOT NULL,
+    "engagement_item_id" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "source" "DraftRevisionSource" NOT NULL,
+    "detail" TEXT,
+    "provider" TEXT,
+    "model" TEXT,
+    "reverted_from_id" TEXT,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "draft_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "draft_revisions_engagement_item_id_created_at_idx" ON "draft_revisions"("engagement_item_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "draft_revisions" ADD CONSTRAINT "draft_revisions_engagement_item_id_fkey" FOREIGN KEY ("engagement_item_id") REFERENCES "engagement_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "draft_revisions" ADD CONSTRAINT "draft_revisions_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
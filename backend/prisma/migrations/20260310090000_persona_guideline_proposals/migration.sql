@@ -0,0 +1,28 @@
+-- Proposed persona writing guidelines learned from reviewer edits
+
+-- CreateEnum
+CREATE TYPE "GuidelineProposalStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+-- CreateTable
+CREATE TABLE "persona_guideline_proposals" (
+    "id" TEXT NOT NULL,
+    "persona_id" TEXT NOT NULL,
+    "status" "GuidelineProposalStatus" NOT NULL DEFAULT 'pending',
+    "current_guidelines" TEXT,
+    "proposed_guidelines" TEXT NOT NULL,
+    "proposed_examples" JSONB NOT NULL DEFAULT '[]',
+    "findings" JSONB NOT NULL,
+    "sample_size" INTEGER NOT NULL,
+    "reviewed_by_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "persona_guideline_proposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "persona_guideline_proposals_persona_id_status_idx" ON "persona_guideline_proposals"("persona_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "persona_guideline_proposals" ADD CONSTRAINT "persona_guideline_proposals_persona_id_fkey" FOREIGN KEY ("persona_id") REFERENCES "personas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "persona_guideline_proposals" ADD CONSTRAINT "persona_guideline_proposals_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
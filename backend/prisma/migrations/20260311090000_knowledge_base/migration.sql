@@ -0,0 +1,42 @@
+-- Per-brand knowledge base chunked for retrieval, and the snippets each draft cited
+
+-- CreateEnum
+CREATE TYPE "KnowledgeDocumentKind" AS ENUM ('markdown', 'faq', 'pricing', 'spec');
+
+-- CreateTable
+CREATE TABLE "knowledge_documents" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "kind" "KnowledgeDocumentKind" NOT NULL DEFAULT 'markdown',
+    "content" TEXT NOT NULL,
+    "brand_id" TEXT NOT NULL,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "knowledge_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "knowledge_chunks" (
+    "id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "heading" TEXT,
+    "content" TEXT NOT NULL,
+
+    CONSTRAINT "knowledge_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "engagement_items" ADD COLUMN "draft_sources" JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE "draft_candidates" ADD COLUMN "sources" JSONB NOT NULL DEFAULT '[]';
+
+-- CreateIndex
+CREATE INDEX "knowledge_documents_brand_id_idx" ON "knowledge_documents"("brand_id");
+CREATE INDEX "knowledge_chunks_document_id_idx" ON "knowledge_chunks"("document_id");
+
+-- AddForeignKey
+ALTER TABLE "knowledge_documents" ADD CONSTRAINT "knowledge_documents_brand_id_fkey" FOREIGN KEY ("brand_id") REFERENCES "brands"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "knowledge_documents" ADD CONSTRAINT "knowledge_documents_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "knowledge_chunks" ADD CONSTRAINT "knowledge_chunks_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "knowledge_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Store the latest claim verification of each engagement's draft
+
+-- AlterTable
+ALTER TABLE "engagement_items" ADD COLUMN "claim_check" JSONB;
@@ -0,0 +1,4 @@
+-- Per-brand safety rules checked before approval and publishing
+
+-- AlterTable
+ALTER TABLE "brands" ADD COLUMN "safety_rules" JSONB NOT NULL DEFAULT '{}';
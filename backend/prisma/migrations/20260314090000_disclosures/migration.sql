@@ -0,0 +1,12 @@
+-- Affiliation disclosure templates at the brand, persona and subreddit level
+
+-- AlterTable
+ALTER TABLE "brands" ADD COLUMN "disclosure_required" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "disclosure_template" TEXT;
+
+-- AlterTable
+ALTER TABLE "personas" ADD COLUMN "disclosure_template" TEXT;
+
+-- AlterTable
+ALTER TABLE "subreddits" ADD COLUMN "disclosure_required" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "disclosure_template" TEXT;
@@ -0,0 +1,7 @@
+-- Structured subreddit rules synced from Reddit, and a minimum account age
+
+-- AlterTable
+ALTER TABLE "subreddits" ADD COLUMN "min_account_age_days" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "rules" JSONB,
+ADD COLUMN "rules_synced_at" TIMESTAMP(3),
+ADD COLUMN "rules_sync_error" TEXT;
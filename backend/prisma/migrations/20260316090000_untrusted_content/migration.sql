@@ -0,0 +1,7 @@
+-- Prompt-injection flags on engagements, and optional PII redaction per brand
+
+-- AlterTable
+ALTER TABLE "brands" ADD COLUMN "redact_pii" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "engagement_items" ADD COLUMN "injection_flags" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,8 @@
+-- Sensitive-topic classification of posts, and per-brand handling of each topic
+
+-- AlterTable
+ALTER TABLE "brands" ADD COLUMN "sensitive_topics" JSONB NOT NULL DEFAULT '{}';
+
+-- AlterTable
+ALTER TABLE "engagement_items" ADD COLUMN "sensitive_topics" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN "sensitivity_checked_at" TIMESTAMP(3);
@@ -1,10 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../utils/prisma';
-import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { auditService } from '../../services/audit/audit.service';
+import { NotFoundError } from '../middleware/errorHandler';
 import { RedditService } from '../../services/reddit/reddit.service';
 import { shadowbanService } from '../../services/reddit/shadowban.service';
 import { accountHealthService } from '../../services/accounts/health.service';
+import { getPersonaDraftService } from '../../services/personas/persona-draft.service';
+import { getUserAIConfig } from '../../services/ai/generation-context';
 
 const updateAccountSchema = z.object({
   personaId: z.string().uuid().nullable().optional(),
@@ -100,6 +103,15 @@ export class AccountsController {
 
       const account = await this.redditService.handleCallback(code, state as string);
 
+      // Reddit redirects here without our token, so there is no acting user
+      await auditService.record({
+        entityType: 'reddit_account',
+        entityId: account.id,
+        action: 'connect',
+        brandId: account.brandId,
+        newValue: account,
+      });
+
       // Redirect to frontend with success
       res.redirect(`${frontendUrl}/accounts?connected=${encodeURIComponent(account.username)}`);
     } catch (error) {
@@ -133,6 +145,16 @@ export class AccountsController {
         },
       });
 
+      await auditService.record({
+        entityType: 'reddit_account',
+        entityId: account.id,
+        action: 'update',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: existing,
+        newValue: account,
+      });
+
       const { accessToken, refreshToken, ...sanitized } = account;
       res.json(sanitized);
     } catch (error) {
@@ -156,12 +178,42 @@ export class AccountsController {
 
       await prisma.redditAccount.delete({ where: { id } });
 
+      await auditService.record({
+        entityType: 'reddit_account',
+        entityId: id,
+        action: 'disconnect',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: existing,
+      });
+
       res.status(204).send();
     } catch (error) {
       next(error);
     }
   };
 
+  // Draft a persona from the account's public comment history; nothing is saved
+  draftPersona = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const account = await prisma.redditAccount.findFirst({
+        where: { id, brandId: req.brandId! },
+      });
+      if (!account) {
+        throw new NotFoundError('Account not found');
+      }
+
+      const userId = req.user!.userId;
+      const draft = await getPersonaDraftService().draftFromAccount(account, userId, await getUserAIConfig(userId));
+
+      res.json(draft);
+    } catch (error) {
+      next(error);
+    }
+  };
+
   // Shadowban detection
   checkShadowban = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -1,12 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { prisma } from '../../utils/prisma';
+import { auditService } from '../../services/audit/audit.service';
 import { competitorAlertService } from '../../services/alerts/competitor.service';
+import { NotFoundError, ConflictError } from '../middleware/errorHandler';
+
+const competitorSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  variants: z.array(z.string().trim().min(1).max(100)).default([]),
+  website: z.string().max(500).optional().nullable(),
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+const shareOfVoiceQuerySchema = z.object({
+  months: z.coerce.number().refine((m) => [3, 6, 12].includes(m), {
+    message: 'months must be 3, 6 or 12',
+  }).default(3),
+});
 
 export class AlertsController {
   getCompetitorMentions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { priority, competitor, limit } = req.query;
 
-      const mentions = await competitorAlertService.getCompetitorMentions({
+      const mentions = await competitorAlertService.getCompetitorMentions(req.brandId!, {
         priority: priority as 'high' | 'medium' | 'low' | undefined,
         competitor: competitor as string | undefined,
         limit: limit ? parseInt(limit as string) : undefined,
@@ -21,24 +38,140 @@ export class AlertsController {
     }
   };
 
-  getCompetitorSummary = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+  getCompetitorSummary = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const summary = await competitorAlertService.getCompetitorSummary();
+      const summary = await competitorAlertService.getCompetitorSummary(req.brandId!);
       res.json(summary);
     } catch (error) {
       next(error);
     }
   };
 
-  getTrackedCompetitors = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+  getShareOfVoice = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const competitors = competitorAlertService.getTrackedCompetitors();
+      const { months } = shareOfVoiceQuerySchema.parse(req.query);
+      const report = await competitorAlertService.getShareOfVoice(req.brandId!, months);
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getTrackedCompetitors = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const competitors = await prisma.competitor.findMany({
+        where: { brandId: req.brandId! },
+        orderBy: { name: 'asc' },
+      });
       res.json(competitors);
     } catch (error) {
       next(error);
     }
   };
 
+  createCompetitor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data = competitorSchema.parse(req.body);
+
+      const existing = await prisma.competitor.findUnique({
+        where: { brandId_name: { brandId: req.brandId!, name: data.name } },
+      });
+      if (existing) {
+        throw new ConflictError('Competitor already exists');
+      }
+
+      const competitor = await prisma.competitor.create({
+        data: {
+          ...data,
+          brandId: req.brandId!,
+        },
+      });
+
+      await auditService.record({
+        entityType: 'competitor',
+        entityId: competitor.id,
+        action: 'create',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        newValue: competitor,
+      });
+
+      res.status(201).json(competitor);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  updateCompetitor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const data = competitorSchema.partial().parse(req.body);
+
+      const existing = await prisma.competitor.findFirst({
+        where: { id, brandId: req.brandId! },
+      });
+      if (!existing) {
+        throw new NotFoundError('Competitor not found');
+      }
+
+      if (data.name && data.name !== existing.name) {
+        const duplicate = await prisma.competitor.findUnique({
+          where: { brandId_name: { brandId: req.brandId!, name: data.name } },
+        });
+        if (duplicate) {
+          throw new ConflictError('Competitor already exists');
+        }
+      }
+
+      const competitor = await prisma.competitor.update({
+        where: { id },
+        data,
+      });
+
+      await auditService.record({
+        entityType: 'competitor',
+        entityId: competitor.id,
+        action: 'update',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: existing,
+        newValue: competitor,
+      });
+
+      res.json(competitor);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteCompetitor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const existing = await prisma.competitor.findFirst({
+        where: { id, brandId: req.brandId! },
+      });
+      if (!existing) {
+        throw new NotFoundError('Competitor not found');
+      }
+
+      await prisma.competitor.delete({ where: { id } });
+
+      await auditService.record({
+        entityType: 'competitor',
+        entityId: id,
+        action: 'delete',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: existing,
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
   analyzePost = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { title, content } = req.body;
@@ -48,7 +181,7 @@ export class AlertsController {
         return;
       }
 
-      const analysis = competitorAlertService.analyzePost(title, content);
+      const analysis = await competitorAlertService.analyzePost(req.brandId!, title, content);
 
       res.json({
         hasCompetitorMention: analysis !== null,
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { AnalyticsService } from '../../services/analytics/analytics.service';
+import { aiUsageService } from '../../services/ai/usage.service';
 import { NotFoundError } from '../middleware/errorHandler';
 
 const trendsQuerySchema = z.object({
@@ -12,7 +13,7 @@ export class AnalyticsController {
 
   getDashboard = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const stats = await this.analyticsService.getDashboardStats();
+      const stats = await this.analyticsService.getDashboardStats(req.brandId!);
       res.json(stats);
     } catch (error) {
       next(error);
@@ -22,7 +23,7 @@ export class AnalyticsController {
   getTrends = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { days } = trendsQuerySchema.parse(req.query);
-      const trends = await this.analyticsService.getTrends(days);
+      const trends = await this.analyticsService.getTrends(req.brandId!, days);
       res.json(trends);
     } catch (error) {
       next(error);
@@ -32,7 +33,7 @@ export class AnalyticsController {
   getAccountPerformance = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
-      const performance = await this.analyticsService.getAccountPerformance(id);
+      const performance = await this.analyticsService.getAccountPerformance(req.brandId!, id);
 
       if (!performance) {
         throw new NotFoundError('Account not found');
@@ -44,12 +45,51 @@ export class AnalyticsController {
     }
   };
 
+  getEngagementMetrics = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const metrics = await this.analyticsService.getEngagementMetrics(req.brandId!, id);
+      res.json(metrics);
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getSubredditPerformance = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const performance = await this.analyticsService.getSubredditPerformance();
+      const performance = await this.analyticsService.getSubredditPerformance(req.brandId!);
       res.json(performance);
     } catch (error) {
       next(error);
     }
   };
+
+  getAIUsage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { days } = trendsQuerySchema.parse(req.query);
+      const usage = await aiUsageService.getUsageReport(req.brandId!, days);
+      res.json(usage);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getDraftVariantStats = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { days } = trendsQuerySchema.parse(req.query);
+      const stats = await this.analyticsService.getDraftVariantStats(req.brandId!, days);
+      res.json(stats);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getOrganizationRollup = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rollup = await this.analyticsService.getOrganizationRollup(req.organizationId!);
+      res.json(rollup);
+    } catch (error) {
+      next(error);
+    }
+  };
 }
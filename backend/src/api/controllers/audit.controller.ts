@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { auditService } from '../../services/audit/audit.service';
+
+const listQuerySchema = z.object({
+  entityType: z.enum(['engagement', 'persona', 'keyword', 'subreddit', 'reddit_account', 'brand', 'brand_member', 'competitor']).optional(),
+  entityId: z.string().uuid().optional(),
+  userId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().min(1).max(200).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export class AuditController {
+  list = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const query = listQuerySchema.parse(req.query);
+      const { items, total } = await auditService.list(req.brandId!, query);
+
+      res.json({
+        items,
+        total,
+        limit: query.limit,
+        offset: query.offset,
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
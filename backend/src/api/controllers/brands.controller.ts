@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../utils/prisma';
+import { auditService } from '../../services/audit/audit.service';
+import { safetyRulesSchema } from '../../services/workflow/safety-rules.service';
+import { sensitiveTopicsSchema } from '../../services/workflow/sensitive-topics.service';
 import { NotFoundError, ForbiddenError, ConflictError } from '../middleware/errorHandler';
 import { BrandRole } from '@prisma/client';
 
@@ -18,6 +21,12 @@ const createBrandSchema = z.object({
   keyDifferentiators: z.array(z.string()).default([]),
   brandValues: z.array(z.string()).default([]),
   contentGuidelines: z.string().optional(),
+  aiMonthlyBudget: z.number().nonnegative().nullable().optional(), // 0 pauses auto-analysis outright
+  safetyRules: safetyRulesSchema.optional(),
+  disclosureRequired: z.boolean().optional(),
+  disclosureTemplate: z.string().max(500).nullable().optional(),
+  redactPii: z.boolean().optional(),
+  sensitiveTopics: sensitiveTopicsSchema.optional(),
 });
 
 const updateBrandSchema = createBrandSchema.partial();
@@ -88,7 +97,10 @@ export class BrandsController {
       // Create brand and membership in transaction
       const brand = await prisma.$transaction(async (tx) => {
         const newBrand = await tx.brand.create({
-          data,
+          data: {
+            ...data,
+            organizationId: req.organizationId,
+          },
         });
 
         // Add creator as owner
@@ -116,6 +128,15 @@ export class BrandsController {
         return newBrand;
       });
 
+      await auditService.record({
+        entityType: 'brand',
+        entityId: brand.id,
+        action: 'create',
+        userId: req.user!.userId,
+        brandId: brand.id,
+        newValue: brand,
+      });
+
       res.status(201).json({ ...brand, role: 'owner' as BrandRole });
     } catch (error) {
       next(error);
@@ -198,11 +219,26 @@ export class BrandsController {
         }
       }
 
+      const existing = await prisma.brand.findUnique({ where: { id } });
+      if (!existing) {
+        throw new NotFoundError('Brand not found');
+      }
+
       const brand = await prisma.brand.update({
         where: { id },
         data,
       });
 
+      await auditService.record({
+        entityType: 'brand',
+        entityId: id,
+        action: 'update',
+        userId: req.user!.userId,
+        brandId: id,
+        oldValue: existing,
+        newValue: brand,
+      });
+
       res.json(brand);
     } catch (error) {
       next(error);
@@ -216,8 +252,22 @@ export class BrandsController {
     try {
       const { id } = req.params;
 
+      const existing = await prisma.brand.findUnique({ where: { id } });
+      if (!existing) {
+        throw new NotFoundError('Brand not found');
+      }
+
       await prisma.brand.delete({ where: { id } });
 
+      await auditService.record({
+        entityType: 'brand',
+        entityId: id,
+        action: 'delete',
+        userId: req.user!.userId,
+        brandId: id,
+        oldValue: existing,
+      });
+
       res.status(204).send();
     } catch (error) {
       next(error);
@@ -269,6 +319,15 @@ export class BrandsController {
         },
       });
 
+      await auditService.record({
+        entityType: 'brand_member',
+        entityId: membership.id,
+        action: 'invite',
+        userId: req.user!.userId,
+        brandId,
+        newValue: membership,
+      });
+
       res.status(201).json(membership);
     } catch (error) {
       next(error);
@@ -310,6 +369,16 @@ export class BrandsController {
         },
       });
 
+      await auditService.record({
+        entityType: 'brand_member',
+        entityId: memberId,
+        action: 'update_role',
+        userId: req.user!.userId,
+        brandId,
+        oldValue: membership,
+        newValue: updated,
+      });
+
       res.json(updated);
     } catch (error) {
       next(error);
@@ -340,6 +409,15 @@ export class BrandsController {
         where: { id: memberId },
       });
 
+      await auditService.record({
+        entityType: 'brand_member',
+        entityId: memberId,
+        action: 'remove',
+        userId: req.user!.userId,
+        brandId,
+        oldValue: membership,
+      });
+
       res.status(204).send();
     } catch (error) {
       next(error);
@@ -1,12 +1,34 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import { DraftRevisionSource, EngagementItem, Prisma } from '@prisma/client';
 import { prisma } from '../../utils/prisma';
-import { NotFoundError, ValidationError } from '../middleware/errorHandler';
-import { AIService, GenerationOptions, RefinementOptions, AIConfig, BrandContext } from '../../services/ai/ai.service';
+import { NotFoundError, ValidationError, ConflictError } from '../middleware/errorHandler';
+import {
+  AIService,
+  CommentStyle,
+  GeneratedDraft,
+  GenerationOptions,
+  GenerationParams,
+  RefinementOptions,
+} from '../../services/ai/ai.service';
+import { getBrandContext, getUserAIConfig } from '../../services/ai/generation-context';
+import { detectInjection } from '../../services/ai/untrusted-content';
 import { RedditService } from '../../services/reddit/reddit.service';
+import { assertTransition, getAllowedTransitions, SYSTEM_STATUSES } from '../../services/workflow/status-machine';
+import { auditService } from '../../services/audit/audit.service';
+import { draftRevisionService, DraftRevisionEntry } from '../../services/workflow/draft-revision.service';
+import { knowledgeService } from '../../services/knowledge/knowledge.service';
+import { claimVerificationService, ClaimCheck } from '../../services/knowledge/claim-verification.service';
+import { safetyRulesService, describeViolations, SafetyViolation } from '../../services/workflow/safety-rules.service';
+import { disclosureService, includesDisclosure } from '../../services/workflow/disclosure.service';
+import { getSubredditRulesService } from '../../services/reddit/subreddit-rules.service';
+import { sensitiveTopicsService, describeTopics, SensitivityDecision } from '../../services/workflow/sensitive-topics.service';
+import { logger } from '../../utils/logger';
+
+const engagementStatusSchema = z.enum(['discovered', 'analyzing', 'draft_ready', 'in_review', 'approved', 'rejected', 'published', 'failed']);
 
 const listQuerySchema = z.object({
-  status: z.enum(['discovered', 'analyzing', 'draft_ready', 'in_review', 'approved', 'rejected', 'published', 'failed']).optional(),
+  status: engagementStatusSchema.optional(),
   subreddit: z.string().optional(),
   recommended: z.coerce.boolean().optional(),
   limit: z.coerce.number().min(1).max(100).default(20),
@@ -14,7 +36,7 @@ const listQuerySchema = z.object({
 });
 
 const exportQuerySchema = z.object({
-  status: z.enum(['discovered', 'analyzing', 'draft_ready', 'in_review', 'approved', 'rejected', 'published', 'failed']).optional(),
+  status: engagementStatusSchema.optional(),
   subreddit: z.string().optional(),
   format: z.enum(['csv', 'json']).default('csv'),
 });
@@ -23,23 +45,76 @@ const updateEngagementSchema = z.object({
   editedResponse: z.string().optional(),
   assignedAccountId: z.string().uuid().nullable().optional(),
   reviewerNotes: z.string().optional(),
+  // Where an edited response came from, for the draft history; defaults to a manual edit
+  revisionSource: z.enum(['edit', 'proofread']).optional(),
 });
 
+const transitionBodySchema = z.object({
+  status: engagementStatusSchema,
+  reason: z.string().optional(),
+});
+
+const commentLengthSchema = z.enum(['concise', 'standard', 'detailed']);
+const commentStyleSchema = z.enum(['casual', 'professional', 'technical', 'friendly']);
+
 const generationOptionsSchema = z.object({
-  length: z.enum(['concise', 'standard', 'detailed']).optional(),
-  style: z.enum(['casual', 'professional', 'technical', 'friendly']).optional(),
+  length: commentLengthSchema.optional(),
+  style: commentStyleSchema.optional(),
   brandVoice: z.string().optional(),
   customInstructions: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+});
+
+const MAX_VARIANTS = 4;
+
+// Styles cycled through when variants are requested by count, starting from the requested style
+const VARIANT_STYLES: CommentStyle[] = ['friendly', 'casual', 'professional', 'technical'];
+
+const variantSpecSchema = z.object({
+  length: commentLengthSchema.optional(),
+  style: commentStyleSchema.optional(),
+  temperature: z.number().min(0).max(2).optional(),
 });
 
+// Either a number of variants in different styles, or the exact variants to generate
+const variantsSchema = z.union([
+  z.number().int().min(1).max(MAX_VARIANTS),
+  z.array(variantSpecSchema).min(2).max(MAX_VARIANTS),
+]);
+
 const generateBodySchema = z.object({
   accountId: z.string().uuid().optional().or(z.literal('')),
   options: generationOptionsSchema.optional(),
+  variants: variantsSchema.optional(),
+});
+
+const regenerateBodySchema = z.object({
+  options: generationOptionsSchema.optional(),
+  variants: variantsSchema.optional(),
+});
+
+const chooseCandidateSchema = z.object({
+  // The reviewer's merged text, when they combined pieces of several candidates
+  text: z.string().min(1).optional(),
 });
 
+type GenerationMode = 'generate' | 'regenerate';
+type Persona = GenerationParams['persona'];
+
+type VariantSpec = z.infer<typeof variantSpecSchema>;
+
+interface PreparedGeneration {
+  mode: GenerationMode;
+  item: EngagementItem;
+  assignedAccountId: string | null;
+  params: GenerationParams;
+  // Set when several candidates were requested instead of a single draft
+  variants: VariantSpec[] | null;
+}
+
 // Default persona for generating drafts without an account
 // Note: Brand-specific context is provided separately via BrandContext
-const defaultPersona = {
+const defaultPersona: Persona = {
   name: 'Default Brand Voice',
   backgroundStory: 'A helpful community member who genuinely wants to provide value.',
   toneOfVoice: 'Friendly, helpful, and informative without being pushy or promotional',
@@ -61,19 +136,36 @@ export class EngagementsController {
   private aiService = new AIService();
   private redditService = new RedditService();
 
-  private async getUserAIConfig(userId: string): Promise<AIConfig | undefined> {
-    const preferences = await prisma.userPreferences.findUnique({
-      where: { userId },
+  private recordChange(req: Request, action: string, before: { id: string }, after: unknown): Promise<void> {
+    return auditService.record({
+      entityType: 'engagement',
+      entityId: before.id,
+      action,
+      userId: req.user!.userId,
+      brandId: req.brandId,
+      oldValue: before,
+      newValue: after,
     });
+  }
 
-    if (preferences) {
-      return {
-        provider: preferences.aiProvider as 'openai' | 'anthropic',
-        model: preferences.aiModel,
-      };
+  private recordRevision(
+    req: Request,
+    item: EngagementItem,
+    source: DraftRevisionSource,
+    extra: Pick<DraftRevisionEntry, 'detail' | 'provider' | 'model' | 'revertedFromId'> = {}
+  ): Promise<void> {
+    const text = item.editedResponse || item.draftResponse;
+    if (!text) {
+      return Promise.resolve();
     }
 
-    return undefined;
+    return draftRevisionService.record({
+      engagementItemId: item.id,
+      text,
+      source,
+      userId: req.user!.userId,
+      ...extra,
+    });
   }
 
   list = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -109,7 +201,12 @@ export class EngagementsController {
         prisma.engagementItem.count({ where }),
       ]);
 
-      res.json({ items, total, limit, offset });
+      res.json({
+        items: items.map((item) => ({ ...item, allowedTransitions: getAllowedTransitions(item) })),
+        total,
+        limit,
+        offset,
+      });
     } catch (error) {
       next(error);
     }
@@ -140,7 +237,75 @@ export class EngagementsController {
         throw new NotFoundError('Engagement item not found');
       }
 
-      res.json(item);
+      res.json({ ...item, allowedTransitions: getAllowedTransitions(item) });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getTransitions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const item = await prisma.engagementItem.findFirst({
+        where: { id, brandId: req.brandId! },
+      });
+      if (!item) {
+        throw new NotFoundError('Engagement item not found');
+      }
+
+      res.json({
+        status: item.status,
+        allowed: getAllowedTransitions(item),
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  transition = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { status, reason } = transitionBodySchema.parse(req.body);
+
+      const item = await prisma.engagementItem.findFirst({
+        where: { id, brandId: req.brandId! },
+      });
+      if (!item) {
+        throw new NotFoundError('Engagement item not found');
+      }
+
+      if (SYSTEM_STATUSES.includes(status)) {
+        throw new ValidationError(`Status "${status}" can only be set by its dedicated action`);
+      }
+
+      assertTransition(item, status);
+      let safetyViolations: SafetyViolation[] = [];
+      if (status === 'approved') {
+        this.assertNotBlocked(await sensitiveTopicsService.check(item), 'approving');
+        safetyViolations = await this.assertSafetyRules(req, item, 'approving');
+        await this.assertNoContradictedClaims(req, item);
+      }
+
+      const isReview = status === 'approved' || status === 'rejected';
+      const update = prisma.engagementItem.update({
+        where: { id },
+        data: {
+          status,
+          ...(isReview && {
+            reviewerId: req.user!.userId,
+            reviewedAt: new Date(),
+          }),
+          ...(status === 'rejected' && reason !== undefined && { reviewerNotes: reason }),
+        },
+      });
+      const [updated] = status === 'approved'
+        ? await prisma.$transaction([update, this.discardPendingCandidates(id)])
+        : [await update];
+
+      await this.recordChange(req, 'transition', item, updated);
+
+      res.json({ ...updated, allowedTransitions: getAllowedTransitions(updated), safetyViolations });
     } catch (error) {
       next(error);
     }
@@ -158,59 +323,65 @@ export class EngagementsController {
         throw new NotFoundError('Engagement item not found');
       }
 
+      assertTransition(item, 'analyzing');
+
       await prisma.engagementItem.update({
         where: { id },
         data: { status: 'analyzing' },
       });
 
-      const aiConfig = await this.getUserAIConfig(userId);
+      const aiConfig = await getUserAIConfig(userId);
 
       // Fetch brand context for AI analysis
-      const brandData = await prisma.brand.findUnique({
-        where: { id: req.brandId! },
-        select: {
-          name: true,
-          description: true,
-          productDescription: true,
-          targetAudience: true,
-          keyDifferentiators: true,
-          brandValues: true,
-          toneOfVoice: true,
-          goals: true,
-          contentGuidelines: true,
-        },
-      });
-
-      if (!brandData || (!brandData.productDescription && !brandData.description && !brandData.targetAudience)) {
+      const brand = await getBrandContext(req.brandId!);
+      if (!brand) {
         throw new ValidationError('Brand settings required. Please configure your brand (product description, target audience) in Brand Settings before analyzing posts.');
       }
 
-      const brand: BrandContext = {
-        ...brandData,
-        keyDifferentiators: brandData.keyDifferentiators as string[] || [],
-        brandValues: brandData.brandValues as string[] || [],
-        goals: brandData.goals as string[] || [],
-      };
+      const sensitivity = await sensitiveTopicsService.classify(item, brand, aiConfig, {
+        feature: 'sensitivity_check',
+        brandId: req.brandId,
+        userId,
+      });
+      if (sensitivity.action === 'block') {
+        const rejected = await prisma.engagementItem.update({
+          where: { id },
+          data: {
+            status: 'rejected',
+            isRecommended: false,
+            reviewerNotes: `Blocked: sensitive topic (${describeTopics(sensitivity.triggered)})`,
+          },
+        });
+        await this.recordChange(req, 'analyze', item, rejected);
+        this.assertNotBlocked(sensitivity, 'engaging');
+      }
 
       const analysis = await this.aiService.analyzePost({
         subreddit: item.subreddit,
         title: item.postTitle,
         content: item.postContent || '',
         score: item.postScore || 0,
-      }, brand, aiConfig);
+        rules: await getSubredditRulesService().describe(item.subreddit),
+      }, brand, aiConfig, { feature: 'analysis', brandId: req.brandId, userId });
 
-      const isRecommended = analysis.relevance_score >= 7;
+      const injectionFlags = detectInjection(item.postTitle, item.postContent);
+      const isRecommended = analysis.relevance_score >= 7
+        && injectionFlags.length === 0
+        && sensitivity.action === 'allow';
 
       const updated = await prisma.engagementItem.update({
         where: { id },
         data: {
           aiAnalysis: JSON.parse(JSON.stringify(analysis)),
           relevanceScore: analysis.relevance_score,
+          injectionFlags: injectionFlags as unknown as Prisma.InputJsonValue,
           isRecommended,
           status: analysis.should_engage ? 'draft_ready' : 'rejected',
         },
       });
 
+      await this.recordChange(req, 'analyze', item, updated);
+
       res.json(updated);
     } catch (error) {
       next(error);
@@ -218,89 +389,104 @@ export class EngagementsController {
   };
 
   generate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const prepared = await this.prepareGeneration(req, 'generate');
+      res.json(await this.generateDraft(req, prepared));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  regenerate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const prepared = await this.prepareGeneration(req, 'regenerate');
+      res.json(await this.generateDraft(req, prepared));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  listCandidates = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
-      const { accountId, options } = generateBodySchema.parse(req.body);
-      const userId = req.user!.userId;
 
       const item = await prisma.engagementItem.findFirst({
         where: { id, brandId: req.brandId! },
+        select: { id: true },
       });
       if (!item) {
         throw new NotFoundError('Engagement item not found');
       }
 
-      // Use account's persona if accountId provided, otherwise use default persona
-      let persona: {
-        name: string;
-        backgroundStory?: string | null;
-        toneOfVoice: string;
-        characterTraits: unknown;
-        expertiseAreas: unknown;
-        goals: unknown;
-        writingGuidelines?: string | null;
-        exampleResponses: unknown;
-      } = defaultPersona;
-      let assignedAccountId: string | null = null;
-
-      if (accountId && accountId !== '') {
-        const account = await prisma.redditAccount.findFirst({
-          where: { id: accountId, organizationId: req.organizationId },
-          include: { persona: true },
-        });
+      const candidates = await prisma.draftCandidate.findMany({
+        where: { engagementItemId: id, status: 'pending' },
+        orderBy: { createdAt: 'asc' },
+      });
 
-        if (account?.persona) {
-          persona = account.persona;
-          assignedAccountId = accountId;
-        }
-      }
+      res.json(candidates);
+    } catch (error) {
+      next(error);
+    }
+  };
 
-      const aiConfig = await this.getUserAIConfig(userId);
-
-      // Fetch brand context for AI generation
-      const brandData = await prisma.brand.findUnique({
-        where: { id: req.brandId! },
-        select: {
-          name: true,
-          description: true,
-          productDescription: true,
-          targetAudience: true,
-          keyDifferentiators: true,
-          brandValues: true,
-          toneOfVoice: true,
-          goals: true,
-          contentGuidelines: true,
-        },
+  /**
+   * Use one candidate as the draft, optionally with text the reviewer merged from
+   * several, and record it as the winner of its batch. The chosen text goes back to review.
+   */
+  chooseCandidate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id, candidateId } = req.params;
+      const { text } = chooseCandidateSchema.parse(req.body || {});
+      const userId = req.user!.userId;
+
+      const item = await prisma.engagementItem.findFirst({
+        where: { id, brandId: req.brandId! },
       });
+      if (!item) {
+        throw new NotFoundError('Engagement item not found');
+      }
 
-      if (!brandData || (!brandData.productDescription && !brandData.description && !brandData.targetAudience)) {
-        throw new ValidationError('Brand settings required. Please configure your brand (product description, target audience, key differentiators) in Brand Settings before generating responses.');
+      const candidate = await prisma.draftCandidate.findFirst({
+        where: { id: candidateId, engagementItemId: id },
+      });
+      if (!candidate) {
+        throw new NotFoundError('Draft candidate not found');
+      }
+      if (candidate.status !== 'pending') {
+        throw new ConflictError('A candidate from this batch has already been chosen');
       }
 
-      const brand: BrandContext = {
-        ...brandData,
-        keyDifferentiators: brandData.keyDifferentiators as string[] || [],
-        brandValues: brandData.brandValues as string[] || [],
-        goals: brandData.goals as string[] || [],
-      };
+      assertTransition(item, 'in_review');
 
-      const draft = await this.aiService.generateResponse({
-        persona,
-        subreddit: item.subreddit,
-        postTitle: item.postTitle,
-        postContent: item.postContent || '',
-        brand,
-        options: options as GenerationOptions,
-        config: aiConfig,
-      });
+      const merged = !!text && text.trim() !== candidate.text.trim();
 
-      const updated = await prisma.engagementItem.update({
-        where: { id },
-        data: {
-          draftResponse: draft,
-          assignedAccountId,
-          status: 'draft_ready',
-        },
+      const [, , updated] = await prisma.$transaction([
+        prisma.draftCandidate.update({
+          where: { id: candidate.id },
+          data: { status: 'chosen', merged, chosenAt: new Date(), chosenById: userId },
+        }),
+        prisma.draftCandidate.updateMany({
+          where: { engagementItemId: id, status: 'pending', id: { not: candidate.id } },
+          data: { status: 'discarded' },
+        }),
+        prisma.engagementItem.update({
+          where: { id },
+          data: {
+            draftResponse: candidate.text,
+            draftProvider: candidate.provider,
+            draftModel: candidate.model,
+            draftSources: candidate.sources as Prisma.InputJsonValue,
+            editedResponse: merged ? text : null,
+            status: 'in_review',
+          },
+        }),
+      ]);
+
+      await this.recordChange(req, 'choose_candidate', item, updated);
+      await this.recordRevision(req, updated, 'candidate', {
+        detail: merged ? 'merged' : candidate.style,
+        provider: candidate.provider,
+        model: candidate.model,
       });
 
       res.json(updated);
@@ -309,81 +495,390 @@ export class EngagementsController {
     }
   };
 
-  regenerate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  listRevisions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
-      const options = generationOptionsSchema.optional().parse(req.body?.options);
-      const userId = req.user!.userId;
 
       const item = await prisma.engagementItem.findFirst({
         where: { id, brandId: req.brandId! },
-        include: {
-          assignedAccount: {
-            include: { persona: true },
-          },
-        },
+        select: { id: true },
       });
+      if (!item) {
+        throw new NotFoundError('Engagement item not found');
+      }
+
+      res.json(await draftRevisionService.list(id));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Restore an earlier revision as the response. The restore is itself a new
+   * revision, so reverting never loses the text it replaces.
+   */
+  revertRevision = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id, revisionId } = req.params;
 
+      const item = await prisma.engagementItem.findFirst({
+        where: { id, brandId: req.brandId! },
+      });
       if (!item) {
         throw new NotFoundError('Engagement item not found');
       }
 
-      if (!item.assignedAccount?.persona) {
-        throw new ValidationError('Account with persona required');
+      const revision = await draftRevisionService.get(id, revisionId);
+      if (!revision) {
+        throw new NotFoundError('Draft revision not found');
       }
 
-      const aiConfig = await this.getUserAIConfig(userId);
-
-      // Fetch brand context for AI generation
-      const brandData = await prisma.brand.findUnique({
-        where: { id: req.brandId! },
-        select: {
-          name: true,
-          description: true,
-          productDescription: true,
-          targetAudience: true,
-          keyDifferentiators: true,
-          brandValues: true,
-          toneOfVoice: true,
-          goals: true,
-          contentGuidelines: true,
+      assertTransition(item, 'in_review');
+
+      const updated = await prisma.engagementItem.update({
+        where: { id },
+        data: {
+          editedResponse: revision.text,
+          status: 'in_review',
         },
       });
 
-      if (!brandData || (!brandData.productDescription && !brandData.description && !brandData.targetAudience)) {
-        throw new ValidationError('Brand settings required. Please configure your brand in Brand Settings before regenerating responses.');
+      await this.recordChange(req, 'revert_draft', item, updated);
+      await this.recordRevision(req, updated, 'revert', { revertedFromId: revision.id });
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  generateStream = (req: Request, res: Response, next: NextFunction): Promise<void> =>
+    this.streamDraft(req, res, next, 'generate');
+
+  regenerateStream = (req: Request, res: Response, next: NextFunction): Promise<void> =>
+    this.streamDraft(req, res, next, 'regenerate');
+
+  /**
+   * Server-Sent Events variant of generate/regenerate: `token` events carry text as the
+   * model writes it, then `done` carries the saved item or `error` the failure. Closing
+   * the connection cancels the model request and leaves the existing draft untouched.
+   */
+  private async streamDraft(req: Request, res: Response, next: NextFunction, mode: GenerationMode): Promise<void> {
+    let prepared: PreparedGeneration;
+    try {
+      // Validation and permission errors go through the normal JSON error handler
+      prepared = await this.prepareGeneration(req, mode);
+      if (prepared.variants) {
+        throw new ValidationError(`Draft variants can't be streamed; use POST /api/engagements/:id/${mode} instead`);
+      }
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abort.abort();
       }
+    });
 
-      const brand: BrandContext = {
-        ...brandData,
-        keyDifferentiators: brandData.keyDifferentiators as string[] || [],
-        brandValues: brandData.brandValues as string[] || [],
-        goals: brandData.goals as string[] || [],
-      };
+    try {
+      const draft = await this.aiService.streamResponse({
+        ...prepared.params,
+        onText: (text) => send('token', { text }),
+        signal: abort.signal,
+      });
+      send('done', await this.saveDraft(req, prepared, draft));
+    } catch (error) {
+      if (abort.signal.aborted) {
+        logger.info(`Draft ${mode} for engagement ${prepared.item.id} cancelled by client`);
+      } else {
+        logger.error(`Draft ${mode} stream failed for engagement ${prepared.item.id}:`, error);
+        send('error', { error: (error as Error).message });
+      }
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * Load the item, persona and brand context a draft is generated from, and check the
+   * item may move to draft_ready
+   */
+  private async prepareGeneration(req: Request, mode: GenerationMode): Promise<PreparedGeneration> {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const { accountId, options, variants } = mode === 'generate'
+      ? generateBodySchema.parse(req.body)
+      : { accountId: undefined, ...regenerateBodySchema.parse(req.body || {}) };
+
+    const item = await prisma.engagementItem.findFirst({
+      where: { id, brandId: req.brandId! },
+      include: {
+        assignedAccount: {
+          include: { persona: true },
+        },
+      },
+    });
+
+    if (!item) {
+      throw new NotFoundError('Engagement item not found');
+    }
+
+    // Regenerating keeps the assigned account's persona; generating uses the chosen
+    // account's persona, or the default persona when no account is given
+    let persona: Persona = defaultPersona;
+    let personaDisclosure: string | null = null;
+    let assignedAccountId: string | null = null;
+
+    if (mode === 'regenerate') {
+      if (!item.assignedAccount?.persona) {
+        throw new ValidationError('Account with persona required');
+      }
+      persona = item.assignedAccount.persona;
+      personaDisclosure = item.assignedAccount.persona.disclosureTemplate;
+      assignedAccountId = item.assignedAccountId;
+    } else if (accountId && accountId !== '') {
+      const account = await prisma.redditAccount.findFirst({
+        where: { id: accountId, organizationId: req.organizationId },
+        include: { persona: true },
+      });
+
+      if (account?.persona) {
+        persona = account.persona;
+        personaDisclosure = account.persona.disclosureTemplate;
+        assignedAccountId = accountId;
+      }
+    }
+
+    assertTransition(item, 'draft_ready');
+
+    const aiConfig = await getUserAIConfig(userId);
+
+    // Fetch brand context for AI generation
+    const brand = await getBrandContext(req.brandId!);
+    if (!brand) {
+      throw new ValidationError(mode === 'generate'
+        ? 'Brand settings required. Please configure your brand (product description, target audience, key differentiators) in Brand Settings before generating responses.'
+        : 'Brand settings required. Please configure your brand in Brand Settings before regenerating responses.');
+    }
 
-      const draft = await this.aiService.generateResponse({
-        persona: item.assignedAccount.persona,
+    // Items discovered before sensitivity checks existed are classified on first draft
+    this.assertNotBlocked(item.sensitivityCheckedAt
+      ? await sensitiveTopicsService.check(item)
+      : await sensitiveTopicsService.classify(item, brand, aiConfig, { feature: 'sensitivity_check', brandId: req.brandId, userId }),
+    'drafting');
+
+    return {
+      mode,
+      item,
+      assignedAccountId,
+      variants: this.resolveVariants(variants, options),
+      params: {
+        persona,
         subreddit: item.subreddit,
         postTitle: item.postTitle,
         postContent: item.postContent || '',
         brand,
+        knowledge: await knowledgeService.retrieve(req.brandId!, `${item.postTitle}\n${item.postContent || ''}`),
+        disclosure: (await disclosureService.resolve(req.brandId!, item.subreddit, personaDisclosure))?.text,
+        subredditRules: await getSubredditRulesService().describe(item.subreddit),
         options: options as GenerationOptions,
         config: aiConfig,
-      });
+        usage: { feature: 'generation', brandId: req.brandId, userId },
+      },
+    };
+  }
 
-      const updated = await prisma.engagementItem.update({
-        where: { id },
-        data: {
-          draftResponse: draft,
-          editedResponse: null,
+  /**
+   * Write a single draft, or with variants requested, generate every candidate in
+   * parallel, store them for picking and use the first as the draft meanwhile
+   */
+  private async generateDraft(req: Request, prepared: PreparedGeneration) {
+    if (!prepared.variants) {
+      return this.saveDraft(req, prepared, await this.aiService.generateResponse(prepared.params));
+    }
+
+    const { params, variants, item } = prepared;
+    const results = await Promise.allSettled(variants.map((variant) =>
+      this.aiService.generateResponse({
+        ...params,
+        options: {
+          ...params.options,
+          ...(variant.style && { style: variant.style }),
+          ...(variant.length && { length: variant.length }),
+          ...(variant.temperature !== undefined && { temperature: variant.temperature }),
         },
+      })
+    ));
+
+    const generated = results.flatMap((result, i) =>
+      result.status === 'fulfilled' ? [{ variant: variants[i], draft: result.value }] : []
+    );
+    if (generated.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    if (generated.length < variants.length) {
+      logger.warn(`Generated ${generated.length} of ${variants.length} draft variants for engagement ${item.id}`);
+    }
+
+    // Candidates from an earlier batch that nobody picked lose to this one
+    await prisma.$transaction([
+      prisma.draftCandidate.updateMany({
+        where: { engagementItemId: item.id, status: 'pending' },
+        data: { status: 'discarded' },
+      }),
+      prisma.draftCandidate.createMany({
+        data: generated.map(({ variant, draft }) => ({
+          engagementItemId: item.id,
+          text: draft.text,
+          style: variant.style ?? params.options?.style ?? null,
+          length: variant.length ?? params.options?.length ?? null,
+          temperature: variant.temperature ?? params.options?.temperature ?? null,
+          provider: draft.provider,
+          model: draft.model,
+          sources: draft.sources as unknown as Prisma.InputJsonValue,
+        })),
+      }),
+    ]);
+
+    return this.saveDraft(req, prepared, generated[0].draft);
+  }
+
+  private resolveVariants(
+    requested: z.infer<typeof variantsSchema> | undefined,
+    options: GenerationOptions | undefined
+  ): VariantSpec[] | null {
+    if (Array.isArray(requested)) {
+      return requested;
+    }
+    if (!requested || requested < 2) {
+      return null;
+    }
+
+    const first = VARIANT_STYLES.indexOf(options?.style || 'friendly');
+    return Array.from({ length: requested }, (_, i) => ({
+      style: VARIANT_STYLES[(first + i) % VARIANT_STYLES.length],
+    }));
+  }
+
+  private async saveDraft(req: Request, prepared: PreparedGeneration, draft: GeneratedDraft) {
+    const { mode, item, assignedAccountId } = prepared;
+
+    if (!prepared.variants) {
+      // A fresh single draft supersedes any candidates still waiting to be picked
+      await prisma.draftCandidate.updateMany({
+        where: { engagementItemId: item.id, status: 'pending' },
+        data: { status: 'discarded' },
       });
+    }
 
-      res.json(updated);
-    } catch (error) {
-      next(error);
+    const updated = await prisma.engagementItem.update({
+      where: { id: item.id },
+      data: {
+        draftResponse: draft.text,
+        draftProvider: draft.provider,
+        draftModel: draft.model,
+        draftSources: draft.sources as unknown as Prisma.InputJsonValue,
+        // A regenerated draft replaces any reviewer edits of the old one
+        ...(mode === 'generate' ? { assignedAccountId } : { editedResponse: null }),
+        status: 'draft_ready',
+      },
+    });
+
+    await this.recordChange(req, mode, item, updated);
+    await this.recordRevision(req, updated, mode, { provider: draft.provider, model: draft.model });
+    return updated;
+  }
+
+  /**
+   * Runs the brand's safety rules on the draft. Blocking violations stop the action;
+   * warnings are returned so the response can show them.
+   */
+  private async assertSafetyRules(
+    req: Request,
+    item: EngagementItem,
+    action: 'approving' | 'publishing'
+  ): Promise<SafetyViolation[]> {
+    const text = item.editedResponse || item.draftResponse;
+    if (!text) {
+      return [];
     }
-  };
+
+    const { violations, blocking } = await safetyRulesService.check(req.brandId!, text);
+    if (blocking.length > 0) {
+      throw new ConflictError(
+        `The draft breaks ${blocking.length} brand safety rule(s) and needs changes before ${action}. ${describeViolations(blocking)}`,
+        { safetyViolations: violations }
+      );
+    }
+    return violations;
+  }
+
+  /**
+   * Posts on a topic the brand hard-blocks can't be drafted for, approved or published.
+   * The brand's current settings apply, so unblocking a topic frees its posts.
+   */
+  private assertNotBlocked(sensitivity: SensitivityDecision, action: 'engaging' | 'drafting' | 'approving' | 'publishing'): void {
+    if (sensitivity.action === 'block') {
+      throw new ConflictError(
+        `This post is about ${describeTopics(sensitivity.triggered)}, a topic the brand stays out of, so ${action} is blocked.`,
+        { sensitivity }
+      );
+    }
+  }
+
+  // Candidates still waiting would replace an approved draft without another review
+  private discardPendingCandidates(engagementItemId: string) {
+    return prisma.draftCandidate.updateMany({
+      where: { engagementItemId, status: 'pending' },
+      data: { status: 'discarded' },
+    });
+  }
+
+  /**
+   * Approval is blocked while the draft has contradicted claims. A draft that was never
+   * checked, or changed since its last check, is verified first, so fixing the text is enough.
+   */
+  private async assertNoContradictedClaims(req: Request, item: EngagementItem): Promise<void> {
+    const text = item.editedResponse || item.draftResponse;
+    if (!text) {
+      return;
+    }
+
+    let check = item.claimCheck as unknown as ClaimCheck | null;
+    if (!check || check.text !== text) {
+      const userId = req.user!.userId;
+      check = await claimVerificationService.check(
+        item.id,
+        req.brandId!,
+        text,
+        await getUserAIConfig(userId),
+        { feature: 'claim_verification', brandId: req.brandId, userId }
+      );
+    }
+
+    const contradicted = claimVerificationService.contradicted(check);
+    if (contradicted.length > 0) {
+      throw new ConflictError(
+        `The draft has ${contradicted.length} claim(s) that contradict the brand's facts. Fix them before approving.`,
+        { contradictedClaims: contradicted }
+      );
+    }
+  }
 
   refine = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -409,25 +904,38 @@ export class EngagementsController {
         throw new ValidationError('No draft to refine');
       }
 
-      const aiConfig = await this.getUserAIConfig(userId);
+      assertTransition(item, 'in_review');
+
+      const aiConfig = await getUserAIConfig(userId);
 
       const refined = await this.aiService.refineResponse({
         currentDraft,
         subreddit: item.subreddit,
         postTitle: item.postTitle,
         persona: item.assignedAccount?.persona || undefined,
+        brand: await getBrandContext(req.brandId!),
         options: refinementOptions as RefinementOptions,
         config: aiConfig,
+        usage: { feature: 'refinement', brandId: req.brandId, userId },
       });
 
       const updated = await prisma.engagementItem.update({
         where: { id },
         data: {
-          editedResponse: refined,
+          editedResponse: refined.text,
+          draftProvider: refined.provider,
+          draftModel: refined.model,
           status: 'in_review',
         },
       });
 
+      await this.recordChange(req, 'refine', item, updated);
+      await this.recordRevision(req, updated, 'refine', {
+        detail: refinementOptions.targetStyle ? `${refinementOptions.action}:${refinementOptions.targetStyle}` : refinementOptions.action,
+        provider: refined.provider,
+        model: refined.model,
+      });
+
       res.json(updated);
     } catch (error) {
       next(error);
@@ -457,16 +965,32 @@ export class EngagementsController {
         throw new ValidationError('No draft to proofread');
       }
 
-      const aiConfig = await this.getUserAIConfig(userId);
-
-      const result = await this.aiService.proofread({
-        draft: textToProofread,
-        subreddit: item.subreddit,
-        persona: item.assignedAccount?.persona || undefined,
-        config: aiConfig,
-      });
+      const aiConfig = await getUserAIConfig(userId);
+
+      const [result, claimCheck] = await Promise.all([
+        this.aiService.proofread({
+          draft: textToProofread,
+          subreddit: item.subreddit,
+          persona: item.assignedAccount?.persona || undefined,
+          knowledge: await knowledgeService.retrieve(req.brandId!, `${item.postTitle}\n${textToProofread}`),
+          subredditRules: await getSubredditRulesService().describe(item.subreddit),
+          config: aiConfig,
+          usage: { feature: 'proofreading', brandId: req.brandId, userId },
+        }),
+        claimVerificationService.check(
+          item.id,
+          req.brandId!,
+          textToProofread,
+          aiConfig,
+          { feature: 'claim_verification', brandId: req.brandId, userId }
+        ).catch((error) => {
+          // The proofread is still useful; approval falls back to the last stored check
+          logger.warn(`Claim verification failed for engagement ${item.id}:`, error);
+          return null;
+        }),
+      ]);
 
-      res.json(result);
+      res.json({ ...result, claimCheck });
     } catch (error) {
       next(error);
     }
@@ -475,7 +999,7 @@ export class EngagementsController {
   update = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
-      const data = updateEngagementSchema.parse(req.body);
+      const { revisionSource, ...data } = updateEngagementSchema.parse(req.body);
 
       const existing = await prisma.engagementItem.findFirst({
         where: { id, brandId: req.brandId! },
@@ -484,41 +1008,100 @@ export class EngagementsController {
         throw new NotFoundError('Engagement item not found');
       }
 
+      // Editing the response sends the item (back) to review
+      const isEdit = data.editedResponse !== undefined;
+      if (isEdit) {
+        assertTransition({ ...existing, ...data }, 'in_review');
+      } else if (existing.status === 'published') {
+        throw new ConflictError('Published engagements cannot be modified', {
+          from: existing.status,
+          allowed: [],
+        });
+      }
+
       const updated = await prisma.engagementItem.update({
         where: { id },
         data: {
           ...data,
-          status: 'in_review',
+          ...(isEdit && { status: 'in_review' as const }),
         },
       });
 
+      await this.recordChange(req, 'update', existing, updated);
+      if (isEdit) {
+        await this.recordRevision(req, updated, revisionSource ?? 'edit');
+      }
+
       res.json(updated);
     } catch (error) {
       next(error);
     }
   };
 
-  approve = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  /**
+   * Check the saved draft against the brand's safety rules and disclosure requirement
+   * without changing anything
+   */
+  safety = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
 
       const item = await prisma.engagementItem.findFirst({
         where: { id, brandId: req.brandId! },
+        select: { brandId: true, subreddit: true, assignedAccountId: true, draftResponse: true, editedResponse: true },
       });
       if (!item) {
         throw new NotFoundError('Engagement item not found');
       }
 
-      const updated = await prisma.engagementItem.update({
-        where: { id },
-        data: {
-          status: 'approved',
-          reviewerId: req.user!.userId,
-          reviewedAt: new Date(),
-        },
+      const text = item.editedResponse || item.draftResponse || '';
+      const [result, disclosure] = await Promise.all([
+        safetyRulesService.check(req.brandId!, text),
+        disclosureService.forItem(item),
+      ]);
+
+      res.json({
+        text,
+        ...result,
+        // Publishing is refused while a required disclosure is missing
+        disclosure: disclosure && { ...disclosure, present: includesDisclosure(text, disclosure) },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  approve = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const item = await prisma.engagementItem.findFirst({
+        where: { id, brandId: req.brandId! },
       });
+      if (!item) {
+        throw new NotFoundError('Engagement item not found');
+      }
 
-      res.json(updated);
+      assertTransition(item, 'approved');
+      this.assertNotBlocked(await sensitiveTopicsService.check(item), 'approving');
+      const safetyViolations = await this.assertSafetyRules(req, item, 'approving');
+      await this.assertNoContradictedClaims(req, item);
+
+      const [, updated] = await prisma.$transaction([
+        this.discardPendingCandidates(id),
+        prisma.engagementItem.update({
+          where: { id },
+          data: {
+            status: 'approved',
+            reviewerId: req.user!.userId,
+            reviewedAt: new Date(),
+          },
+        }),
+      ]);
+
+      await this.recordChange(req, 'approve', item, updated);
+
+      res.json({ ...updated, safetyViolations });
     } catch (error) {
       next(error);
     }
@@ -536,6 +1119,8 @@ export class EngagementsController {
         throw new NotFoundError('Engagement item not found');
       }
 
+      assertTransition(item, 'rejected');
+
       const updated = await prisma.engagementItem.update({
         where: { id },
         data: {
@@ -546,6 +1131,8 @@ export class EngagementsController {
         },
       });
 
+      await this.recordChange(req, 'reject', item, updated);
+
       res.json(updated);
     } catch (error) {
       next(error);
@@ -565,19 +1152,46 @@ export class EngagementsController {
         throw new NotFoundError('Engagement item not found');
       }
 
+      // Only approved drafts are posted; a failed publish is moved back to approved to retry
       if (item.status !== 'approved') {
-        throw new ValidationError('Item must be approved before publishing');
+        throw new ConflictError(`Only approved engagements can be published (this one is "${item.status}")`, {
+          from: item.status,
+          to: 'published',
+        });
       }
+      assertTransition(item, 'published');
+      this.assertNotBlocked(await sensitiveTopicsService.check(item), 'publishing');
 
       if (!item.assignedAccount) {
         throw new ValidationError('No account assigned');
       }
 
+      const shortfalls = await getSubredditRulesService().checkAccount(item.subreddit, item.assignedAccount);
+      if (shortfalls.length > 0) {
+        const described = shortfalls.map((problem) => problem.requirement === 'minKarma'
+          ? `${problem.required} karma (has ${problem.actual ?? 'unknown'})`
+          : `an account at least ${problem.required} days old (is ${problem.actual ?? 'unknown'} days)`);
+        throw new ConflictError(
+          `u/${item.assignedAccount.username} can't post in r/${item.subreddit}, which requires ${described.join(' and ')}`,
+          { accountRequirements: shortfalls }
+        );
+      }
+
       const textToPublish = item.editedResponse || item.draftResponse;
       if (!textToPublish) {
         throw new ValidationError('No content to publish');
       }
 
+      const safetyViolations = await this.assertSafetyRules(req, item, 'publishing');
+
+      const disclosure = await disclosureService.forItem(item);
+      if (disclosure && !includesDisclosure(textToPublish, disclosure)) {
+        throw new ConflictError(
+          `r/${item.subreddit} requires an affiliation disclosure. Add "${disclosure.text}" to the draft before publishing.`,
+          { disclosure }
+        );
+      }
+
       try {
         const commentId = await this.redditService.postComment(
           item.assignedAccount,
@@ -585,21 +1199,27 @@ export class EngagementsController {
           textToPublish
         );
 
-        const updated = await prisma.engagementItem.update({
-          where: { id },
-          data: {
-            status: 'published',
-            publishedAt: new Date(),
-            redditCommentId: commentId,
-          },
-        });
+        const [, updated] = await prisma.$transaction([
+          this.discardPendingCandidates(id),
+          prisma.engagementItem.update({
+            where: { id },
+            data: {
+              status: 'published',
+              publishedAt: new Date(),
+              redditCommentId: commentId,
+            },
+          }),
+        ]);
+
+        await this.recordChange(req, 'publish', item, updated);
 
-        res.json(updated);
+        res.json({ ...updated, safetyViolations });
       } catch {
-        await prisma.engagementItem.update({
+        const failed = await prisma.engagementItem.update({
           where: { id },
           data: { status: 'failed' },
         });
+        await this.recordChange(req, 'publish_failed', item, failed);
         throw new Error('Failed to publish comment');
       }
     } catch (error) {
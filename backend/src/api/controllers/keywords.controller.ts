@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../utils/prisma';
+import { auditService } from '../../services/audit/audit.service';
 import { NotFoundError } from '../middleware/errorHandler';
 
 const keywordSchema = z.object({
@@ -41,6 +42,15 @@ export class KeywordsController {
         },
       });
 
+      await auditService.record({
+        entityType: 'keyword',
+        entityId: keyword.id,
+        action: 'create',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        newValue: keyword,
+      });
+
       res.status(201).json(keyword);
     } catch (error) {
       next(error);
@@ -67,6 +77,16 @@ export class KeywordsController {
         data,
       });
 
+      await auditService.record({
+        entityType: 'keyword',
+        entityId: keyword.id,
+        action: 'update',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: existing,
+        newValue: keyword,
+      });
+
       res.json(keyword);
     } catch (error) {
       next(error);
@@ -89,6 +109,15 @@ export class KeywordsController {
 
       await prisma.keyword.delete({ where: { id } });
 
+      await auditService.record({
+        entityType: 'keyword',
+        entityId: id,
+        action: 'delete',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: existing,
+      });
+
       res.status(204).send();
     } catch (error) {
       next(error);
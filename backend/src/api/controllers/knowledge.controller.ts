@@ -0,0 +1,163 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { KnowledgeDocument } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { auditService } from '../../services/audit/audit.service';
+import { knowledgeService } from '../../services/knowledge/knowledge.service';
+import { NotFoundError } from '../middleware/errorHandler';
+
+const documentSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  kind: z.enum(['markdown', 'faq', 'pricing', 'spec']).default('markdown'),
+  content: z.string().trim().min(1).max(200000),
+});
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1),
+  limit: z.coerce.number().min(1).max(20).default(5),
+});
+
+// Document bodies can be long; the audit log keeps what identifies the change
+function auditSummary(document: KnowledgeDocument) {
+  return {
+    id: document.id,
+    title: document.title,
+    kind: document.kind,
+    contentLength: document.content.length,
+  };
+}
+
+export class KnowledgeController {
+  list = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const documents = await prisma.knowledgeDocument.findMany({
+        where: { brandId: req.brandId! },
+        select: {
+          id: true,
+          title: true,
+          kind: true,
+          createdAt: true,
+          updatedAt: true,
+          createdBy: { select: { id: true, name: true } },
+          _count: { select: { chunks: true } },
+        },
+        orderBy: { updatedAt: 'desc' },
+      });
+
+      res.json(documents);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const document = await prisma.knowledgeDocument.findFirst({
+        where: { id, brandId: req.brandId! },
+        include: {
+          chunks: { orderBy: { position: 'asc' } },
+        },
+      });
+      if (!document) {
+        throw new NotFoundError('Knowledge document not found');
+      }
+
+      res.json(document);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  create = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data = documentSchema.parse(req.body);
+
+      const document = await knowledgeService.createDocument(req.brandId!, data, req.user!.userId);
+
+      await auditService.record({
+        entityType: 'knowledge_document',
+        entityId: document.id,
+        action: 'create',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        newValue: auditSummary(document),
+      });
+
+      res.status(201).json(document);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  update = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const data = documentSchema.partial().parse(req.body);
+
+      const existing = await prisma.knowledgeDocument.findFirst({
+        where: { id, brandId: req.brandId! },
+      });
+      if (!existing) {
+        throw new NotFoundError('Knowledge document not found');
+      }
+
+      const document = await knowledgeService.updateDocument(id, data);
+
+      await auditService.record({
+        entityType: 'knowledge_document',
+        entityId: id,
+        action: 'update',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: auditSummary(existing),
+        newValue: auditSummary(document),
+      });
+
+      res.json(document);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  delete = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const existing = await prisma.knowledgeDocument.findFirst({
+        where: { id, brandId: req.brandId! },
+      });
+      if (!existing) {
+        throw new NotFoundError('Knowledge document not found');
+      }
+
+      await prisma.knowledgeDocument.delete({ where: { id } });
+
+      await auditService.record({
+        entityType: 'knowledge_document',
+        entityId: id,
+        action: 'delete',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: auditSummary(existing),
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // Preview what drafts would retrieve for a post
+  search = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { q, limit } = searchQuerySchema.parse(req.query);
+
+      const snippets = await knowledgeService.retrieve(req.brandId!, q, limit);
+      res.json(snippets);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
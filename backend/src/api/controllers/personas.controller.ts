@@ -1,7 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../utils/prisma';
-import { NotFoundError } from '../middleware/errorHandler';
+import { auditService } from '../../services/audit/audit.service';
+import { AIService } from '../../services/ai/ai.service';
+import { getBrandContext, getUserAIConfig } from '../../services/ai/generation-context';
+import { knowledgeService } from '../../services/knowledge/knowledge.service';
+import { disclosureService } from '../../services/workflow/disclosure.service';
+import { getSubredditRulesService } from '../../services/reddit/subreddit-rules.service';
+import { getGuidelineLearningService } from '../../services/personas/guideline-learning.service';
+import { NotFoundError, ValidationError, ConflictError } from '../middleware/errorHandler';
+import { logger } from '../../utils/logger';
 
 const personaSchema = z.object({
   name: z.string().min(1).max(100),
@@ -13,9 +21,39 @@ const personaSchema = z.object({
   expertiseAreas: z.array(z.string()).default([]),
   writingGuidelines: z.string().optional(),
   exampleResponses: z.array(z.string()).default([]),
+  disclosureTemplate: z.string().max(500).nullable().optional(),
+});
+
+// An admin may tweak the proposal before accepting it
+const approveProposalSchema = z.object({
+  writingGuidelines: z.string().min(1).optional(),
+  exampleResponses: z.array(z.string()).optional(),
+});
+
+const MAX_PLAYGROUND_PERSONAS = 4;
+
+// Either a pasted post or an existing engagement to borrow the post from
+const playgroundSchema = z.object({
+  personaIds: z.array(z.string().uuid()).min(1).max(MAX_PLAYGROUND_PERSONAS),
+  engagementItemId: z.string().uuid().optional(),
+  post: z.object({
+    subreddit: z.string().min(1).max(50),
+    title: z.string().min(1).max(300),
+    content: z.string().max(40000).default(''),
+  }).optional(),
+  options: z.object({
+    length: z.enum(['concise', 'standard', 'detailed']).optional(),
+    style: z.enum(['casual', 'professional', 'technical', 'friendly']).optional(),
+    customInstructions: z.string().optional(),
+  }).optional(),
+  proofread: z.boolean().default(true),
+}).refine((data) => data.post || data.engagementItemId, {
+  message: 'Paste a post or pick an engagement',
 });
 
 export class PersonasController {
+  private aiService = new AIService();
+
   list = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const personas = await prisma.persona.findMany({
@@ -77,6 +115,15 @@ export class PersonasController {
         },
       });
 
+      await auditService.record({
+        entityType: 'persona',
+        entityId: persona.id,
+        action: 'create',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        newValue: persona,
+      });
+
       res.status(201).json(persona);
     } catch (error) {
       next(error);
@@ -103,12 +150,242 @@ export class PersonasController {
         data,
       });
 
+      await auditService.record({
+        entityType: 'persona',
+        entityId: persona.id,
+        action: 'update',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: existing,
+        newValue: persona,
+      });
+
       res.json(persona);
     } catch (error) {
       next(error);
     }
   };
 
+  /**
+   * Draft a reply to a sample post with each persona, side by side with proofread
+   * scores. A sandbox: nothing is saved to engagements.
+   */
+  playground = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data = playgroundSchema.parse(req.body);
+      const userId = req.user!.userId;
+      // Personas, posts, brand context and usage all belong to the current brand
+      const brandId = req.brandId!;
+
+      const brand = await getBrandContext(brandId);
+      if (!brand) {
+        throw new ValidationError('Brand settings required. Please configure the brand (product description, target audience) in Brand Settings before trying personas.');
+      }
+
+      let post = data.post;
+      if (data.engagementItemId) {
+        const item = await prisma.engagementItem.findFirst({
+          where: { id: data.engagementItemId, brandId },
+          select: { subreddit: true, postTitle: true, postContent: true },
+        });
+        if (!item) {
+          throw new NotFoundError('Engagement item not found');
+        }
+        post = { subreddit: item.subreddit, title: item.postTitle, content: item.postContent || '' };
+      }
+
+      const personas = await prisma.persona.findMany({
+        where: {
+          id: { in: data.personaIds },
+          brandId,
+        },
+      });
+      if (personas.length !== new Set(data.personaIds).size) {
+        throw new NotFoundError('Persona not found');
+      }
+
+      const aiConfig = await getUserAIConfig(userId);
+      const usage = { feature: 'playground' as const, brandId, userId };
+      const knowledge = await knowledgeService.retrieve(brandId, `${post!.title}\n${post!.content}`);
+      const subredditRules = await getSubredditRulesService().describe(post!.subreddit);
+
+      const results = await Promise.all(personas.map(async (persona) => {
+        try {
+          const draft = await this.aiService.generateResponse({
+            persona,
+            subreddit: post!.subreddit,
+            postTitle: post!.title,
+            postContent: post!.content,
+            brand,
+            knowledge,
+            disclosure: (await disclosureService.resolve(brandId, post!.subreddit, persona.disclosureTemplate))?.text,
+            subredditRules,
+            options: data.options,
+            config: aiConfig,
+            usage,
+          });
+
+          const proofread = data.proofread
+            ? await this.aiService.proofread({
+              draft: draft.text,
+              subreddit: post!.subreddit,
+              persona,
+              knowledge: await knowledgeService.retrieve(brandId, `${post!.title}\n${draft.text}`),
+              subredditRules,
+              config: aiConfig,
+              usage,
+            }).catch((error) => {
+              logger.warn(`Playground proofread failed for persona ${persona.id}:`, error);
+              return null;
+            })
+            : null;
+
+          return {
+            personaId: persona.id,
+            personaName: persona.name,
+            draft: { text: draft.text, provider: draft.provider, model: draft.model, sources: draft.sources },
+            proofread,
+          };
+        } catch (error) {
+          logger.error(`Playground generation failed for persona ${persona.id}:`, error);
+          return {
+            personaId: persona.id,
+            personaName: persona.name,
+            error: (error as Error).message || 'Generation failed',
+          };
+        }
+      }));
+
+      res.json({ post, results });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Guideline proposals learned from reviewer edits that are waiting for an admin
+   */
+  listProposals = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const proposals = await prisma.personaGuidelineProposal.findMany({
+        where: {
+          status: 'pending',
+          persona: { brandId: req.brandId! },
+        },
+        include: {
+          persona: {
+            select: { id: true, name: true, exampleResponses: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      res.json(proposals);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Run guideline learning for one persona now instead of waiting for the daily job
+   */
+  proposeGuidelines = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const persona = await prisma.persona.findFirst({
+        where: {
+          id,
+          brandId: req.brandId!,
+        },
+      });
+      if (!persona) {
+        throw new NotFoundError('Persona not found');
+      }
+
+      const outcome = await getGuidelineLearningService().proposeForPersona(persona);
+      if ('skipped' in outcome) {
+        throw new ValidationError(outcome.skipped);
+      }
+
+      res.status(201).json(outcome.proposal);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  approveProposal = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { proposalId } = req.params;
+      const overrides = approveProposalSchema.parse(req.body || {});
+
+      const proposal = await this.findPendingProposal(req, proposalId);
+
+      const existing = await prisma.persona.findUniqueOrThrow({ where: { id: proposal.personaId } });
+
+      const [persona] = await prisma.$transaction([
+        prisma.persona.update({
+          where: { id: proposal.personaId },
+          data: {
+            writingGuidelines: overrides.writingGuidelines ?? proposal.proposedGuidelines,
+            exampleResponses: overrides.exampleResponses ?? (proposal.proposedExamples as string[]),
+          },
+        }),
+        prisma.personaGuidelineProposal.update({
+          where: { id: proposal.id },
+          data: { status: 'approved', reviewedById: req.user!.userId, reviewedAt: new Date() },
+        }),
+      ]);
+
+      await auditService.record({
+        entityType: 'persona',
+        entityId: persona.id,
+        action: 'approve_guidelines',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: existing,
+        newValue: persona,
+      });
+
+      res.json(persona);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  rejectProposal = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { proposalId } = req.params;
+
+      const proposal = await this.findPendingProposal(req, proposalId);
+
+      const updated = await prisma.personaGuidelineProposal.update({
+        where: { id: proposal.id },
+        data: { status: 'rejected', reviewedById: req.user!.userId, reviewedAt: new Date() },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private async findPendingProposal(req: Request, proposalId: string) {
+    const proposal = await prisma.personaGuidelineProposal.findFirst({
+      where: {
+        id: proposalId,
+        persona: { brandId: req.brandId! },
+      },
+    });
+    if (!proposal) {
+      throw new NotFoundError('Guideline proposal not found');
+    }
+    if (proposal.status !== 'pending') {
+      throw new ConflictError(`Guideline proposal was already ${proposal.status}`);
+    }
+    return proposal;
+  }
+
   delete = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
@@ -125,6 +402,15 @@ export class PersonasController {
 
       await prisma.persona.delete({ where: { id } });
 
+      await auditService.record({
+        entityType: 'persona',
+        entityId: id,
+        action: 'delete',
+        userId: req.user!.userId,
+        brandId: req.brandId,
+        oldValue: existing,
+      });
+
       res.status(204).send();
     } catch (error) {
       next(error);
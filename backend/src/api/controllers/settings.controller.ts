@@ -1,18 +1,24 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../utils/prisma';
+import { logger } from '../../utils/logger';
+import { AIService } from '../../services/ai/ai.service';
+import { ValidationError } from '../middleware/errorHandler';
 
-const AVAILABLE_MODELS: Record<'anthropic' | 'openai' | 'google', string[]> = {
+type HostedProvider = 'anthropic' | 'openai' | 'google';
+
+const AVAILABLE_MODELS: Record<HostedProvider, string[]> = {
   anthropic: ['claude-sonnet-4-20250514', 'claude-opus-4-20250514', 'claude-3-haiku-20240307'],
   openai: ['gpt-4-turbo', 'gpt-4o', 'gpt-3.5-turbo'],
   google: ['gemini-2.0-flash', 'gemini-1.5-pro', 'gemini-1.5-flash'],
 };
 
 const updateSettingsSchema = z.object({
-  aiProvider: z.enum(['anthropic', 'openai', 'google']).optional(),
+  aiProvider: z.enum(['anthropic', 'openai', 'google', 'local']).optional(),
   aiModel: z.string().optional(),
 }).refine((data) => {
-  if (data.aiProvider && data.aiModel) {
+  // Local models are checked against the endpoint's own listing in updateSettings
+  if (data.aiProvider && data.aiProvider !== 'local' && data.aiModel) {
     const validModels = AVAILABLE_MODELS[data.aiProvider];
     return validModels.includes(data.aiModel);
   }
@@ -22,6 +28,31 @@ const updateSettingsSchema = z.object({
 });
 
 export class SettingsController {
+  private aiService = new AIService();
+
+  /**
+   * Hosted model lists plus whatever the local endpoint reports, when one is configured
+   */
+  private async getAvailableModels(): Promise<{
+    availableModels: Record<string, string[]>;
+    localModelsError?: string;
+  }> {
+    if (!this.aiService.isLocalConfigured()) {
+      return { availableModels: AVAILABLE_MODELS };
+    }
+
+    try {
+      const local = await this.aiService.listLocalModels();
+      return { availableModels: { ...AVAILABLE_MODELS, local } };
+    } catch (error) {
+      logger.warn('Failed to list models from the local AI endpoint:', error);
+      return {
+        availableModels: { ...AVAILABLE_MODELS, local: [] },
+        localModelsError: 'The local model endpoint could not be reached',
+      };
+    }
+  }
+
   getSettings = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const userId = req.user!.userId;
@@ -29,13 +60,14 @@ export class SettingsController {
       let preferences = await prisma.userPreferences.findUnique({
         where: { userId },
       });
+      const models = await this.getAvailableModels();
 
       // Return defaults if no preferences exist
       if (!preferences) {
         res.json({
           aiProvider: 'anthropic',
           aiModel: 'claude-sonnet-4-20250514',
-          availableModels: AVAILABLE_MODELS,
+          ...models,
         });
         return;
       }
@@ -43,7 +75,7 @@ export class SettingsController {
       res.json({
         aiProvider: preferences.aiProvider,
         aiModel: preferences.aiModel,
-        availableModels: AVAILABLE_MODELS,
+        ...models,
       });
     } catch (error) {
       next(error);
@@ -57,7 +89,9 @@ export class SettingsController {
 
       // If only provider is changed, set default model for that provider
       let aiModel = data.aiModel;
-      if (data.aiProvider && !data.aiModel) {
+      if (data.aiProvider === 'local') {
+        aiModel = await this.resolveLocalModel(data.aiModel);
+      } else if (data.aiProvider && !data.aiModel) {
         aiModel = AVAILABLE_MODELS[data.aiProvider][0];
       }
 
@@ -77,10 +111,32 @@ export class SettingsController {
       res.json({
         aiProvider: preferences.aiProvider,
         aiModel: preferences.aiModel,
-        availableModels: AVAILABLE_MODELS,
+        ...(await this.getAvailableModels()),
       });
     } catch (error) {
       next(error);
     }
   };
+
+  private async resolveLocalModel(requested?: string): Promise<string> {
+    if (!this.aiService.isLocalConfigured()) {
+      throw new ValidationError('No local model endpoint is configured. Set LOCAL_AI_BASE_URL on the server.');
+    }
+
+    let models: string[];
+    try {
+      models = await this.aiService.listLocalModels();
+    } catch (error) {
+      logger.warn('Failed to list models from the local AI endpoint:', error);
+      throw new ValidationError('The local model endpoint could not be reached');
+    }
+
+    if (models.length === 0) {
+      throw new ValidationError('The local model endpoint does not serve any models');
+    }
+    if (requested && !models.includes(requested)) {
+      throw new ValidationError('Invalid model for the selected provider');
+    }
+    return requested || models[0];
+  }
 }
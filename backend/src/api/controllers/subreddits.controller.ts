@@ -1,13 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../utils/prisma';
-import { NotFoundError, ConflictError } from '../middleware/errorHandler';
+import { auditService } from '../../services/audit/audit.service';
+import { getSubredditRulesService } from '../../services/reddit/subreddit-rules.service';
+import { NotFoundError, ConflictError, ValidationError } from '../middleware/errorHandler';
 
 const subredditSchema = z.object({
   name: z.string().min(1).max(50),
   phase: z.number().min(1).default(1),
   selfPromoRules: z.string().optional(),
+  disclosureRequired: z.boolean().default(false),
+  disclosureTemplate: z.string().max(500).nullable().optional(),
   minKarma: z.number().min(0).default(0),
+  minAccountAgeDays: z.number().int().min(0).default(0),
   isActive: z.boolean().default(true),
 });
 
@@ -49,6 +54,15 @@ export class SubredditsController {
         },
       });
 
+      await auditService.record({
+        entityType: 'subreddit',
+        entityId: subreddit.id,
+        action: 'create',
+        userId: req.user!.userId,
+        brandId: null,
+        newValue: subreddit,
+      });
+
       res.status(201).json(subreddit);
     } catch (error) {
       next(error);
@@ -75,6 +89,51 @@ export class SubredditsController {
         data,
       });
 
+      await auditService.record({
+        entityType: 'subreddit',
+        entityId: subreddit.id,
+        action: 'update',
+        userId: req.user!.userId,
+        brandId: null,
+        oldValue: existing,
+        newValue: subreddit,
+      });
+
+      res.json(subreddit);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Pull the subreddit's rules and sidebar from Reddit into structured rules
+   */
+  syncRules = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const existing = await prisma.subreddit.findUnique({ where: { id } });
+      if (!existing) {
+        throw new NotFoundError('Subreddit not found');
+      }
+
+      let subreddit;
+      try {
+        subreddit = await getSubredditRulesService().sync(existing, req.user!.userId, req.brandId);
+      } catch (error) {
+        throw new ValidationError(error instanceof Error ? error.message : 'Failed to sync subreddit rules');
+      }
+
+      await auditService.record({
+        entityType: 'subreddit',
+        entityId: subreddit.id,
+        action: 'sync_rules',
+        userId: req.user!.userId,
+        brandId: null,
+        oldValue: existing,
+        newValue: subreddit,
+      });
+
       res.json(subreddit);
     } catch (error) {
       next(error);
@@ -92,6 +151,15 @@ export class SubredditsController {
 
       await prisma.subreddit.delete({ where: { id } });
 
+      await auditService.record({
+        entityType: 'subreddit',
+        entityId: id,
+        action: 'delete',
+        userId: req.user!.userId,
+        brandId: null,
+        oldValue: existing,
+      });
+
       res.status(204).send();
     } catch (error) {
       next(error);
@@ -5,11 +5,13 @@ import { ZodError } from 'zod';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  details?: Record<string, unknown>;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, details?: Record<string, unknown>) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.details = details;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -39,8 +41,8 @@ export class ValidationError extends AppError {
 }
 
 export class ConflictError extends AppError {
-  constructor(message = 'Resource already exists') {
-    super(message, 409);
+  constructor(message = 'Resource already exists', details?: Record<string, unknown>) {
+    super(message, 409, details);
   }
 }
 
@@ -68,6 +70,7 @@ export function errorHandler(
   if (err instanceof AppError) {
     res.status(err.statusCode).json({
       error: err.message,
+      ...err.details,
     });
     return;
   }
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { AccountsController } from '../controllers/accounts.controller';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
 import { requireBrandContext } from '../middleware/brand';
 
 const router = Router();
@@ -36,6 +36,9 @@ router.get('/health/low', accountsController.getLowHealthAccounts);
 // GET /api/accounts/:id - Get account details
 router.get('/:id', accountsController.getById);
 
+// POST /api/accounts/:id/persona-draft - Draft a persona from the account's comment history
+router.post('/:id/persona-draft', authorize('admin', 'manager'), accountsController.draftPersona);
+
 // POST /api/accounts/:id/shadowban/check - Check specific account for shadowban
 router.post('/:id/shadowban/check', accountsController.checkShadowban);
 
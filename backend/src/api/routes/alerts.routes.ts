@@ -1,12 +1,14 @@
 import { Router } from 'express';
 import { AlertsController } from '../controllers/alerts.controller';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
+import { requireBrandContext } from '../middleware/brand';
 
 const router = Router();
 const alertsController = new AlertsController();
 
-// All routes require authentication
+// All routes require authentication and brand context
 router.use(authenticate);
+router.use(requireBrandContext);
 
 // GET /api/alerts/competitors - Get posts mentioning competitors
 router.get('/competitors', alertsController.getCompetitorMentions);
@@ -14,9 +16,21 @@ router.get('/competitors', alertsController.getCompetitorMentions);
 // GET /api/alerts/competitors/summary - Get competitor mention summary
 router.get('/competitors/summary', alertsController.getCompetitorSummary);
 
+// GET /api/alerts/competitors/share-of-voice - Get weekly share of voice over 3, 6 or 12 months
+router.get('/competitors/share-of-voice', alertsController.getShareOfVoice);
+
 // GET /api/alerts/competitors/tracked - Get list of tracked competitors
 router.get('/competitors/tracked', alertsController.getTrackedCompetitors);
 
+// POST /api/alerts/competitors - Add competitor
+router.post('/competitors', authorize('admin', 'manager'), alertsController.createCompetitor);
+
+// PATCH /api/alerts/competitors/:id - Update competitor
+router.patch('/competitors/:id', authorize('admin', 'manager'), alertsController.updateCompetitor);
+
+// DELETE /api/alerts/competitors/:id - Remove competitor
+router.delete('/competitors/:id', authorize('admin', 'manager'), alertsController.deleteCompetitor);
+
 // POST /api/alerts/analyze - Analyze a post for competitor mentions
 router.post('/analyze', alertsController.analyzePost);
 
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { AnalyticsController } from '../controllers/analytics.controller';
 import { authenticate } from '../middleware/auth';
+import { requireBrandContext } from '../middleware/brand';
+import { requireOrgContext } from '../middleware/organization';
 
 const router = Router();
 const analyticsController = new AnalyticsController();
@@ -8,6 +10,13 @@ const analyticsController = new AnalyticsController();
 // All routes require authentication
 router.use(authenticate);
 
+// Organization-level routes (registered before brand context is required)
+// GET /api/analytics/organization - Compare brands within the organization
+router.get('/organization', requireOrgContext, analyticsController.getOrganizationRollup);
+
+// All other routes require brand context
+router.use(requireBrandContext);
+
 // GET /api/analytics/dashboard - Get dashboard statistics
 router.get('/dashboard', analyticsController.getDashboard);
 
@@ -20,4 +29,13 @@ router.get('/subreddits', analyticsController.getSubredditPerformance);
 // GET /api/analytics/accounts/:id - Get account performance
 router.get('/accounts/:id', analyticsController.getAccountPerformance);
 
+// GET /api/analytics/ai-usage - Get AI token usage, cost and budget status
+router.get('/ai-usage', analyticsController.getAIUsage);
+
+// GET /api/analytics/draft-variants - Get which draft styles and lengths reviewers pick most
+router.get('/draft-variants', analyticsController.getDraftVariantStats);
+
+// GET /api/analytics/engagements/:id/metrics - Get comment score history
+router.get('/engagements/:id/metrics', analyticsController.getEngagementMetrics);
+
 export default router;
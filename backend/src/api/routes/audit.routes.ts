@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/audit.controller';
+import { authenticate } from '../middleware/auth';
+import { requireBrandContext } from '../middleware/brand';
+
+const router = Router();
+const auditController = new AuditController();
+
+// All routes require authentication and brand context
+router.use(authenticate);
+router.use(requireBrandContext);
+
+// GET /api/audit - List audit log entries (filter by entity, user, date range)
+router.get('/', auditController.list);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { BrandsController } from '../controllers/brands.controller';
 import { authenticate } from '../middleware/auth';
+import { optionalOrgContext } from '../middleware/organization';
 import { ForbiddenError } from '../middleware/errorHandler';
 import { prisma } from '../../utils/prisma';
 
@@ -56,7 +57,7 @@ router.use(authenticate);
 router.get('/', brandsController.getMyBrands);
 
 // POST /api/brands - Create new brand
-router.post('/', brandsController.createBrand);
+router.post('/', optionalOrgContext, brandsController.createBrand);
 
 // GET /api/brands/:id - Get brand details
 router.get('/:id', brandsController.getBrand);
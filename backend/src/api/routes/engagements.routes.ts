@@ -19,6 +19,12 @@ router.get('/export', engagementsController.export);
 // GET /api/engagements/:id - Get item details
 router.get('/:id', engagementsController.getById);
 
+// GET /api/engagements/:id/transitions - List statuses the item can move to
+router.get('/:id/transitions', engagementsController.getTransitions);
+
+// POST /api/engagements/:id/transition - Move item to another status (board moves, re-open)
+router.post('/:id/transition', engagementsController.transition);
+
 // POST /api/engagements/:id/analyze - Trigger AI analysis
 router.post('/:id/analyze', engagementsController.analyze);
 
@@ -28,12 +34,33 @@ router.post('/:id/generate', engagementsController.generate);
 // POST /api/engagements/:id/regenerate - Regenerate draft
 router.post('/:id/regenerate', engagementsController.regenerate);
 
+// POST /api/engagements/:id/generate/stream - Generate draft, streamed as Server-Sent Events
+router.post('/:id/generate/stream', engagementsController.generateStream);
+
+// POST /api/engagements/:id/regenerate/stream - Regenerate draft, streamed as Server-Sent Events
+router.post('/:id/regenerate/stream', engagementsController.regenerateStream);
+
+// GET /api/engagements/:id/candidates - Draft variants waiting to be picked
+router.get('/:id/candidates', engagementsController.listCandidates);
+
+// POST /api/engagements/:id/candidates/:candidateId/choose - Use a variant (optionally merged) as the draft
+router.post('/:id/candidates/:candidateId/choose', engagementsController.chooseCandidate);
+
+// GET /api/engagements/:id/revisions - Draft history, newest first
+router.get('/:id/revisions', engagementsController.listRevisions);
+
+// POST /api/engagements/:id/revisions/:revisionId/revert - Restore an earlier draft revision
+router.post('/:id/revisions/:revisionId/revert', engagementsController.revertRevision);
+
 // POST /api/engagements/:id/refine - Refine draft (shorten, expand, restyle)
 router.post('/:id/refine', engagementsController.refine);
 
 // POST /api/engagements/:id/proofread - AI proofreading pass
 router.post('/:id/proofread', engagementsController.proofread);
 
+// GET /api/engagements/:id/safety - Check the draft against the brand's safety rules
+router.get('/:id/safety', engagementsController.safety);
+
 // PATCH /api/engagements/:id - Update (edit draft, assign account)
 router.patch('/:id', engagementsController.update);
 
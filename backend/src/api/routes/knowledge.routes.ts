@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { KnowledgeController } from '../controllers/knowledge.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { requireBrandContext } from '../middleware/brand';
+
+const router = Router();
+const knowledgeController = new KnowledgeController();
+
+// All routes require authentication and brand context
+router.use(authenticate);
+router.use(requireBrandContext);
+
+// GET /api/knowledge - List the brand's knowledge base documents
+router.get('/', knowledgeController.list);
+
+// GET /api/knowledge/search - Retrieve the snippets most relevant to a query
+router.get('/search', knowledgeController.search);
+
+// POST /api/knowledge - Add a document (markdown, FAQ, pricing or spec sheet)
+router.post('/', authorize('admin', 'manager'), knowledgeController.create);
+
+// GET /api/knowledge/:id - Get a document with its chunks
+router.get('/:id', knowledgeController.getById);
+
+// PUT /api/knowledge/:id - Update a document and re-chunk it
+router.put('/:id', authorize('admin', 'manager'), knowledgeController.update);
+
+// DELETE /api/knowledge/:id - Delete a document
+router.delete('/:id', authorize('admin', 'manager'), knowledgeController.delete);
+
+export default router;
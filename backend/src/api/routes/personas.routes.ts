@@ -16,12 +16,27 @@ router.get('/', personasController.list);
 // POST /api/personas - Create new persona
 router.post('/', authorize('admin', 'manager'), personasController.create);
 
+// POST /api/personas/playground - Try personas on a sample post without saving anything
+router.post('/playground', personasController.playground);
+
+// GET /api/personas/proposals - Pending guideline proposals learned from reviewer edits
+router.get('/proposals', personasController.listProposals);
+
+// POST /api/personas/proposals/:proposalId/approve - Apply a proposal to its persona
+router.post('/proposals/:proposalId/approve', authorize('admin'), personasController.approveProposal);
+
+// POST /api/personas/proposals/:proposalId/reject - Dismiss a proposal
+router.post('/proposals/:proposalId/reject', authorize('admin'), personasController.rejectProposal);
+
 // GET /api/personas/:id - Get persona details
 router.get('/:id', personasController.getById);
 
 // PUT /api/personas/:id - Update persona
 router.put('/:id', authorize('admin', 'manager'), personasController.update);
 
+// POST /api/personas/:id/proposals - Learn guidelines from this persona's edits now
+router.post('/:id/proposals', authorize('admin', 'manager'), personasController.proposeGuidelines);
+
 // DELETE /api/personas/:id - Delete persona
 router.delete('/:id', authorize('admin', 'manager'), personasController.delete);
 
@@ -17,6 +17,9 @@ router.post('/', authorize('admin', 'manager'), subredditsController.create);
 // PATCH /api/subreddits/:id - Update subreddit
 router.patch('/:id', authorize('admin', 'manager'), subredditsController.update);
 
+// POST /api/subreddits/:id/sync - Sync rules from Reddit
+router.post('/:id/sync', authorize('admin', 'manager'), subredditsController.syncRules);
+
 // DELETE /api/subreddits/:id - Remove subreddit
 router.delete('/:id', authorize('admin', 'manager'), subredditsController.delete);
 
@@ -18,6 +18,8 @@ import youtubeRoutes from './api/routes/youtube.routes';
 import settingsRoutes from './api/routes/settings.routes';
 import referralsRoutes from './api/routes/referrals.routes';
 import brandsRoutes from './api/routes/brands.routes';
+import auditRoutes from './api/routes/audit.routes';
+import knowledgeRoutes from './api/routes/knowledge.routes';
 import { errorHandler } from './api/middleware/errorHandler';
 import { logger } from './utils/logger';
 
@@ -81,6 +83,8 @@ app.use('/api/gsc', gscRoutes);
 app.use('/api/youtube', youtubeRoutes);
 app.use('/api/settings', settingsRoutes);
 app.use('/api/referrals', referralsRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/knowledge', knowledgeRoutes);
 
 // 404 handler
 app.use((_req: Request, res: Response) => {
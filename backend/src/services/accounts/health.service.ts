@@ -31,6 +31,7 @@ export class AccountHealthService {
             publishedAt: {
               gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Last 30 days
             },
+            commentScore: { not: null }, // Only comments the metrics job has measured
           },
           select: {
             commentScore: true,
@@ -125,8 +126,10 @@ export class AccountHealthService {
 
     const totalScore = engagements.reduce((sum, e) => sum + (e.commentScore || 0), 0);
     const avgScore = totalScore / engagements.length;
+    const avgReplies = engagements.reduce((sum, e) => sum + (e.replyCount || 0), 0) / engagements.length;
 
-    if (avgScore >= 10) return 25;
+    // Comments that spark conversation are a strong health signal even at modest scores
+    if (avgScore >= 10 || (avgScore >= 5 && avgReplies >= 2)) return 25;
     if (avgScore >= 5) return 22;
     if (avgScore >= 3) return 18;
     if (avgScore >= 1) return 15;
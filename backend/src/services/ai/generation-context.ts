@@ -0,0 +1,53 @@
+import { prisma } from '../../utils/prisma';
+import { AIConfig, AIProvider, BrandContext } from './ai.service';
+
+/**
+ * The user's preferred provider and model, if they saved one in settings
+ */
+export async function getUserAIConfig(userId: string): Promise<AIConfig | undefined> {
+  const preferences = await prisma.userPreferences.findUnique({
+    where: { userId },
+  });
+
+  if (preferences) {
+    return {
+      provider: preferences.aiProvider as AIProvider,
+      model: preferences.aiModel,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Brand details drafts are written for. Returns null until the brand has at least
+ * a description, product description or target audience to work from.
+ */
+export async function getBrandContext(brandId: string): Promise<BrandContext | null> {
+  const brandData = await prisma.brand.findUnique({
+    where: { id: brandId },
+    select: {
+      name: true,
+      description: true,
+      productDescription: true,
+      targetAudience: true,
+      keyDifferentiators: true,
+      brandValues: true,
+      toneOfVoice: true,
+      goals: true,
+      contentGuidelines: true,
+      redactPii: true,
+    },
+  });
+
+  if (!brandData || (!brandData.productDescription && !brandData.description && !brandData.targetAudience)) {
+    return null;
+  }
+
+  return {
+    ...brandData,
+    keyDifferentiators: brandData.keyDifferentiators as string[] || [],
+    brandValues: brandData.brandValues as string[] || [],
+    goals: brandData.goals as string[] || [],
+  };
+}
@@ -0,0 +1,357 @@
+import type {
+  AnalysisResponse,
+  ChannelAnalysisResponse,
+  ClaimVerificationResponse,
+  GuidelineProposalResponse,
+  PersonaDraftResponse,
+  ProofreadResponse,
+  SensitivityResponse,
+  SubredditRulesResponse,
+} from './schemas';
+
+/**
+ * Offline stand-in for a real model, selected with AI_PROVIDER=mock. It recognises the
+ * prompts AIService and its callers send and answers with schema-valid output. The same
+ * prompt and AI_MOCK_SEED always produce the same response, so demos and tests are repeatable.
+ */
+
+export const MOCK_MODEL = 'mock-v1';
+
+const OPPORTUNITY_TYPES = ['education', 'problem_solving', 'community', 'competitor', 'brand_mention'];
+const CHANNEL_CATEGORIES: ChannelAnalysisResponse['category'][] = ['influencer', 'competitor', 'opportunity', 'low_fit'];
+
+const OPENERS = [
+  'Been there, and honestly it took me a while to figure out.',
+  'Good question, this comes up a lot.',
+  'I ran into almost exactly this last year.',
+  'Not an expert, but here is what worked for me.',
+];
+
+const BODIES = [
+  'The thing that made the biggest difference was breaking it into smaller steps and checking each one before moving on.',
+  'Start with the simplest option that could work, then only add complexity once you know where the real bottleneck is.',
+  'Write down what you have already tried, because it makes it much easier to spot the pattern when something fails.',
+  'Most of the advice online skips the boring fundamentals, and that is usually where the problem turns out to be.',
+];
+
+const CLOSERS = [
+  'Hope that helps, happy to share more if you get stuck.',
+  'Curious what ends up working for you.',
+  'Good luck with it!',
+  'Let us know how it goes.',
+];
+
+// FNV-1a, so the seed is stable across processes and Node versions
+function hash(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function between(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function match(prompt: string, pattern: RegExp): string | undefined {
+  return prompt.match(pattern)?.[1]?.trim();
+}
+
+function section(prompt: string, start: string, end: string): string {
+  const from = prompt.indexOf(start);
+  if (from === -1) {
+    return '';
+  }
+  const to = prompt.indexOf(end, from + start.length);
+  return prompt.slice(from + start.length, to === -1 ? undefined : to).trim();
+}
+
+function sentences(text: string): string[] {
+  return text.match(/[^.!?]+[.!?]*/g)?.map((s) => s.trim()).filter(Boolean) || [];
+}
+
+function analyzePost(prompt: string, random: () => number): AnalysisResponse {
+  const subreddit = match(prompt, /Subreddit: r\/(\S+)/) || 'the subreddit';
+  const score = between(random, 3, 9);
+
+  return {
+    relevance_score: score,
+    opportunity_type: pick(random, OPPORTUNITY_TYPES),
+    reasoning: `[mock] Post in r/${subreddit} scored ${score}/10 for relevance.`,
+    recommended_approach: score >= 6
+      ? 'Answer the question directly and share practical experience before any product mention.'
+      : 'Monitor only; the post is not a natural fit for the brand.',
+    should_engage: score >= 6,
+    cautions: [
+      ...(score >= 6 ? [] : ['Low relevance; engaging may read as promotional']),
+      ...(prompt.includes('Self-promotion: forbidden') ? ['[mock] The subreddit forbids self-promotion'] : []),
+      ...(prompt.includes('aimed at AI assistants') ? ['[mock] The post tries to instruct AI assistants'] : []),
+    ],
+  };
+}
+
+function proofread(prompt: string, random: () => number): ProofreadResponse {
+  const draft = section(prompt, 'DRAFT:\n', '\n\nCheck for:').split(/\n\n(?:KNOWLEDGE BASE|SUBREDDIT RULES)/)[0];
+  const confidence = between(random, 6, 10);
+  const flagged = confidence < 8;
+
+  return {
+    issues: flagged ? ['[mock] Second half could be more specific'] : [],
+    suggestions: flagged ? ['Add a concrete example from personal experience'] : [],
+    revised_text: draft,
+    approval_recommendation: confidence >= 7,
+    confidence_score: confidence,
+    sources: prompt.includes('[K1]') ? ['K1'] : [],
+  };
+}
+
+const SENSITIVE_KEYWORDS: Array<[SensitivityResponse['categories'][number]['category'], RegExp]> = [
+  ['grief', /\b(?:passed away|died|funeral|grieving|bereavement|lost my (?:mom|dad|mother|father|wife|husband|son|daughter|dog|cat))\b/i],
+  ['self_harm', /\b(?:suicid\w*|kill myself|self[- ]harm|cutting myself)\b/i],
+  ['medical_emergency', /\b(?:heart attack|stroke|overdose|seizure|in the er|emergency room|can't breathe)\b/i],
+  ['tragedy', /\b(?:shooting|earthquake|hurricane|wildfire|plane crash|disaster)\b/i],
+  ['abuse', /\b(?:abuse[ds]?|abusive|assaulted)\b/i],
+  ['addiction', /\b(?:addict\w*|relapsed?|sober|rehab)\b/i],
+];
+
+// Keyword matches in the post only; the prompt's category list would match everything
+function classifySensitivity(prompt: string): SensitivityResponse {
+  const title = match(prompt, /<untrusted_post>\nTitle: (.*)/) || '';
+  const post = section(prompt, '<untrusted_post>', '</untrusted_post>');
+
+  return {
+    categories: SENSITIVE_KEYWORDS
+      .filter(([, pattern]) => pattern.test(post))
+      .map(([category, pattern]) => ({
+        category,
+        severity: pattern.test(title) ? 'high' : 'medium',
+        reason: `[mock] The post mentions ${category.replace('_', ' ')}`,
+      })),
+  };
+}
+
+const DAYS_PER_UNIT: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+// Reads the limits straight out of the rules text with a few common phrasings
+function extractSubredditRules(prompt: string): SubredditRulesResponse {
+  const text = prompt.slice(prompt.indexOf('Posted rules:')).toLowerCase();
+  const ratio = text.match(/(\d+)\s*:\s*1/);
+  const age = text.match(/(\d+)[ -](day|week|month)s?/);
+  const karma = text.match(/(\d+)\s*(?:\w+\s)?karma|karma (?:of|above|over) (\d+)/);
+  const noPromo = /no (?:self[- ]?promotion|advertising|spam)/.test(text);
+
+  return {
+    link_policy: /no links|links are not allowed/.test(text) ? 'forbidden' : /link/.test(text) ? 'restricted' : 'allowed',
+    link_policy_notes: '',
+    self_promotion: noPromo ? 'forbidden' : ratio ? 'limited' : 'allowed',
+    self_promotion_ratio: ratio ? 1 / (parseInt(ratio[1], 10) + 1) : null,
+    self_promotion_notes: noPromo ? '[mock] Self-promotion is not allowed' : '',
+    flair_required: /flair/.test(text) && /(must|required)/.test(text),
+    min_account_age_days: age ? parseInt(age[1], 10) * DAYS_PER_UNIT[age[2]] : null,
+    min_karma: karma ? parseInt(karma[1] || karma[2], 10) : null,
+    other_rules: ['[mock] Be civil'],
+  };
+}
+
+// Sentences with numbers count as claims; a price the facts don't list contradicts the ones they do
+function verifyClaims(prompt: string): ClaimVerificationResponse {
+  const draft = section(prompt, 'DRAFT:\n', '\n\nBRAND FACTS');
+  const facts = prompt.slice(prompt.indexOf('BRAND FACTS'));
+  const factPrices = facts.match(/\$\d+(?:\.\d+)?/g) || [];
+
+  return {
+    claims: sentences(draft)
+      .filter((sentence) => /\d/.test(sentence))
+      .map((sentence) => {
+        const numbers = sentence.match(/\$?\d+(?:\.\d+)?%?/g) || [];
+        const supported = numbers.every((n) => facts.includes(n));
+        const contradicted = !supported && numbers.some((n) => n.startsWith('$')) && factPrices.length > 0;
+        return {
+          claim: sentence,
+          subject: 'product' as const,
+          status: supported ? 'supported' as const : contradicted ? 'contradicted' as const : 'unsupported' as const,
+          explanation: `[mock] ${supported ? 'Matches' : contradicted ? 'Conflicts with' : 'Not found in'} the brand facts`,
+          sources: supported && facts.includes('[K1]') ? ['K1'] : [],
+        };
+      }),
+  };
+}
+
+function analyzeChannel(prompt: string, random: () => number): ChannelAnalysisResponse {
+  const name = match(prompt, /Name: (.+)/) || 'This channel';
+  const score = between(random, 2, 9);
+
+  return {
+    relevance_score: score,
+    category: score <= 3 ? 'low_fit' : pick(random, CHANNEL_CATEGORIES.slice(0, 3)),
+    reasoning: `[mock] ${name} scored ${score}/10 for relevance.`,
+    content_topics: ['tutorials', 'reviews'],
+    audience_alignment: score >= 6 ? 'Strong overlap with the target audience' : 'Partial overlap',
+    collaboration_potential: score >= 6 ? 'Sponsored tutorial or review' : 'Monitor only',
+    cautions: [],
+  };
+}
+
+function analyzeCompetitors(prompt: string, random: () => number): object {
+  const names = (match(prompt, /COMPETITORS: (.+)/) || '').split(',').map((n) => n.trim()).filter(Boolean);
+
+  return {
+    comparison: names.length > 1 && random() < 0.5,
+    competitors: names.map((competitor) => ({
+      competitor,
+      sentiment: pick(random, ['positive', 'negative', 'neutral', 'mixed']),
+      aspects: [pick(random, ['price', 'quality', 'support', 'features'])],
+      switching_intent: random() < 0.2,
+    })),
+  };
+}
+
+function proposeGuidelines(prompt: string): GuidelineProposalResponse {
+  const current = section(prompt, 'CURRENT GUIDELINES:\n', '\n\nRECURRING CORRECTIONS:');
+  const corrections = section(prompt, 'RECURRING CORRECTIONS:\n', '\n\nSAMPLE EDITS:');
+
+  return {
+    writing_guidelines: [current === 'None specified' ? '' : current, corrections].filter(Boolean).join('\n'),
+    summary: '[mock] Added the recurring reviewer corrections as rules.',
+  };
+}
+
+function draftPersona(prompt: string, random: () => number): PersonaDraftResponse {
+  const username = match(prompt, /ACCOUNT: u\/(\S+)/) || 'mock_user';
+  const subreddits = [...new Set([...prompt.matchAll(/^\[\d+\] r\/(\S+)/gm)].map((m) => m[1]))];
+  const count = (prompt.match(/^\[\d+\] /gm) || []).length;
+
+  return {
+    name: username,
+    description: `[mock] Persona drafted from u/${username}'s comment history`,
+    tone_of_voice: pick(random, ['Casual and helpful', 'Dry and to the point', 'Warm and encouraging']),
+    character_traits: ['curious', 'practical', 'candid'],
+    expertise_areas: subreddits.slice(0, 4),
+    goals: ['Share first-hand experience'],
+    background_story: '',
+    writing_guidelines: '- Write in short paragraphs\n- Lead with personal experience',
+    example_indices: [1, 2, 3].filter((i) => i <= count),
+  };
+}
+
+function generateDraft(prompt: string, random: () => number): string {
+  const persona = match(prompt, /Name: (.+)/) || 'mock persona';
+  const subreddit = match(prompt, /Subreddit: r\/(\S+)/) || 'the subreddit';
+
+  const disclosure = match(prompt, /=== DISCLOSURE ===\n[^\n]*\n"(.+)"/);
+
+  const comment = [pick(random, OPENERS), pick(random, BODIES), disclosure, pick(random, CLOSERS)]
+    .filter(Boolean)
+    .join(' ');
+  const sources = prompt.includes('SOURCES:') ? `\nSOURCES: ${prompt.includes('[K1]') ? 'K1' : 'none'}` : '';
+  return `${comment}\n\n[mock draft by ${persona} for r/${subreddit}]${sources}`;
+}
+
+function refineDraft(prompt: string, random: () => number): string {
+  const draft = section(prompt, '=== CURRENT DRAFT ===\n', '\n\n=== REFINEMENT TASK ===');
+  const parts = sentences(draft.replace(/\n*\[mock[^\]]*\]\s*$/, ''));
+
+  if (prompt.includes('Make this comment shorter')) {
+    return parts.slice(0, Math.max(1, Math.ceil(parts.length / 2))).join(' ');
+  }
+  if (prompt.includes('Expand this comment')) {
+    return [...parts, pick(random, BODIES)].join(' ');
+  }
+  return [pick(random, OPENERS), ...parts.slice(1)].join(' ');
+}
+
+function respond(prompt: string, jsonMode: boolean, random: () => number): string {
+  if (jsonMode || prompt.includes('Respond ONLY with valid JSON')) {
+    if (prompt.includes('"opportunity_type"')) {
+      return JSON.stringify(analyzePost(prompt, random));
+    }
+    if (prompt.includes('"severity"')) {
+      return JSON.stringify(classifySensitivity(prompt));
+    }
+    if (prompt.includes('"self_promotion_ratio"')) {
+      return JSON.stringify(extractSubredditRules(prompt));
+    }
+    if (prompt.includes('"contradicted"')) {
+      return JSON.stringify(verifyClaims(prompt));
+    }
+    if (prompt.includes('"approval_recommendation"')) {
+      return JSON.stringify(proofread(prompt, random));
+    }
+    if (prompt.includes('"collaboration_potential"')) {
+      return JSON.stringify(analyzeChannel(prompt, random));
+    }
+    if (prompt.includes('"switching_intent"')) {
+      return JSON.stringify(analyzeCompetitors(prompt, random));
+    }
+    if (prompt.includes('"example_indices"')) {
+      return JSON.stringify(draftPersona(prompt, random));
+    }
+    if (prompt.includes('"writing_guidelines"')) {
+      return JSON.stringify(proposeGuidelines(prompt));
+    }
+    return '{}';
+  }
+
+  if (prompt.includes('Respond with ONLY a number from 1-10')) {
+    return String(between(random, 1, 10));
+  }
+  if (prompt.includes('You are refining a Reddit comment')) {
+    return refineDraft(prompt, random);
+  }
+  return generateDraft(prompt, random);
+}
+
+export function completeMock(
+  prompt: string,
+  jsonMode: boolean,
+  temperature?: number
+): { text: string; inputTokens: number; outputTokens: number } {
+  // Temperature is part of the seed so variants that differ only by temperature still differ
+  const random = createRandom(hash(`${process.env.AI_MOCK_SEED || 'mock'}:${temperature ?? ''}:${prompt}`));
+  const text = respond(prompt, jsonMode, random);
+
+  // Rough 4-characters-per-token estimate so usage reports still have numbers
+  return {
+    text,
+    inputTokens: Math.ceil(prompt.length / 4),
+    outputTokens: Math.ceil(text.length / 4),
+  };
+}
+
+// Pause between words so streamed mock drafts appear progressively, like a real model
+const STREAM_DELAY_MS = 25;
+
+export async function streamMock(
+  prompt: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+  temperature?: number
+): Promise<{ text: string; inputTokens: number; outputTokens: number }> {
+  const completion = completeMock(prompt, false, temperature);
+
+  for (const word of completion.text.match(/\S+\s*/g) || []) {
+    if (signal?.aborted) {
+      throw new Error('Mock stream aborted');
+    }
+    onText(word);
+    await new Promise((resolve) => setTimeout(resolve, STREAM_DELAY_MS));
+  }
+  return completion;
+}
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+
+// Models often return scores as strings, floats or slightly out of range; coerce and clamp
+const score = (min: number, max: number) =>
+  z.coerce.number().finite().transform((n) => Math.min(max, Math.max(min, Math.round(n))));
+
+// z.coerce.boolean() would turn "false" into true
+const flag = z.union([
+  z.boolean(),
+  z.enum(['true', 'false']).transform((v) => v === 'true'),
+]);
+
+const stringList = z.array(z.string()).default([]);
+
+export const analysisResultSchema = z.object({
+  relevance_score: score(1, 10),
+  opportunity_type: z.string().default('community'),
+  reasoning: z.string(),
+  recommended_approach: z.string().default(''),
+  should_engage: flag,
+  cautions: stringList,
+});
+
+export const proofreadResultSchema = z.object({
+  issues: stringList,
+  suggestions: stringList,
+  revised_text: z.string(),
+  approval_recommendation: flag,
+  confidence_score: score(1, 10),
+  sources: stringList, // Knowledge base snippet labels, when snippets were given
+});
+
+export const channelAnalysisSchema = z.object({
+  relevance_score: score(1, 10),
+  category: z.enum(['influencer', 'competitor', 'opportunity', 'low_fit']),
+  reasoning: z.string(),
+  content_topics: stringList,
+  audience_alignment: z.string().default(''),
+  collaboration_potential: z.string().default(''),
+  cautions: stringList,
+});
+
+export const guidelineProposalSchema = z.object({
+  writing_guidelines: z.string().min(1),
+  summary: z.string().default(''),
+});
+
+export const personaDraftSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  tone_of_voice: z.string().min(1),
+  character_traits: stringList,
+  expertise_areas: stringList,
+  goals: stringList,
+  background_story: z.string().default(''),
+  writing_guidelines: z.string().default(''),
+  example_indices: z.array(z.coerce.number().int()).default([]),
+});
+
+export const claimVerificationSchema = z.object({
+  claims: z.array(z.object({
+    claim: z.string().min(1),
+    subject: z.enum(['product', 'competitor']).catch('product'),
+    status: z.enum(['supported', 'unsupported', 'contradicted']).catch('unsupported'),
+    explanation: z.string().default(''),
+    sources: stringList,
+  })).default([]),
+});
+
+// A positive whole number, or null when the rules don't set a limit (models say 0, null or "none")
+const limit = z.coerce.number().catch(0).transform((n) => (Number.isFinite(n) && n > 0 ? Math.round(n) : null));
+
+export const subredditRulesSchema = z.object({
+  link_policy: z.enum(['allowed', 'restricted', 'forbidden']).catch('allowed'),
+  link_policy_notes: z.string().default(''),
+  self_promotion: z.enum(['allowed', 'limited', 'forbidden']).catch('limited'),
+  // Largest share of a user's activity that may be self-promotion; 10:1 rules are 0.1
+  self_promotion_ratio: z.coerce.number().catch(0).transform((n) => {
+    if (n > 1 && n <= 100) return n / 100;
+    return n > 0 && n <= 1 ? n : null;
+  }),
+  self_promotion_notes: z.string().default(''),
+  flair_required: flag.catch(false),
+  min_account_age_days: limit,
+  min_karma: limit,
+  other_rules: stringList,
+});
+
+export const SENSITIVE_CATEGORIES = ['grief', 'self_harm', 'medical_emergency', 'tragedy', 'abuse', 'addiction'] as const;
+
+export const sensitivityResultSchema = z.object({
+  // Unknown categories from the model are dropped rather than failing the whole check
+  categories: z.array(z.object({
+    category: z.string(),
+    severity: z.enum(['low', 'medium', 'high']).catch('medium'),
+    reason: z.string().default(''),
+  })).default([]).transform((found) => found.filter(
+    (c): c is typeof c & { category: typeof SENSITIVE_CATEGORIES[number] } =>
+      (SENSITIVE_CATEGORIES as readonly string[]).includes(c.category)
+  )),
+});
+
+export type AnalysisResponse = z.infer<typeof analysisResultSchema>;
+export type ProofreadResponse = z.infer<typeof proofreadResultSchema>;
+export type ChannelAnalysisResponse = z.infer<typeof channelAnalysisSchema>;
+export type GuidelineProposalResponse = z.infer<typeof guidelineProposalSchema>;
+export type PersonaDraftResponse = z.infer<typeof personaDraftSchema>;
+export type ClaimVerificationResponse = z.infer<typeof claimVerificationSchema>;
+export type SubredditRulesResponse = z.infer<typeof subredditRulesSchema>;
+export type SensitivityResponse = z.infer<typeof sensitivityResultSchema>;
@@ -0,0 +1,274 @@
+import { prisma } from '../../utils/prisma';
+import { logger } from '../../utils/logger';
+
+export type AIFeature =
+  | 'discovery_analysis'
+  | 'analysis'
+  | 'generation'
+  | 'refinement'
+  | 'proofreading'
+  | 'competitor_analysis'
+  | 'youtube_analysis'
+  | 'persona_learning'
+  | 'playground'
+  | 'persona_bootstrap'
+  | 'claim_verification'
+  | 'subreddit_rules'
+  | 'sensitivity_check'
+  | 'other';
+
+export interface AIUsageContext {
+  feature: AIFeature;
+  // Left out only for work shared by all brands, such as scheduled subreddit rules syncs;
+  // that usage shows in no brand's report
+  brandId?: string | null;
+  userId?: string | null;
+}
+
+export interface AIUsageEntry {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+interface ModelUsageTotals extends UsageTotals {
+  provider: string;
+  model: string;
+  parseFailures: number;
+}
+
+export interface AIUsageReport {
+  days: number;
+  totals: UsageTotals & { parseFailures: number };
+  daily: Array<UsageTotals & { date: string }>;
+  byFeature: Array<UsageTotals & { feature: string }>;
+  byModel: ModelUsageTotals[];
+  byUser: Array<UsageTotals & { userId: string | null; name: string | null }>;
+  budget: {
+    monthlyBudget: number | null;
+    monthToDateCost: number;
+    remaining: number | null;
+    autoAnalysisPaused: boolean;
+  };
+}
+
+type ModelPrice = { input: number; output: number };
+
+// USD per million tokens; extend or override with AI_PRICE_TABLE='{"model":{"input":1,"output":2}}'
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-opus-4-20250514': { input: 15, output: 75 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+};
+
+function loadPriceTable(): Record<string, ModelPrice> {
+  if (!process.env.AI_PRICE_TABLE) {
+    return DEFAULT_PRICES;
+  }
+
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(process.env.AI_PRICE_TABLE) };
+  } catch (error) {
+    logger.error('Invalid AI_PRICE_TABLE, using default prices:', error);
+    return DEFAULT_PRICES;
+  }
+}
+
+export class AIUsageService {
+  private prices = loadPriceTable();
+  private unpricedModels = new Set<string>();
+
+  estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+    const price = this.prices[model];
+    if (!price) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        logger.warn(`No price configured for AI model ${model}; its usage will be recorded at zero cost`);
+      }
+      return 0;
+    }
+
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Record one completion and return its id. Failures are logged and swallowed so
+   * accounting never breaks the request that triggered it.
+   */
+  async record(context: AIUsageContext | undefined, entry: AIUsageEntry): Promise<string | null> {
+    try {
+      const record = await prisma.aIUsageRecord.create({
+        data: {
+          feature: context?.feature || 'other',
+          brandId: context?.brandId ?? null,
+          userId: context?.userId ?? null,
+          provider: entry.provider,
+          model: entry.model,
+          inputTokens: entry.inputTokens,
+          outputTokens: entry.outputTokens,
+          // Self-hosted and mock models have no per-token price
+          estimatedCost: entry.provider === 'local' || entry.provider === 'mock'
+            ? 0
+            : this.estimateCost(entry.model, entry.inputTokens, entry.outputTokens),
+        },
+        select: { id: true },
+      });
+      return record.id;
+    } catch (error) {
+      logger.error(`Failed to record AI usage for ${context?.feature || 'other'}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Flag a recorded completion whose output didn't match the expected schema
+   */
+  async markParseFailure(recordId: string | null | undefined): Promise<void> {
+    if (!recordId) {
+      return;
+    }
+
+    try {
+      await prisma.aIUsageRecord.update({
+        where: { id: recordId },
+        data: { parseFailed: true },
+      });
+    } catch (error) {
+      logger.error(`Failed to record AI parse failure for usage record ${recordId}:`, error);
+    }
+  }
+
+  async getMonthToDateCost(brandId: string): Promise<number> {
+    const result = await prisma.aIUsageRecord.aggregate({
+      where: { brandId, createdAt: { gte: this.startOfMonth() } },
+      _sum: { estimatedCost: true },
+    });
+    return result._sum.estimatedCost || 0;
+  }
+
+  /**
+   * Whether the brand has spent its monthly budget. Brands without a budget never are.
+   */
+  async isOverBudget(brandId: string): Promise<boolean> {
+    const brand = await prisma.brand.findUnique({
+      where: { id: brandId },
+      select: { aiMonthlyBudget: true },
+    });
+    if (brand?.aiMonthlyBudget == null) {
+      return false;
+    }
+
+    return (await this.getMonthToDateCost(brandId)) >= brand.aiMonthlyBudget;
+  }
+
+  async getUsageReport(brandId: string, days: number = 30): Promise<AIUsageReport> {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+    const where = { brandId, createdAt: { gte: startDate } };
+    const sums = { inputTokens: true, outputTokens: true, estimatedCost: true } as const;
+
+    const [records, byFeature, byModel, parseFailures, byUser, brand, monthToDateCost] = await Promise.all([
+      prisma.aIUsageRecord.findMany({
+        where,
+        select: { createdAt: true, inputTokens: true, outputTokens: true, estimatedCost: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.aIUsageRecord.groupBy({ by: ['feature'], where, _count: true, _sum: sums }),
+      prisma.aIUsageRecord.groupBy({ by: ['provider', 'model'], where, _count: true, _sum: sums }),
+      prisma.aIUsageRecord.groupBy({ by: ['provider', 'model'], where: { ...where, parseFailed: true }, _count: true }),
+      prisma.aIUsageRecord.groupBy({ by: ['userId'], where, _count: true, _sum: sums }),
+      prisma.brand.findUnique({ where: { id: brandId }, select: { aiMonthlyBudget: true } }),
+      this.getMonthToDateCost(brandId),
+    ]);
+
+    // Group by date
+    const dateMap = new Map<string, UsageTotals>();
+    for (const record of records) {
+      const date = record.createdAt.toISOString().split('T')[0];
+      const existing = dateMap.get(date) || { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+      dateMap.set(date, {
+        requests: existing.requests + 1,
+        inputTokens: existing.inputTokens + record.inputTokens,
+        outputTokens: existing.outputTokens + record.outputTokens,
+        cost: existing.cost + record.estimatedCost,
+      });
+    }
+
+    const userIds = byUser.map((u) => u.userId).filter((id): id is string => !!id);
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, name: true },
+    });
+
+    const toTotals = (group: { _count: number; _sum: { inputTokens: number | null; outputTokens: number | null; estimatedCost: number | null } }): UsageTotals => ({
+      requests: group._count,
+      inputTokens: group._sum.inputTokens || 0,
+      outputTokens: group._sum.outputTokens || 0,
+      cost: group._sum.estimatedCost || 0,
+    });
+    const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost;
+
+    const daily = [...dateMap.entries()]
+      .map(([date, totals]) => ({ date, ...totals }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const monthlyBudget = brand?.aiMonthlyBudget ?? null;
+    const failuresFor = (provider: string, model: string) =>
+      parseFailures.find((f) => f.provider === provider && f.model === model)?._count ?? 0;
+
+    return {
+      days,
+      totals: {
+        ...daily.reduce(
+          (acc, d) => ({
+            requests: acc.requests + d.requests,
+            inputTokens: acc.inputTokens + d.inputTokens,
+            outputTokens: acc.outputTokens + d.outputTokens,
+            cost: acc.cost + d.cost,
+          }),
+          { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+        ),
+        parseFailures: parseFailures.reduce((sum, f) => sum + f._count, 0),
+      },
+      daily,
+      byFeature: byFeature.map((f) => ({ feature: f.feature, ...toTotals(f) })).sort(byCost),
+      byModel: byModel.map((m) => ({
+        provider: m.provider,
+        model: m.model,
+        ...toTotals(m),
+        parseFailures: failuresFor(m.provider, m.model),
+      })).sort(byCost),
+      byUser: byUser.map((u) => ({
+        userId: u.userId,
+        name: users.find((user: { id: string }) => user.id === u.userId)?.name ?? null,
+        ...toTotals(u),
+      })).sort(byCost),
+      budget: {
+        monthlyBudget,
+        monthToDateCost,
+        remaining: monthlyBudget != null ? Math.max(monthlyBudget - monthToDateCost, 0) : null,
+        autoAnalysisPaused: monthlyBudget != null && monthToDateCost >= monthlyBudget,
+      },
+    };
+  }
+
+  private startOfMonth(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+}
+
+export const aiUsageService = new AIUsageService();
@@ -1,4 +1,10 @@
 import { prisma } from '../../utils/prisma';
+import { logger } from '../../utils/logger';
+import { AIService } from '../ai/ai.service';
+import { aiUsageService } from '../ai/usage.service';
+
+export type MentionSentiment = 'positive' | 'negative' | 'neutral' | 'comparison';
+export type CompetitorAspect = 'price' | 'quality' | 'support' | 'features';
 
 export interface CompetitorMention {
   engagementId: string;
@@ -6,19 +12,41 @@ export interface CompetitorMention {
   subreddit: string;
   postUrl: string;
   competitors: string[];
-  sentiment: 'positive' | 'negative' | 'neutral' | 'comparison';
+  sentiment: MentionSentiment;
   priority: 'high' | 'medium' | 'low';
+  source: 'ai' | 'keyword';
+  details: CompetitorSentiment[];
+  switchingIntent: boolean;
   createdAt: Date;
 }
 
-// Competitor brands - configure these for your industry
-// In production, these should come from database or configuration
-const COMPETITORS = [
-  // Add your competitors here
-  { name: 'Competitor A', variants: ['competitor a', 'comp a'] },
-  { name: 'Competitor B', variants: ['competitor b', 'comp b'] },
-  { name: 'Competitor C', variants: ['competitor c', 'comp c'] },
-];
+export interface TrackedCompetitor {
+  name: string;
+  variants: string[];
+}
+
+export interface CompetitorSentiment {
+  competitor: string;
+  sentiment: 'positive' | 'negative' | 'neutral' | 'mixed';
+  aspects: CompetitorAspect[];
+  switchingIntent: boolean;
+}
+
+export interface CompetitorPostAnalysis {
+  competitors: string[];
+  sentiment: MentionSentiment;
+  priority: 'high' | 'medium' | 'low';
+  source: 'ai' | 'keyword';
+  details: CompetitorSentiment[];
+}
+
+const ASPECTS: CompetitorAspect[] = ['price', 'quality', 'support', 'features'];
+
+// 'ai' uses the configured provider when one is available; 'keyword' never calls it
+const SENTIMENT_MODE = process.env.COMPETITOR_SENTIMENT_MODE === 'keyword' ? 'keyword' : 'ai';
+
+// Keyword fallbacks from a failed AI call are retried after this long
+const AI_RETRY_AFTER_MS = 60 * 60 * 1000;
 
 // Sentiment indicators
 const POSITIVE_INDICATORS = [
@@ -33,66 +61,325 @@ const NEGATIVE_INDICATORS = [
 
 const COMPARISON_INDICATORS = [
   'vs', 'versus', 'compared to', 'better than', 'worse than', 'difference',
-  'switch from', 'alternative to', 'instead of', 'or'
+  'switch from', 'alternative to', 'instead of'
 ];
 
+const SWITCHING_INDICATORS = [
+  'switch from', 'switching from', 'switched from', 'alternative to', 'alternatives to',
+  'replace my', 'replacement for', 'cancel my', 'cancelling', 'canceling', 'moving away from'
+];
+
+const ASPECT_INDICATORS: Record<CompetitorAspect, string[]> = {
+  price: ['price', 'cost', 'expensive', 'cheap', 'overpriced', 'subscription', 'afford', 'worth the money'],
+  quality: ['quality', 'broken', 'build', 'durable', 'reliable', 'defective', 'lasted'],
+  support: ['support', 'customer service', 'warranty', 'refund', 'returned', 'response time'],
+  features: ['feature', 'features', 'app', 'integration', 'tracking', 'program', 'workout'],
+};
+
+export interface ShareOfVoiceWeek {
+  weekStart: string;
+  totalPosts: number;
+  mentions: Record<string, number>;
+  share: Record<string, number>;
+  sentiment: Record<MentionSentiment, number>;
+  topSubreddits: Array<{ subreddit: string; count: number }>;
+}
+
+export interface ShareOfVoiceReport {
+  months: number;
+  brand: string;
+  competitors: string[];
+  weeks: ShareOfVoiceWeek[];
+  totals: Array<{ name: string; mentions: number; share: number }>;
+  topSubreddits: Array<{ subreddit: string; count: number }>;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CachedAnalysis extends CompetitorPostAnalysis {
+  matched: string[];
+}
+
 export class CompetitorAlertService {
+  private aiService = new AIService();
+
+  /**
+   * Get a brand's competitors with their name included as a match variant
+   */
+  async getTrackedCompetitors(brandId: string): Promise<TrackedCompetitor[]> {
+    const competitors = await prisma.competitor.findMany({
+      where: { brandId },
+      select: { name: true, variants: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return competitors.map((competitor: { name: string; variants: unknown }) => {
+      const variants = [competitor.name, ...((competitor.variants as string[]) || [])]
+        .map((v) => v.trim().toLowerCase())
+        .filter(Boolean);
+      return { name: competitor.name, variants: [...new Set(variants)] };
+    });
+  }
+
+  /**
+   * Check a post for mentions of the brand's competitors
+   */
+  async analyzePost(brandId: string, title: string, content: string | null): Promise<CompetitorPostAnalysis | null> {
+    const competitors = await this.getTrackedCompetitors(brandId);
+    const mentioned = this.findMentions(title, content, competitors);
+    if (mentioned.length === 0) {
+      return null;
+    }
+
+    if (this.useAI()) {
+      try {
+        return await this.analyzeWithAI(brandId, title, content, mentioned);
+      } catch (error) {
+        logger.warn('AI competitor analysis failed, using keyword heuristic:', error);
+      }
+    }
+    return this.analyzeWithKeywords(title, content, mentioned);
+  }
+
+  /**
+   * Analyze a discovered post and cache the result on the engagement item. This is the
+   * only place posts are analyzed automatically; listings read the cache.
+   */
+  async analyzeEngagement(engagementId: string): Promise<CompetitorPostAnalysis | null> {
+    const item = await prisma.engagementItem.findUnique({ where: { id: engagementId } });
+    if (!item?.brandId) {
+      return null;
+    }
+
+    const competitors = await this.getTrackedCompetitors(item.brandId);
+    const mentioned = this.findMentions(item.postTitle, item.postContent, competitors);
+    if (mentioned.length === 0) {
+      return null;
+    }
+
+    return this.resolveAnalysis(item, mentioned);
+  }
+
+  /**
+   * The cached analysis for an item when it covers the competitors mentioned now,
+   * otherwise the keyword heuristic. Nothing is called or written.
+   */
+  private readAnalysis(
+    item: { postTitle: string; postContent: string | null; competitorAnalysis: unknown },
+    mentioned: string[]
+  ): CompetitorPostAnalysis {
+    const cached = item.competitorAnalysis as CachedAnalysis | null;
+    if (cached && this.sameCompetitors(cached.matched, mentioned)) {
+      return cached;
+    }
+    return this.analyzeWithKeywords(item.postTitle, item.postContent, mentioned);
+  }
+
   /**
-   * Check a post for competitor mentions
+   * Return the cached analysis for an item, re-running it when the matched
+   * competitors changed or an AI result is now obtainable
    */
-  analyzePost(title: string, content: string | null): {
-    competitors: string[];
-    sentiment: 'positive' | 'negative' | 'neutral' | 'comparison';
-    priority: 'high' | 'medium' | 'low';
-  } | null {
+  private async resolveAnalysis(
+    item: {
+      id: string;
+      brandId: string | null;
+      postTitle: string;
+      postContent: string | null;
+      competitorAnalysis: unknown;
+      competitorAnalyzedAt: Date | null;
+    },
+    mentioned: string[]
+  ): Promise<CompetitorPostAnalysis> {
+    const cached = item.competitorAnalysis as CachedAnalysis | null;
+    const useAI = this.useAI();
+
+    if (cached && this.sameCompetitors(cached.matched, mentioned)) {
+      const retryDue = useAI
+        && cached.source === 'keyword'
+        && (!item.competitorAnalyzedAt || Date.now() - item.competitorAnalyzedAt.getTime() >= AI_RETRY_AFTER_MS);
+      if (!retryDue) {
+        return cached;
+      }
+    }
+
+    if (!useAI) {
+      // Without a provider the heuristic is the final answer, so it is worth caching
+      const analysis = this.analyzeWithKeywords(item.postTitle, item.postContent, mentioned);
+      await this.cacheAnalysis(item.id, mentioned, analysis);
+      return analysis;
+    }
+
+    let analysis: CompetitorPostAnalysis;
+    try {
+      // Over budget, the heuristic is cached like a failed call and retried later
+      if (item.brandId && await aiUsageService.isOverBudget(item.brandId)) {
+        throw new Error(`brand ${item.brandId} has reached its monthly AI budget`);
+      }
+      analysis = await this.analyzeWithAI(item.brandId, item.postTitle, item.postContent, mentioned);
+    } catch (error) {
+      logger.warn(`AI competitor analysis failed for ${item.id}, using keyword heuristic:`, error);
+      analysis = this.analyzeWithKeywords(item.postTitle, item.postContent, mentioned);
+    }
+
+    await this.cacheAnalysis(item.id, mentioned, analysis);
+    return analysis;
+  }
+
+  private async cacheAnalysis(engagementId: string, mentioned: string[], analysis: CompetitorPostAnalysis): Promise<void> {
+    const cached: CachedAnalysis = { ...analysis, matched: mentioned };
+    await prisma.engagementItem.update({
+      where: { id: engagementId },
+      data: {
+        competitorAnalysis: cached as object,
+        competitorAnalyzedAt: new Date(),
+      },
+    });
+  }
+
+  private useAI(): boolean {
+    return SENTIMENT_MODE === 'ai' && this.aiService.isConfigured();
+  }
+
+  private sameCompetitors(a: string[] | undefined, b: string[]): boolean {
+    if (!a || a.length !== b.length) return false;
+    return a.every((name) => b.includes(name));
+  }
+
+  private findMentions(title: string, content: string | null, competitors: TrackedCompetitor[]): string[] {
     const text = `${title} ${content || ''}`.toLowerCase();
 
-    // Find mentioned competitors
     const mentionedCompetitors: string[] = [];
-    for (const competitor of COMPETITORS) {
-      for (const variant of competitor.variants) {
-        if (text.includes(variant)) {
-          if (!mentionedCompetitors.includes(competitor.name)) {
-            mentionedCompetitors.push(competitor.name);
-          }
-          break;
-        }
+    for (const competitor of competitors) {
+      if (competitor.variants.some((variant) => this.containsTerm(text, variant))) {
+        mentionedCompetitors.push(competitor.name);
       }
     }
+    return mentionedCompetitors;
+  }
 
-    if (mentionedCompetitors.length === 0) {
-      return null;
+  private async analyzeWithAI(
+    brandId: string | null,
+    title: string,
+    content: string | null,
+    competitors: string[]
+  ): Promise<CompetitorPostAnalysis> {
+    const brand = brandId
+      ? await prisma.brand.findUnique({ where: { id: brandId }, select: { redactPii: true } })
+      : null;
+
+    const prompt = `
+Analyze how this Reddit post talks about the listed competitor brands.
+
+COMPETITORS: ${competitors.join(', ')}
+
+POST:
+${this.aiService.formatUntrustedPost({ Title: title, Content: (content || '').substring(0, 4000) }, brand)}
+
+For each competitor, judge the author's sentiment towards it, which aspects of it are discussed
+(only from: ${ASPECTS.join(', ')}), and whether the author is considering switching away from it.
+Set "comparison" to true only if the post weighs products against each other.
+
+Respond ONLY with valid JSON (no markdown, no code blocks):
+{
+  "comparison": true/false,
+  "competitors": [
+    {
+      "competitor": "Name exactly as listed above",
+      "sentiment": "positive|negative|neutral|mixed",
+      "aspects": ["price"],
+      "switching_intent": true/false
     }
+  ]
+}
+    `.trim();
+
+    const response = await this.aiService.complete(prompt, true, undefined, { feature: 'competitor_analysis', brandId });
+    const parsed = this.parseResponse(response);
+
+    const details: CompetitorSentiment[] = competitors.map((name) => {
+      const entry = parsed.competitors?.find((c) => c.competitor?.toLowerCase() === name.toLowerCase());
+      return {
+        competitor: name,
+        sentiment: ['positive', 'negative', 'neutral', 'mixed'].includes(entry?.sentiment as string)
+          ? entry!.sentiment as CompetitorSentiment['sentiment']
+          : 'neutral',
+        aspects: (entry?.aspects || []).filter((a): a is CompetitorAspect => ASPECTS.includes(a as CompetitorAspect)),
+        switchingIntent: entry?.switching_intent === true,
+      };
+    });
+
+    const sentiment: MentionSentiment = parsed.comparison === true
+      ? 'comparison'
+      : this.overallSentiment(details);
+
+    return {
+      competitors,
+      sentiment,
+      priority: this.getPriority(sentiment, details),
+      source: 'ai',
+      details,
+    };
+  }
 
-    // Analyze sentiment
+  private analyzeWithKeywords(title: string, content: string | null, competitors: string[]): CompetitorPostAnalysis {
+    const text = `${title} ${content || ''}`.toLowerCase();
     const sentiment = this.analyzeSentiment(text);
 
-    // Determine priority
-    let priority: 'high' | 'medium' | 'low' = 'medium';
+    const aspects = ASPECTS.filter((aspect) =>
+      ASPECT_INDICATORS[aspect].some((indicator) => this.containsTerm(text, indicator))
+    );
+    const switchingIntent = SWITCHING_INDICATORS.some((indicator) => this.containsTerm(text, indicator));
+
+    // The heuristic can't attribute sentiment to a specific competitor
+    const details: CompetitorSentiment[] = competitors.map((competitor) => ({
+      competitor,
+      sentiment: sentiment === 'comparison' ? 'neutral' : sentiment,
+      aspects,
+      switchingIntent,
+    }));
+
+    return {
+      competitors,
+      sentiment,
+      priority: this.getPriority(sentiment, details),
+      source: 'keyword',
+      details,
+    };
+  }
+
+  private overallSentiment(details: CompetitorSentiment[]): MentionSentiment {
+    const negative = details.filter((d) => d.sentiment === 'negative').length;
+    const positive = details.filter((d) => d.sentiment === 'positive').length;
 
-    // High priority: comparison posts or negative sentiment about competitor
-    if (sentiment === 'comparison') {
-      priority = 'high';
-    } else if (sentiment === 'negative' && mentionedCompetitors.length > 0) {
-      priority = 'high'; // User unhappy with competitor - opportunity!
+    if (negative > positive) return 'negative';
+    if (positive > negative) return 'positive';
+    return 'neutral';
+  }
+
+  private getPriority(sentiment: MentionSentiment, details: CompetitorSentiment[]): 'high' | 'medium' | 'low' {
+    // High priority: comparison posts, unhappy competitor users, or anyone looking to switch
+    if (sentiment === 'comparison' || sentiment === 'negative' || details.some((d) => d.switchingIntent)) {
+      return 'high';
     }
 
     // Low priority: positive sentiment about competitor
     if (sentiment === 'positive') {
-      priority = 'low';
+      return 'low';
     }
 
-    return {
-      competitors: mentionedCompetitors,
-      sentiment,
-      priority,
-    };
+    return 'medium';
+  }
+
+  // Whole-word match so short aliases don't fire inside other words
+  private containsTerm(text: string, term: string): boolean {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
   }
 
-  private analyzeSentiment(text: string): 'positive' | 'negative' | 'neutral' | 'comparison' {
+  private analyzeSentiment(text: string): MentionSentiment {
     // Check for comparison context first
     for (const indicator of COMPARISON_INDICATORS) {
-      if (text.includes(indicator)) {
+      if (this.containsTerm(text, indicator)) {
         return 'comparison';
       }
     }
@@ -101,13 +388,13 @@ export class CompetitorAlertService {
     let negativeCount = 0;
 
     for (const indicator of POSITIVE_INDICATORS) {
-      if (text.includes(indicator)) {
+      if (this.containsTerm(text, indicator)) {
         positiveCount++;
       }
     }
 
     for (const indicator of NEGATIVE_INDICATORS) {
-      if (text.includes(indicator)) {
+      if (this.containsTerm(text, indicator)) {
         negativeCount++;
       }
     }
@@ -121,15 +408,44 @@ export class CompetitorAlertService {
     return 'neutral';
   }
 
+  private parseResponse(response: string): {
+    comparison?: boolean;
+    competitors?: Array<{
+      competitor?: string;
+      sentiment?: string;
+      aspects?: string[];
+      switching_intent?: boolean;
+    }>;
+  } {
+    // Remove markdown code blocks if present
+    let cleaned = response.trim();
+    if (cleaned.startsWith('```json')) {
+      cleaned = cleaned.slice(7);
+    } else if (cleaned.startsWith('```')) {
+      cleaned = cleaned.slice(3);
+    }
+    if (cleaned.endsWith('```')) {
+      cleaned = cleaned.slice(0, -3);
+    }
+
+    return JSON.parse(cleaned.trim());
+  }
+
   /**
    * Get all engagement items with competitor mentions
    */
-  async getCompetitorMentions(options?: {
+  async getCompetitorMentions(brandId: string, options?: {
     priority?: 'high' | 'medium' | 'low';
     competitor?: string;
     limit?: number;
   }): Promise<CompetitorMention[]> {
+    const competitors = await this.getTrackedCompetitors(brandId);
+    if (competitors.length === 0) {
+      return [];
+    }
+
     const items = await prisma.engagementItem.findMany({
+      where: { brandId },
       orderBy: { createdAt: 'desc' },
       take: (options?.limit || 50) * 2, // Fetch extra to compensate for filtering
     });
@@ -140,42 +456,171 @@ export class CompetitorAlertService {
     const mentions: CompetitorMention[] = [];
 
     for (const item of itemsWithAnalysis.slice(0, options?.limit || 50)) {
-      const analysis = this.analyzePost(item.postTitle, item.postContent);
-      if (analysis) {
-        // Apply filters
-        if (options?.priority && analysis.priority !== options.priority) {
-          continue;
-        }
-        if (options?.competitor && !analysis.competitors.includes(options.competitor)) {
-          continue;
-        }
-
-        mentions.push({
-          engagementId: item.id,
-          postTitle: item.postTitle,
-          subreddit: item.subreddit,
-          postUrl: item.postUrl,
-          competitors: analysis.competitors,
-          sentiment: analysis.sentiment,
-          priority: analysis.priority,
-          createdAt: item.createdAt,
-        });
+      const mentioned = this.findMentions(item.postTitle, item.postContent, competitors);
+      if (mentioned.length === 0) {
+        continue;
+      }
+
+      const analysis = this.readAnalysis(item, mentioned);
+
+      // Apply filters
+      if (options?.priority && analysis.priority !== options.priority) {
+        continue;
+      }
+      if (options?.competitor && !analysis.competitors.includes(options.competitor)) {
+        continue;
       }
+
+      mentions.push({
+        engagementId: item.id,
+        postTitle: item.postTitle,
+        subreddit: item.subreddit,
+        postUrl: item.postUrl,
+        competitors: analysis.competitors,
+        sentiment: analysis.sentiment,
+        priority: analysis.priority,
+        source: analysis.source,
+        details: analysis.details,
+        switchingIntent: analysis.details.some((d) => d.switchingIntent),
+        createdAt: item.createdAt,
+      });
     }
 
     return mentions;
   }
 
+  /**
+   * Weekly share of voice between the brand and its competitors over discovered posts.
+   * Uses cached mention analyses where present and the keyword heuristic otherwise,
+   * so building the report never calls the AI provider.
+   */
+  async getShareOfVoice(brandId: string, months: number): Promise<ShareOfVoiceReport> {
+    const since = new Date();
+    since.setMonth(since.getMonth() - months);
+
+    const [brand, brandKeywords, competitors] = await Promise.all([
+      prisma.brand.findUnique({ where: { id: brandId }, select: { name: true } }),
+      prisma.keyword.findMany({
+        where: { brandId, category: 'brand', isActive: true },
+        select: { keyword: true, searchVariants: true },
+      }),
+      this.getTrackedCompetitors(brandId),
+    ]);
+
+    const brandName = brand?.name || 'Brand';
+    const brandVariants = [brandName, ...brandKeywords.flatMap((k: { keyword: string; searchVariants: unknown }) =>
+      [k.keyword, ...((k.searchVariants as string[]) || [])])]
+      .map((v) => v.trim().toLowerCase())
+      .filter(Boolean);
+    const tracked: TrackedCompetitor[] = [
+      { name: brandName, variants: [...new Set(brandVariants)] },
+      ...competitors.filter((c) => c.name !== brandName),
+    ];
+    const names = tracked.map((t) => t.name);
+
+    const items = await prisma.engagementItem.findMany({
+      where: { brandId, createdAt: { gte: since } },
+      select: {
+        postTitle: true,
+        postContent: true,
+        subreddit: true,
+        createdAt: true,
+        competitorAnalysis: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Pre-fill every week in range so gaps chart as zero rather than disappearing
+    const weeks = new Map<string, ShareOfVoiceWeek & { subreddits: Record<string, number> }>();
+    for (let t = this.weekStart(since).getTime(); t <= Date.now(); t += WEEK_MS) {
+      const key = new Date(t).toISOString().split('T')[0];
+      weeks.set(key, {
+        weekStart: key,
+        totalPosts: 0,
+        mentions: Object.fromEntries(names.map((n) => [n, 0])),
+        share: Object.fromEntries(names.map((n) => [n, 0])),
+        sentiment: { positive: 0, negative: 0, neutral: 0, comparison: 0 },
+        topSubreddits: [],
+        subreddits: {},
+      });
+    }
+
+    for (const item of items) {
+      const mentioned = this.findMentions(item.postTitle, item.postContent, tracked);
+      if (mentioned.length === 0) continue;
+
+      const week = weeks.get(this.weekStart(item.createdAt).toISOString().split('T')[0]);
+      if (!week) continue;
+
+      week.totalPosts++;
+      for (const name of mentioned) {
+        week.mentions[name]++;
+      }
+      week.subreddits[item.subreddit] = (week.subreddits[item.subreddit] || 0) + 1;
+
+      const cached = item.competitorAnalysis as CachedAnalysis | null;
+      const sentiment = cached?.sentiment
+        || this.analyzeSentiment(`${item.postTitle} ${item.postContent || ''}`.toLowerCase());
+      week.sentiment[sentiment]++;
+    }
+
+    const totalMentions: Record<string, number> = Object.fromEntries(names.map((n) => [n, 0]));
+    const totalSubreddits: Record<string, number> = {};
+
+    const result: ShareOfVoiceWeek[] = [...weeks.values()].map(({ subreddits, ...week }) => {
+      const weekTotal = names.reduce((sum, n) => sum + week.mentions[n], 0);
+      for (const name of names) {
+        totalMentions[name] += week.mentions[name];
+        week.share[name] = weekTotal > 0 ? Math.round((week.mentions[name] / weekTotal) * 1000) / 10 : 0;
+      }
+      for (const [subreddit, count] of Object.entries(subreddits)) {
+        totalSubreddits[subreddit] = (totalSubreddits[subreddit] || 0) + count;
+      }
+      return { ...week, topSubreddits: this.topEntries(subreddits, 3) };
+    });
+
+    const grandTotal = names.reduce((sum, n) => sum + totalMentions[n], 0);
+
+    return {
+      months,
+      brand: brandName,
+      competitors: names.slice(1),
+      weeks: result,
+      totals: names.map((name) => ({
+        name,
+        mentions: totalMentions[name],
+        share: grandTotal > 0 ? Math.round((totalMentions[name] / grandTotal) * 1000) / 10 : 0,
+      })),
+      topSubreddits: this.topEntries(totalSubreddits, 5),
+    };
+  }
+
+  // Monday 00:00 UTC of the week containing the date
+  private weekStart(date: Date): Date {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    return start;
+  }
+
+  private topEntries(counts: Record<string, number>, limit: number): Array<{ subreddit: string; count: number }> {
+    return Object.entries(counts)
+      .map(([subreddit, count]) => ({ subreddit, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }
+
   /**
    * Get summary of competitor mentions
    */
-  async getCompetitorSummary(): Promise<{
+  async getCompetitorSummary(brandId: string): Promise<{
     totalMentions: number;
     byCompetitor: { name: string; count: number }[];
     bySentiment: { sentiment: string; count: number }[];
+    byAspect: { aspect: CompetitorAspect; count: number }[];
     highPriorityCount: number;
+    switchingIntentCount: number;
   }> {
-    const mentions = await this.getCompetitorMentions({ limit: 500 });
+    const mentions = await this.getCompetitorMentions(brandId, { limit: 500 });
 
     const competitorCounts: Record<string, number> = {};
     const sentimentCounts: Record<string, number> = {
@@ -184,16 +629,29 @@ export class CompetitorAlertService {
       neutral: 0,
       comparison: 0,
     };
+    const aspectCounts: Record<CompetitorAspect, number> = {
+      price: 0,
+      quality: 0,
+      support: 0,
+      features: 0,
+    };
     let highPriorityCount = 0;
+    let switchingIntentCount = 0;
 
     for (const mention of mentions) {
       for (const competitor of mention.competitors) {
         competitorCounts[competitor] = (competitorCounts[competitor] || 0) + 1;
       }
       sentimentCounts[mention.sentiment]++;
+      for (const aspect of new Set(mention.details.flatMap((d) => d.aspects))) {
+        aspectCounts[aspect]++;
+      }
       if (mention.priority === 'high') {
         highPriorityCount++;
       }
+      if (mention.switchingIntent) {
+        switchingIntentCount++;
+      }
     }
 
     return {
@@ -203,16 +661,11 @@ export class CompetitorAlertService {
         .sort((a, b) => b.count - a.count),
       bySentiment: Object.entries(sentimentCounts)
         .map(([sentiment, count]) => ({ sentiment, count })),
+      byAspect: ASPECTS.map((aspect) => ({ aspect, count: aspectCounts[aspect] })),
       highPriorityCount,
+      switchingIntentCount,
     };
   }
-
-  /**
-   * Get list of tracked competitors
-   */
-  getTrackedCompetitors(): { name: string; variants: string[] }[] {
-    return COMPETITORS;
-  }
 }
 
 export const competitorAlertService = new CompetitorAlertService();
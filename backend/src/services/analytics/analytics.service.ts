@@ -27,8 +27,47 @@ export interface TrendData {
   avgScore: number;
 }
 
+export interface BrandRollup {
+  brandId: string;
+  brandName: string;
+  totalEngagements: number;
+  publishedCount: number;
+  approvalRate: number | null;
+  avgRelevanceScore: number | null;
+  avgCommentScore: number | null;
+  totalUpvotes: number;
+  totalReplies: number;
+}
+
+export interface OrganizationRollup {
+  organizationId: string;
+  brands: BrandRollup[];
+  totals: Omit<BrandRollup, 'brandId' | 'brandName'>;
+}
+
+export interface MetricSnapshot {
+  recordedAt: Date;
+  commentScore: number;
+  replyCount: number;
+}
+
+export interface VariantWinStat {
+  value: string;
+  generated: number;
+  chosen: number;
+  merged: number;
+  winRate: number | null;
+}
+
+export interface DraftVariantStats {
+  days: number;
+  decided: number;
+  byStyle: VariantWinStat[];
+  byLength: VariantWinStat[];
+}
+
 export class AnalyticsService {
-  async getDashboardStats(): Promise<DashboardStats> {
+  async getDashboardStats(brandId: string): Promise<DashboardStats> {
     const [
       totalEngagements,
       statusCounts,
@@ -38,17 +77,18 @@ export class AnalyticsService {
       recentActivity,
     ] = await Promise.all([
       // Total count
-      prisma.engagementItem.count(),
+      prisma.engagementItem.count({ where: { brandId } }),
 
       // Status breakdown
       prisma.engagementItem.groupBy({
         by: ['status'],
+        where: { brandId },
         _count: true,
       }),
 
       // Published stats with aggregations
       prisma.engagementItem.aggregate({
-        where: { status: 'published' },
+        where: { brandId, status: 'published' },
         _count: true,
         _avg: {
           relevanceScore: true,
@@ -63,6 +103,7 @@ export class AnalyticsService {
       // Top subreddits
       prisma.engagementItem.groupBy({
         by: ['subreddit'],
+        where: { brandId },
         _count: true,
         orderBy: { _count: { subreddit: 'desc' } },
         take: 5,
@@ -71,8 +112,9 @@ export class AnalyticsService {
       // Top performing accounts
       prisma.redditAccount.findMany({
         where: {
+          brandId,
           engagements: {
-            some: { status: 'published' },
+            some: { brandId, status: 'published' },
           },
         },
         select: {
@@ -80,12 +122,12 @@ export class AnalyticsService {
           _count: {
             select: {
               engagements: {
-                where: { status: 'published' },
+                where: { brandId, status: 'published' },
               },
             },
           },
           engagements: {
-            where: { status: 'published' },
+            where: { brandId, status: 'published' },
             select: { commentScore: true },
           },
         },
@@ -94,6 +136,7 @@ export class AnalyticsService {
 
       // Recent activity
       prisma.engagementItem.findMany({
+        where: { brandId },
         select: {
           id: true,
           postTitle: true,
@@ -137,12 +180,13 @@ export class AnalyticsService {
     };
   }
 
-  async getTrends(days: number = 30): Promise<TrendData[]> {
+  async getTrends(brandId: string, days: number = 30): Promise<TrendData[]> {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
     const published = await prisma.engagementItem.findMany({
       where: {
+        brandId,
         status: 'published',
         publishedAt: { gte: startDate },
       },
@@ -153,15 +197,17 @@ export class AnalyticsService {
       orderBy: { publishedAt: 'asc' },
     });
 
-    // Group by date
-    const dateMap = new Map<string, { published: number; totalScore: number }>();
+    // Group by date; only comments that have been measured count towards the average
+    const dateMap = new Map<string, { published: number; measured: number; totalScore: number }>();
 
     published.forEach((item: { publishedAt: Date | null; commentScore: number | null }) => {
       if (item.publishedAt) {
         const date = item.publishedAt.toISOString().split('T')[0];
-        const existing = dateMap.get(date) || { published: 0, totalScore: 0 };
+        const existing = dateMap.get(date) || { published: 0, measured: 0, totalScore: 0 };
+        const isMeasured = item.commentScore !== null;
         dateMap.set(date, {
           published: existing.published + 1,
+          measured: existing.measured + (isMeasured ? 1 : 0),
           totalScore: existing.totalScore + (item.commentScore || 0),
         });
       }
@@ -174,20 +220,20 @@ export class AnalyticsService {
         date,
         published: value.published,
         totalScore: value.totalScore,
-        avgScore: value.published > 0 ? Math.round(value.totalScore / value.published) : 0,
+        avgScore: value.measured > 0 ? Math.round(value.totalScore / value.measured) : 0,
       });
     });
 
     return trends.sort((a, b) => a.date.localeCompare(b.date));
   }
 
-  async getAccountPerformance(accountId: string) {
-    const account = await prisma.redditAccount.findUnique({
-      where: { id: accountId },
+  async getAccountPerformance(brandId: string, accountId: string) {
+    const account = await prisma.redditAccount.findFirst({
+      where: { id: accountId, brandId },
       include: {
         persona: { select: { name: true } },
         engagements: {
-          where: { status: 'published' },
+          where: { brandId, status: 'published' },
           select: {
             id: true,
             subreddit: true,
@@ -205,8 +251,9 @@ export class AnalyticsService {
 
     const totalScore = account.engagements.reduce((sum: number, e: { commentScore: number | null }) => sum + (e.commentScore || 0), 0);
     const totalReplies = account.engagements.reduce((sum: number, e: { replyCount: number | null }) => sum + (e.replyCount || 0), 0);
-    const avgScore = account.engagements.length > 0
-      ? Math.round(totalScore / account.engagements.length)
+    const measuredCount = account.engagements.filter((e: { commentScore: number | null }) => e.commentScore !== null).length;
+    const avgScore = measuredCount > 0
+      ? Math.round(totalScore / measuredCount)
       : 0;
 
     return {
@@ -223,10 +270,25 @@ export class AnalyticsService {
     };
   }
 
-  async getSubredditPerformance() {
+  /**
+   * Score and reply history of a published comment, oldest first
+   */
+  async getEngagementMetrics(brandId: string, engagementId: string): Promise<MetricSnapshot[]> {
+    return prisma.engagementMetric.findMany({
+      where: { engagementId, engagement: { brandId } },
+      select: {
+        recordedAt: true,
+        commentScore: true,
+        replyCount: true,
+      },
+      orderBy: { recordedAt: 'asc' },
+    });
+  }
+
+  async getSubredditPerformance(brandId: string) {
     const subreddits = await prisma.engagementItem.groupBy({
       by: ['subreddit'],
-      where: { status: 'published' },
+      where: { brandId, status: 'published' },
       _count: true,
       _avg: { commentScore: true },
       _sum: { commentScore: true, replyCount: true },
@@ -240,4 +302,132 @@ export class AnalyticsService {
       totalReplies: s._sum.replyCount || 0,
     })).sort((a: { totalScore: number }, b: { totalScore: number }) => b.totalScore - a.totalScore);
   }
+
+  /**
+   * How often each style and length wins when reviewers pick between draft variants.
+   * Candidates still waiting to be picked are left out.
+   */
+  async getDraftVariantStats(brandId: string, days: number = 30): Promise<DraftVariantStats> {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const candidates = await prisma.draftCandidate.findMany({
+      where: {
+        engagementItem: { brandId },
+        createdAt: { gte: startDate },
+        status: { not: 'pending' },
+      },
+      select: { style: true, length: true, status: true, merged: true },
+    });
+
+    const tally = (key: 'style' | 'length'): VariantWinStat[] => {
+      const stats = new Map<string, VariantWinStat>();
+      for (const candidate of candidates) {
+        const value = candidate[key] || 'default';
+        const stat = stats.get(value) || { value, generated: 0, chosen: 0, merged: 0, winRate: null };
+        stat.generated++;
+        if (candidate.status === 'chosen') {
+          stat.chosen++;
+          if (candidate.merged) stat.merged++;
+        }
+        stats.set(value, stat);
+      }
+
+      return [...stats.values()]
+        .map((stat) => ({ ...stat, winRate: stat.generated > 0 ? Math.round((stat.chosen / stat.generated) * 100) : null }))
+        .sort((a, b) => (b.winRate ?? 0) - (a.winRate ?? 0));
+    };
+
+    return {
+      days,
+      decided: candidates.filter((c) => c.status === 'chosen').length,
+      byStyle: tally('style'),
+      byLength: tally('length'),
+    };
+  }
+
+  /**
+   * Side-by-side totals for every brand in an organization
+   */
+  async getOrganizationRollup(organizationId: string): Promise<OrganizationRollup> {
+    const brands = await prisma.brand.findMany({
+      where: { organizationId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+    const brandIds = brands.map((b: { id: string }) => b.id);
+
+    const [totals, published, reviewed] = await Promise.all([
+      prisma.engagementItem.groupBy({
+        by: ['brandId'],
+        where: { brandId: { in: brandIds } },
+        _count: true,
+        _avg: { relevanceScore: true },
+      }),
+      prisma.engagementItem.groupBy({
+        by: ['brandId'],
+        where: { brandId: { in: brandIds }, status: 'published' },
+        _count: true,
+        _avg: { commentScore: true },
+        _sum: { commentScore: true, replyCount: true },
+      }),
+      // Approval rate is measured over items a reviewer has decided on
+      prisma.engagementItem.groupBy({
+        by: ['brandId', 'status'],
+        where: {
+          brandId: { in: brandIds },
+          status: { in: ['approved', 'published', 'failed', 'rejected'] },
+        },
+        _count: true,
+      }),
+    ]);
+
+    const rollups: BrandRollup[] = brands.map((brand: { id: string; name: string }) => {
+      const total = totals.find((t: { brandId: string | null }) => t.brandId === brand.id);
+      const pub = published.find((p: { brandId: string | null }) => p.brandId === brand.id);
+      const decisions = reviewed.filter((r: { brandId: string | null }) => r.brandId === brand.id);
+      const decided = decisions.reduce((sum: number, r: { _count: number }) => sum + r._count, 0);
+      const rejected = decisions.find((r: { status: string }) => r.status === 'rejected')?._count || 0;
+
+      return {
+        brandId: brand.id,
+        brandName: brand.name,
+        totalEngagements: total?._count || 0,
+        publishedCount: pub?._count || 0,
+        approvalRate: decided > 0 ? Math.round(((decided - rejected) / decided) * 100) : null,
+        avgRelevanceScore: total?._avg.relevanceScore ?? null,
+        avgCommentScore: pub?._avg.commentScore ?? null,
+        totalUpvotes: pub?._sum.commentScore || 0,
+        totalReplies: pub?._sum.replyCount || 0,
+      };
+    });
+
+    const sum = (key: 'totalEngagements' | 'publishedCount' | 'totalUpvotes' | 'totalReplies') =>
+      rollups.reduce((acc, r) => acc + r[key], 0);
+    const weightedAvg = (key: 'avgRelevanceScore' | 'avgCommentScore', weight: 'totalEngagements' | 'publishedCount') => {
+      const weighted = rollups.filter((r) => r[key] !== null && r[weight] > 0);
+      const totalWeight = weighted.reduce((acc, r) => acc + r[weight], 0);
+      return totalWeight > 0
+        ? weighted.reduce((acc, r) => acc + (r[key] as number) * r[weight], 0) / totalWeight
+        : null;
+    };
+    const allDecided = reviewed.reduce((acc: number, r: { _count: number }) => acc + r._count, 0);
+    const allRejected = reviewed
+      .filter((r: { status: string }) => r.status === 'rejected')
+      .reduce((acc: number, r: { _count: number }) => acc + r._count, 0);
+
+    return {
+      organizationId,
+      brands: rollups,
+      totals: {
+        totalEngagements: sum('totalEngagements'),
+        publishedCount: sum('publishedCount'),
+        approvalRate: allDecided > 0 ? Math.round(((allDecided - allRejected) / allDecided) * 100) : null,
+        avgRelevanceScore: weightedAvg('avgRelevanceScore', 'totalEngagements'),
+        avgCommentScore: weightedAvg('avgCommentScore', 'publishedCount'),
+        totalUpvotes: sum('totalUpvotes'),
+        totalReplies: sum('totalReplies'),
+      },
+    };
+  }
 }
@@ -0,0 +1,119 @@
+import { prisma } from '../../utils/prisma';
+import { logger } from '../../utils/logger';
+import { RedditService } from '../reddit/reddit.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Polling interval by comment age: hourly while fresh, then daily, then weekly
+const POLL_SCHEDULE: Array<{ maxAgeMs: number; intervalMs: number }> = [
+  { maxAgeMs: DAY_MS, intervalMs: HOUR_MS },
+  { maxAgeMs: 7 * DAY_MS, intervalMs: DAY_MS },
+  { maxAgeMs: 90 * DAY_MS, intervalMs: 7 * DAY_MS },
+];
+
+// Comments older than this are considered settled and no longer polled
+const MAX_TRACKING_AGE_MS = POLL_SCHEDULE[POLL_SCHEDULE.length - 1].maxAgeMs;
+
+// Upper bound per run to stay well within Reddit's rate limits
+const BATCH_SIZE = parseInt(process.env.METRICS_BATCH_SIZE || '100', 10);
+
+export interface MetricsRunResult {
+  due: number;
+  updated: number;
+  missing: number;
+  failed: number;
+}
+
+export class CommentMetricsService {
+  private redditService = new RedditService();
+
+  /**
+   * How long to wait between checks for a comment published `ageMs` ago.
+   * Returns null once the comment is past the tracking window.
+   */
+  getPollInterval(ageMs: number): number | null {
+    const tier = POLL_SCHEDULE.find((t) => ageMs < t.maxAgeMs);
+    return tier ? tier.intervalMs : null;
+  }
+
+  /**
+   * Poll every published comment that is due for a check and record a snapshot.
+   */
+  async collectDueMetrics(now: Date = new Date()): Promise<MetricsRunResult> {
+    const candidates = await prisma.engagementItem.findMany({
+      where: {
+        status: 'published',
+        redditCommentId: { not: null },
+        publishedAt: { gte: new Date(now.getTime() - MAX_TRACKING_AGE_MS) },
+      },
+      select: {
+        id: true,
+        redditPostId: true,
+        redditCommentId: true,
+        publishedAt: true,
+        lastMetricCheck: true,
+      },
+      orderBy: { lastMetricCheck: { sort: 'asc', nulls: 'first' } },
+    });
+
+    const due = candidates.filter((item) => {
+      const interval = this.getPollInterval(now.getTime() - item.publishedAt!.getTime());
+      if (interval === null) return false;
+      return !item.lastMetricCheck || now.getTime() - item.lastMetricCheck.getTime() >= interval;
+    }).slice(0, BATCH_SIZE);
+
+    const result: MetricsRunResult = { due: due.length, updated: 0, missing: 0, failed: 0 };
+
+    for (const item of due) {
+      try {
+        const metrics = await this.redditService.getCommentMetrics(item.redditPostId, item.redditCommentId!);
+
+        if (!metrics) {
+          // Removed or deleted: keep the last known numbers but stop hammering it this cycle
+          await prisma.engagementItem.update({
+            where: { id: item.id },
+            data: { lastMetricCheck: now },
+          });
+          result.missing++;
+          continue;
+        }
+
+        await prisma.$transaction([
+          prisma.engagementMetric.create({
+            data: {
+              engagementId: item.id,
+              commentScore: metrics.score,
+              replyCount: metrics.replyCount,
+              recordedAt: now,
+            },
+          }),
+          prisma.engagementItem.update({
+            where: { id: item.id },
+            data: {
+              commentScore: metrics.score,
+              replyCount: metrics.replyCount,
+              lastMetricCheck: now,
+            },
+          }),
+        ]);
+        result.updated++;
+      } catch (error) {
+        logger.warn(`Failed to collect metrics for engagement ${item.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+}
+
+// Singleton instance
+let metricsInstance: CommentMetricsService | null = null;
+
+export function getCommentMetricsService(): CommentMetricsService {
+  if (!metricsInstance) {
+    metricsInstance = new CommentMetricsService();
+  }
+  return metricsInstance;
+}
@@ -0,0 +1,160 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { logger } from '../../utils/logger';
+
+export type AuditEntityType =
+  | 'engagement'
+  | 'persona'
+  | 'keyword'
+  | 'subreddit'
+  | 'reddit_account'
+  | 'brand'
+  | 'brand_member'
+  | 'competitor'
+  | 'knowledge_document';
+
+// Entities shared by all brands; their history is visible from any brand
+const GLOBAL_ENTITY_TYPES: AuditEntityType[] = ['subreddit'];
+
+// Never persist credentials into the audit trail
+const SENSITIVE_KEYS = ['accessToken', 'refreshToken', 'passwordHash'];
+
+export interface AuditEntry {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  userId?: string | null;
+  brandId?: string | null;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export interface AuditQuery {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  userId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+export class AuditService {
+  /**
+   * Record a change. Failures are logged and swallowed so auditing never
+   * breaks the request that triggered it.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    let oldValue = this.sanitize(entry.oldValue);
+    let newValue = this.sanitize(entry.newValue);
+
+    // For updates only keep the fields that actually changed
+    if (this.isRecord(oldValue) && this.isRecord(newValue)) {
+      [oldValue, newValue] = this.diff(oldValue, newValue);
+    }
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          action: entry.action,
+          userId: entry.userId ?? null,
+          brandId: entry.brandId ?? null,
+          oldValue: oldValue === undefined ? undefined : (oldValue as Prisma.InputJsonValue),
+          newValue: newValue === undefined ? undefined : (newValue as Prisma.InputJsonValue),
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to write audit log for ${entry.entityType} ${entry.entityId} (${entry.action}):`, error);
+    }
+  }
+
+  /**
+   * List audit entries visible to a brand, newest first. On global entries made by
+   * someone outside the brand, the actor's email is withheld.
+   */
+  async list(brandId: string, query: AuditQuery) {
+    const where: Prisma.AuditLogWhereInput = {
+      OR: [
+        { brandId },
+        { brandId: null, entityType: { in: GLOBAL_ENTITY_TYPES } },
+      ],
+      ...(query.entityType && { entityType: query.entityType }),
+      ...(query.entityId && { entityId: query.entityId }),
+      ...(query.userId && { userId: query.userId }),
+      ...((query.from || query.to) && {
+        createdAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        },
+      }),
+    };
+
+    const [items, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              brandMemberships: { where: { brandId }, select: { id: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit,
+        skip: query.offset,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      items: items.map(({ user, ...item }) => {
+        if (!user) {
+          return { ...item, user };
+        }
+        const { brandMemberships, ...actor } = user;
+        const visible = item.brandId !== null || brandMemberships.length > 0;
+        return { ...item, user: { ...actor, email: visible ? actor.email : null } };
+      }),
+      total,
+    };
+  }
+
+  private sanitize(value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    // Round-trip through JSON so Dates and Decimals become plain values
+    return JSON.parse(JSON.stringify(value), (key, val) =>
+      SENSITIVE_KEYS.includes(key) ? undefined : val
+    );
+  }
+
+  private diff(oldValue: JsonRecord, newValue: JsonRecord): [JsonRecord, JsonRecord] {
+    const before: JsonRecord = {};
+    const after: JsonRecord = {};
+
+    for (const key of Object.keys(newValue)) {
+      if (key === 'updatedAt') continue;
+      if (JSON.stringify(oldValue[key]) !== JSON.stringify(newValue[key])) {
+        before[key] = oldValue[key] ?? null;
+        after[key] = newValue[key];
+      }
+    }
+
+    return [before, after];
+  }
+
+  private isRecord(value: unknown): value is JsonRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+export const auditService = new AuditService();
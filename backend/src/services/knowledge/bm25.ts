@@ -0,0 +1,94 @@
+/**
+ * Small in-memory Okapi BM25 index. Good enough for a few thousand knowledge base
+ * chunks per brand without an external search engine.
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has',
+  'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the',
+  'their', 'there', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+// Crude suffix stripping so "plans" matches "plan" and "integrations" matches "integration"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}$.%]+/gu, ' ')
+    .split(/\s+/)
+    .map((token) => token.replace(/^[.]+|[.]+$/g, ''))
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+export interface Bm25Hit<T> {
+  doc: T;
+  score: number;
+}
+
+export class Bm25Index<T> {
+  private docs: Array<{ doc: T; length: number; terms: Map<string, number> }> = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(entries: Array<{ doc: T; text: string }>) {
+    for (const { doc, text } of entries) {
+      const tokens = tokenize(text);
+      const terms = new Map<string, number>();
+      for (const token of tokens) {
+        terms.set(token, (terms.get(token) || 0) + 1);
+      }
+      for (const term of terms.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+      this.docs.push({ doc, length: tokens.length, terms });
+    }
+
+    const totalLength = this.docs.reduce((sum, d) => sum + d.length, 0);
+    this.averageLength = this.docs.length > 0 ? totalLength / this.docs.length : 0;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  search(query: string, limit: number): Bm25Hit<T>[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.docs.length === 0) {
+      return [];
+    }
+
+    const n = this.docs.length;
+    const hits: Bm25Hit<T>[] = [];
+
+    for (const { doc, length, terms } of this.docs) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = terms.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const df = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * (length / this.averageLength)));
+      }
+      if (score > 0) {
+        hits.push({ doc, score });
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,128 @@
+import { KnowledgeDocumentKind } from '@prisma/client';
+
+export interface DocumentChunk {
+  heading: string | null;
+  content: string;
+}
+
+// Small enough that a handful fit in a prompt, large enough to keep a fact with its context
+const MAX_CHUNK_WORDS = 150;
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Split a document into retrievable chunks. FAQ entries become one chunk per question;
+ * everything else is split by markdown heading, then packed paragraph by paragraph.
+ * Tables stay whole so a price or spec is never separated from its row.
+ */
+export function chunkDocument(kind: KnowledgeDocumentKind, content: string): DocumentChunk[] {
+  const text = content.replace(/\r\n?/g, '\n').trim();
+  if (!text) {
+    return [];
+  }
+
+  if (kind === 'faq' && /^\s*Q:/im.test(text)) {
+    return chunkQuestions(text);
+  }
+  return chunkSections(text);
+}
+
+// "Q: ..." / "A: ..." pairs; anything before the first question is kept as its own chunk
+function chunkQuestions(text: string): DocumentChunk[] {
+  return text
+    .split(/^(?=\s*Q:)/im)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const question = entry.match(/^Q:\s*(.+)$/im);
+      if (!question) {
+        return packParagraphs(null, entry);
+      }
+      const answer = entry.slice(question.index! + question[0].length).replace(/^\s*A:\s*/i, '').trim();
+      return packParagraphs(question[1].trim(), answer || question[1].trim());
+    });
+}
+
+function chunkSections(text: string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const path: string[] = [];
+  let body: string[] = [];
+
+  const flush = () => {
+    const section = body.join('\n').trim();
+    if (section) {
+      chunks.push(...packParagraphs(path.filter(Boolean).join(' › ') || null, section));
+    }
+    body = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      path.length = level;
+      path[level - 1] = heading[2];
+    } else {
+      body.push(line);
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+function packParagraphs(heading: string | null, section: string): DocumentChunk[] {
+  const blocks = section
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .flatMap((block) => (isTable(block) ? [block] : splitLongBlock(block)));
+
+  const chunks: DocumentChunk[] = [];
+  let current: string[] = [];
+  let words = 0;
+
+  for (const block of blocks) {
+    const blockWords = wordCount(block);
+    if (current.length > 0 && words + blockWords > MAX_CHUNK_WORDS) {
+      chunks.push({ heading, content: current.join('\n\n') });
+      current = [];
+      words = 0;
+    }
+    current.push(block);
+    words += blockWords;
+  }
+  if (current.length > 0) {
+    chunks.push({ heading, content: current.join('\n\n') });
+  }
+
+  return chunks;
+}
+
+function isTable(block: string): boolean {
+  return block.split('\n').every((line) => line.trim().startsWith('|'));
+}
+
+// Paragraphs over the limit are split at sentence boundaries
+function splitLongBlock(block: string): string[] {
+  if (wordCount(block) <= MAX_CHUNK_WORDS) {
+    return [block];
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of block.match(/[^.!?]+[.!?]*\s*/g) || [block]) {
+    if (current && wordCount(current) + wordCount(sentence) > MAX_CHUNK_WORDS) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
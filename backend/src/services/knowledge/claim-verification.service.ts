@@ -0,0 +1,57 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { AIConfig, AIService, VerifiedClaim } from '../ai/ai.service';
+import { getBrandContext } from '../ai/generation-context';
+import { AIUsageContext } from '../ai/usage.service';
+import { knowledgeService } from './knowledge.service';
+
+export interface ClaimCheck {
+  text: string; // The draft text that was checked
+  claims: VerifiedClaim[];
+  checkedAt: string;
+}
+
+export class ClaimVerificationService {
+  private aiService = new AIService();
+
+  /**
+   * Verify the claims in `text` against the brand's facts and store the result on
+   * the engagement item
+   */
+  async check(
+    itemId: string,
+    brandId: string,
+    text: string,
+    config?: AIConfig,
+    usage?: AIUsageContext
+  ): Promise<ClaimCheck> {
+    const brand = await getBrandContext(brandId);
+    if (!brand) {
+      throw new Error('Brand settings required to verify claims. Please configure the brand in Brand Settings.');
+    }
+
+    const [competitors, knowledge] = await Promise.all([
+      prisma.competitor.findMany({
+        where: { brandId },
+        select: { name: true, notes: true },
+      }),
+      knowledgeService.retrieve(brandId, text),
+    ]);
+
+    const claims = await this.aiService.verifyClaims({ draft: text, brand, competitors, knowledge, config, usage });
+    const check: ClaimCheck = { text, claims, checkedAt: new Date().toISOString() };
+
+    await prisma.engagementItem.update({
+      where: { id: itemId },
+      data: { claimCheck: check as unknown as Prisma.InputJsonValue },
+    });
+
+    return check;
+  }
+
+  contradicted(check: ClaimCheck | null): VerifiedClaim[] {
+    return check?.claims.filter((claim) => claim.status === 'contradicted') || [];
+  }
+}
+
+export const claimVerificationService = new ClaimVerificationService();
@@ -0,0 +1,117 @@
+import { KnowledgeDocument, KnowledgeDocumentKind } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { logger } from '../../utils/logger';
+import { KnowledgeSnippet } from '../ai/ai.service';
+import { Bm25Index } from './bm25';
+import { chunkDocument } from './chunking';
+
+export interface KnowledgeDocumentInput {
+  title: string;
+  kind: KnowledgeDocumentKind;
+  content: string;
+}
+
+type IndexedChunk = Omit<KnowledgeSnippet, 'score'>;
+
+const DEFAULT_LIMIT = 5;
+
+// Hits scoring below this share of the best hit are too weak to put in a prompt
+const MIN_RELATIVE_SCORE = 0.25;
+
+export class KnowledgeService {
+  // Built lazily per brand and rebuilt when the brand's documents change
+  private indexes = new Map<string, { stamp: string; index: Bm25Index<IndexedChunk> }>();
+
+  async createDocument(brandId: string, input: KnowledgeDocumentInput, userId?: string): Promise<KnowledgeDocument> {
+    const chunks = chunkDocument(input.kind, input.content);
+
+    return prisma.knowledgeDocument.create({
+      data: {
+        ...input,
+        brandId,
+        createdById: userId,
+        chunks: {
+          create: chunks.map((chunk, position) => ({ ...chunk, position })),
+        },
+      },
+    });
+  }
+
+  async updateDocument(id: string, input: Partial<KnowledgeDocumentInput>): Promise<KnowledgeDocument> {
+    const existing = await prisma.knowledgeDocument.findUniqueOrThrow({ where: { id } });
+    const kind = input.kind ?? existing.kind;
+    const content = input.content ?? existing.content;
+    const chunks = chunkDocument(kind, content);
+
+    const [, updated] = await prisma.$transaction([
+      prisma.knowledgeChunk.deleteMany({ where: { documentId: id } }),
+      prisma.knowledgeDocument.update({
+        where: { id },
+        data: {
+          ...input,
+          chunks: {
+            create: chunks.map((chunk, position) => ({ ...chunk, position })),
+          },
+        },
+      }),
+    ]);
+    return updated;
+  }
+
+  /**
+   * The brand's knowledge base chunks most relevant to `query`, best first
+   */
+  async retrieve(brandId: string, query: string, limit = DEFAULT_LIMIT): Promise<KnowledgeSnippet[]> {
+    try {
+      const index = await this.getIndex(brandId);
+      const hits = index.search(query, limit);
+      const best = hits[0]?.score || 0;
+
+      return hits
+        .filter((hit) => hit.score >= best * MIN_RELATIVE_SCORE)
+        .map((hit) => ({ ...hit.doc, score: Math.round(hit.score * 100) / 100 }));
+    } catch (error) {
+      // Drafts are still useful without grounding; don't fail generation over retrieval
+      logger.error(`Knowledge retrieval failed for brand ${brandId}:`, error);
+      return [];
+    }
+  }
+
+  private async getIndex(brandId: string): Promise<Bm25Index<IndexedChunk>> {
+    const { _count, _max } = await prisma.knowledgeDocument.aggregate({
+      where: { brandId },
+      _count: true,
+      _max: { updatedAt: true },
+    });
+    const stamp = `${_count}:${_max.updatedAt?.getTime() ?? 0}`;
+
+    const cached = this.indexes.get(brandId);
+    if (cached && cached.stamp === stamp) {
+      return cached.index;
+    }
+
+    const chunks = await prisma.knowledgeChunk.findMany({
+      where: { document: { brandId } },
+      include: { document: { select: { title: true } } },
+      orderBy: [{ documentId: 'asc' }, { position: 'asc' }],
+    });
+
+    // Headings and titles are indexed with the text so "pricing" finds the Pricing section
+    const index = new Bm25Index(chunks.map((chunk) => ({
+      doc: {
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        title: chunk.document.title,
+        heading: chunk.heading,
+        content: chunk.content,
+      },
+      text: [chunk.document.title, chunk.heading, chunk.content].filter(Boolean).join('\n'),
+    })));
+
+    this.indexes.set(brandId, { stamp, index });
+    logger.debug(`Indexed ${index.size} knowledge chunks for brand ${brandId}`);
+    return index;
+  }
+}
+
+export const knowledgeService = new KnowledgeService();
@@ -0,0 +1,424 @@
+import { Persona, PersonaGuidelineProposal, Prisma } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { logger } from '../../utils/logger';
+import { AIService } from '../ai/ai.service';
+import { aiUsageService } from '../ai/usage.service';
+import { guidelineProposalSchema } from '../ai/schemas';
+
+export type GuidelineFindingKind = 'banned_phrase' | 'length' | 'sign_off' | 'formatting';
+
+export interface GuidelineFinding {
+  kind: GuidelineFindingKind;
+  description: string;
+  occurrences: number; // Edits that showed this correction
+  examples: string[];
+}
+
+export interface EditPair {
+  draft: string;
+  final: string;
+  commentScore?: number | null;
+}
+
+export type ProposalOutcome =
+  | { proposal: PersonaGuidelineProposal }
+  | { skipped: string };
+
+// Fewer edits than this are too noisy to learn from
+const MIN_SAMPLES = parseInt(process.env.PERSONA_LEARNING_MIN_SAMPLES || '5', 10);
+const MAX_SAMPLES = 50;
+
+// A correction has to show up in this share of edits (and at least twice) to count as recurring
+const RECURRENCE_SHARE = 0.3;
+
+const MAX_PHRASES = 8;
+const MAX_PHRASE_WORDS = 12;
+const MAX_EXAMPLES = 5;
+const NEW_EXAMPLES = 3;
+
+// A draft is consistently shortened or lengthened when the median ratio passes these
+const SHORTEN_RATIO = 0.8;
+const LENGTHEN_RATIO = 1.2;
+
+// Last sentences longer than this are content, not a sign-off
+const MAX_SIGN_OFF_WORDS = 12;
+
+const FORMATTING: Array<{ label: string; pattern: RegExp }> = [
+  { label: 'bullet or numbered lists', pattern: /^\s*(?:[-*+]|\d+\.)\s+/m },
+  { label: 'bold text', pattern: /\*\*[^*]+\*\*|__[^_]+__/ },
+  { label: 'headings', pattern: /^#{1,6}\s/m },
+  { label: 'links', pattern: /\[[^\]]+\]\([^)]+\)|https?:\/\//i },
+  { label: 'exclamation marks', pattern: /!(?!\[)/ },
+  { label: 'emoji', pattern: /\p{Extended_Pictographic}/u },
+];
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}'\s]/gu, ' ').split(/\s+/).filter(Boolean);
+}
+
+function normalize(text: string): string {
+  return words(text).join(' ');
+}
+
+function sentences(text: string): string[] {
+  return (text.trim().match(/[^.!?\n]+[.!?]*/g) || []).map((s) => s.trim()).filter(Boolean);
+}
+
+// Phrases stop at clause punctuation, so "tools, I think" is never one phrase
+function clauses(text: string): string[][] {
+  return text.split(/[.!?;:,()\n\u2013\u2014]+|\s-+\s/).map(words).filter((tokens) => tokens.length > 0);
+}
+
+/**
+ * Runs of draft words the reviewer deleted, from a word-level diff of the two texts.
+ * Adjacent deleted words form one run; runs never cross clause punctuation.
+ */
+function removedRuns(draft: string, final: string): string[][] {
+  const draftClauses = clauses(draft);
+  const draftTokens = draftClauses.flat();
+  const finalTokens = words(final);
+  const n = draftTokens.length;
+  const m = finalTokens.length;
+
+  // Longest common subsequence table, filled from the end
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = draftTokens[i] === finalTokens[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const kept = new Array<boolean>(n).fill(false);
+  for (let i = 0, j = 0; i < n && j < m;) {
+    if (draftTokens[i] === finalTokens[j]) {
+      kept[i++] = true;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  const runs: string[][] = [];
+  let offset = 0;
+  for (const clause of draftClauses) {
+    let run: string[] = [];
+    clause.forEach((token, k) => {
+      if (kept[offset + k]) {
+        if (run.length > 0) runs.push(run);
+        run = [];
+      } else {
+        run.push(token);
+      }
+    });
+    if (run.length > 0) runs.push(run);
+    offset += clause.length;
+  }
+  return runs;
+}
+
+function bigrams(phrase: string): string[] {
+  const tokens = phrase.split(' ');
+  return tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`);
+}
+
+function lastSentence(text: string): string {
+  const all = sentences(text);
+  return all[all.length - 1] || '';
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function toStringArray(value: Prisma.JsonValue): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+export class GuidelineLearningService {
+  private aiService = new AIService();
+
+  /**
+   * Find corrections reviewers make again and again when editing drafts:
+   * phrases they delete, how much they cut or add, sign-offs they drop and
+   * formatting they strip or introduce.
+   */
+  mineCorrections(pairs: EditPair[]): GuidelineFinding[] {
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    const threshold = Math.max(2, Math.ceil(pairs.length * RECURRENCE_SHARE));
+    const findings: GuidelineFinding[] = [];
+
+    // Length
+    const draftLengths = pairs.map((p) => words(p.draft).length);
+    const finalLengths = pairs.map((p) => words(p.final).length);
+    const ratios = pairs.map((_, i) => (draftLengths[i] ? finalLengths[i] / draftLengths[i] : 1));
+    const ratio = median(ratios);
+    const targetWords = Math.round(median(finalLengths) / 10) * 10;
+    if (ratio < SHORTEN_RATIO && ratios.filter((r) => r < SHORTEN_RATIO).length >= threshold) {
+      findings.push({
+        kind: 'length',
+        description: `Reviewers cut drafts to about ${Math.round(ratio * 100)}% of their length; aim for around ${targetWords} words`,
+        occurrences: ratios.filter((r) => r < SHORTEN_RATIO).length,
+        examples: [],
+      });
+    } else if (ratio > LENGTHEN_RATIO && ratios.filter((r) => r > LENGTHEN_RATIO).length >= threshold) {
+      findings.push({
+        kind: 'length',
+        description: `Reviewers expand drafts to about ${Math.round(ratio * 100)}% of their length; aim for around ${targetWords} words`,
+        occurrences: ratios.filter((r) => r > LENGTHEN_RATIO).length,
+        examples: [],
+      });
+    }
+
+    // Sign-offs: a short closing sentence that the reviewer deleted
+    const droppedSignOffs = pairs
+      .map((p) => lastSentence(p.draft))
+      .filter((sentence, i) => {
+        const count = words(sentence).length;
+        return count > 0 && count <= MAX_SIGN_OFF_WORDS && !normalize(pairs[i].final).includes(normalize(sentence));
+      });
+    if (droppedSignOffs.length >= threshold) {
+      findings.push({
+        kind: 'sign_off',
+        description: 'Reviewers remove closing sign-off lines; end on the last substantive point instead',
+        occurrences: droppedSignOffs.length,
+        examples: [...new Set(droppedSignOffs)].slice(0, 3),
+      });
+    }
+
+    // Phrases deleted in many edits; anything from a dropped sign-off is already covered above
+    const signOffs = droppedSignOffs.map((sentence) => ` ${normalize(sentence)} `);
+    for (const [phrase, count] of this.removedPhrases(pairs, threshold)) {
+      if (signOffs.some((signOff) => signOff.includes(` ${phrase} `))) continue;
+      findings.push({
+        kind: 'banned_phrase',
+        description: `Avoid "${phrase}" (removed in ${count} of ${pairs.length} edits)`,
+        occurrences: count,
+        examples: [phrase],
+      });
+    }
+
+    // Formatting
+    for (const { label, pattern } of FORMATTING) {
+      const removed = pairs.filter((p) => pattern.test(p.draft) && !pattern.test(p.final)).length;
+      const added = pairs.filter((p) => !pattern.test(p.draft) && pattern.test(p.final)).length;
+      if (removed >= threshold) {
+        findings.push({ kind: 'formatting', description: `Don't use ${label}`, occurrences: removed, examples: [] });
+      } else if (added >= threshold) {
+        findings.push({ kind: 'formatting', description: `Use ${label} where it helps`, occurrences: added, examples: [] });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Phrases deleted in at least `threshold` edits. Each edit's deleted runs of words are
+   * broken into phrases of two or more words; the most recurring (then longest) phrases
+   * win, and a phrase sharing words in sequence with one already picked is dropped, so
+   * the result reads "as someone who has tried many tools" rather than a pile of
+   * overlapping fragments.
+   */
+  private removedPhrases(pairs: EditPair[], threshold: number): Array<[string, number]> {
+    // Each edit counts a phrase once
+    const counts = new Map<string, number>();
+    for (const pair of pairs) {
+      const phrases = new Set<string>();
+      for (const run of removedRuns(pair.draft, pair.final)) {
+        for (let length = 2; length <= Math.min(run.length, MAX_PHRASE_WORDS); length++) {
+          for (let j = 0; j + length <= run.length; j++) {
+            phrases.add(run.slice(j, j + length).join(' '));
+          }
+        }
+      }
+      phrases.forEach((phrase) => counts.set(phrase, (counts.get(phrase) || 0) + 1));
+    }
+
+    const ranked = [...counts.entries()]
+      .filter(([, count]) => count >= threshold)
+      .sort((a, b) => b[1] - a[1] || b[0].split(' ').length - a[0].split(' ').length);
+
+    const phrases: Array<[string, number]> = [];
+    const covered = new Set<string>();
+    for (const [phrase, count] of ranked) {
+      const pieces = bigrams(phrase);
+      if (pieces.some((piece) => covered.has(piece))) continue;
+
+      pieces.forEach((piece) => covered.add(piece));
+      phrases.push([phrase, count]);
+      if (phrases.length >= MAX_PHRASES) break;
+    }
+    return phrases;
+  }
+
+  /**
+   * Propose guideline updates for every persona with enough new reviewer edits.
+   */
+  async proposeAll(): Promise<{ personas: number; proposed: number }> {
+    const personas = await prisma.persona.findMany();
+    let proposed = 0;
+
+    for (const persona of personas) {
+      try {
+        // Scheduled learning pauses once the brand has spent its monthly AI budget
+        if (await aiUsageService.isOverBudget(persona.brandId)) {
+          logger.debug(`Persona learning skipped ${persona.id}: brand ${persona.brandId} has reached its monthly AI budget`);
+          continue;
+        }
+        const outcome = await this.proposeForPersona(persona);
+        if ('proposal' in outcome) {
+          proposed++;
+        } else {
+          logger.debug(`Persona learning skipped ${persona.id}: ${outcome.skipped}`);
+        }
+      } catch (error) {
+        logger.error(`Persona learning failed for persona ${persona.id}:`, error);
+      }
+    }
+
+    return { personas: personas.length, proposed };
+  }
+
+  /**
+   * Mine the persona's edited, published drafts since its last proposal and store
+   * a pending proposal when recurring corrections turn up.
+   */
+  async proposeForPersona(persona: Persona): Promise<ProposalOutcome> {
+    const pending = await prisma.personaGuidelineProposal.findFirst({
+      where: { personaId: persona.id, status: 'pending' },
+      select: { id: true },
+    });
+    if (pending) {
+      return { skipped: 'A proposal is already waiting for review' };
+    }
+
+    // Only learn from edits the previous proposal hasn't seen
+    const last = await prisma.personaGuidelineProposal.findFirst({
+      where: { personaId: persona.id },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+
+    const items = await prisma.engagementItem.findMany({
+      where: {
+        status: 'published',
+        assignedAccount: { personaId: persona.id },
+        draftResponse: { not: null },
+        editedResponse: { not: null },
+        ...(last && { publishedAt: { gt: last.createdAt } }),
+      },
+      select: { draftResponse: true, editedResponse: true, commentScore: true },
+      orderBy: { publishedAt: 'desc' },
+      take: MAX_SAMPLES,
+    });
+
+    const pairs: EditPair[] = items
+      .filter((item) => item.editedResponse!.trim() !== item.draftResponse!.trim())
+      .map((item) => ({ draft: item.draftResponse!, final: item.editedResponse!, commentScore: item.commentScore }));
+
+    if (pairs.length < MIN_SAMPLES) {
+      return { skipped: `Only ${pairs.length} edited published drafts since the last proposal; at least ${MIN_SAMPLES} are needed` };
+    }
+
+    const findings = this.mineCorrections(pairs);
+    if (findings.length === 0) {
+      return { skipped: 'No recurring corrections found in reviewer edits' };
+    }
+
+    const proposedGuidelines = await this.writeGuidelines(persona, findings, pairs);
+    const proposedExamples = this.pickExamples(persona, pairs);
+
+    const proposal = await prisma.personaGuidelineProposal.create({
+      data: {
+        personaId: persona.id,
+        currentGuidelines: persona.writingGuidelines,
+        proposedGuidelines,
+        proposedExamples,
+        findings: findings as unknown as Prisma.InputJsonValue,
+        sampleSize: pairs.length,
+      },
+    });
+
+    logger.info(`Proposed guideline update for persona ${persona.id} from ${pairs.length} edits (${findings.length} findings)`);
+    return { proposal };
+  }
+
+  /**
+   * Have the model fold the findings into the existing guidelines. Falls back to
+   * appending them as a list when no provider is available.
+   */
+  private async writeGuidelines(persona: Persona, findings: GuidelineFinding[], pairs: EditPair[]): Promise<string> {
+    const current = persona.writingGuidelines?.trim() || '';
+    const samples = pairs.slice(0, 3)
+      .map((p, i) => `--- Edit ${i + 1} ---\nAI DRAFT:\n${p.draft}\n\nPUBLISHED:\n${p.final}`)
+      .join('\n\n');
+
+    const prompt = `
+You maintain the writing guidelines for a Reddit persona. Reviewers keep making the same corrections to AI drafts; update the guidelines so future drafts need fewer edits.
+
+PERSONA: ${persona.name}
+TONE: ${persona.toneOfVoice}
+
+CURRENT GUIDELINES:
+${current || 'None specified'}
+
+RECURRING CORRECTIONS:
+${findings.map((f) => `- ${f.description}`).join('\n')}
+
+SAMPLE EDITS:
+${samples}
+
+Keep every current guideline that the corrections don't contradict, merge in the corrections as short DO / DON'T rules, and keep the result under 200 words.
+
+Respond ONLY with valid JSON (no markdown, no code blocks):
+{
+  "writing_guidelines": "The full updated guidelines",
+  "summary": "One sentence on what changed"
+}
+    `.trim();
+
+    try {
+      const { data } = await this.aiService.completeStructured(
+        prompt,
+        guidelineProposalSchema,
+        undefined,
+        { feature: 'persona_learning', brandId: persona.brandId }
+      );
+      return data.writing_guidelines.trim();
+    } catch (error) {
+      logger.warn(`Could not rewrite guidelines for persona ${persona.id}, appending findings instead:`, error);
+      const learned = `Learned from reviewer edits:\n${findings.map((f) => `- ${f.description}`).join('\n')}`;
+      return current ? `${current}\n\n${learned}` : learned;
+    }
+  }
+
+  // The best-received published versions become new examples, ahead of the existing ones
+  private pickExamples(persona: Persona, pairs: EditPair[]): string[] {
+    const existing = toStringArray(persona.exampleResponses);
+    const fresh = [...pairs]
+      .sort((a, b) => (b.commentScore ?? 0) - (a.commentScore ?? 0))
+      .map((p) => p.final.trim())
+      .filter((text) => !existing.includes(text))
+      .slice(0, NEW_EXAMPLES);
+
+    return [...fresh, ...existing].slice(0, MAX_EXAMPLES);
+  }
+}
+
+// Singleton instance
+let learningInstance: GuidelineLearningService | null = null;
+
+export function getGuidelineLearningService(): GuidelineLearningService {
+  if (!learningInstance) {
+    learningInstance = new GuidelineLearningService();
+  }
+  return learningInstance;
+}
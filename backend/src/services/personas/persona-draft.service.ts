@@ -0,0 +1,153 @@
+import { RedditAccount } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { ValidationError } from '../../api/middleware/errorHandler';
+import { AIConfig, AIService } from '../ai/ai.service';
+import { personaDraftSchema } from '../ai/schemas';
+import { RedditService, RedditUserComment } from '../reddit/reddit.service';
+
+export interface PersonaDraft {
+  name: string;
+  description: string;
+  toneOfVoice: string;
+  characterTraits: string[];
+  expertiseAreas: string[];
+  goals: string[];
+  backgroundStory: string;
+  writingGuidelines: string;
+  exampleResponses: string[];
+  commentCount: number; // Comments the draft was based on
+  subreddits: string[];
+}
+
+// Too few comments don't show a consistent voice
+const MIN_COMMENTS = 10;
+const MAX_COMMENTS = 60;
+const MAX_COMMENT_CHARS = 600;
+
+// One-liners say little about how the account writes
+const MIN_EXAMPLE_WORDS = 15;
+const MIN_EXAMPLES = 3;
+const MAX_EXAMPLES = 5;
+
+function wordCount(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+export class PersonaDraftService {
+  private aiService = new AIService();
+  private redditService = new RedditService();
+
+  /**
+   * Draft persona fields from the account's recent public comments. Nothing is saved;
+   * the caller reviews and edits the draft before creating the persona.
+   */
+  async draftFromAccount(account: RedditAccount, userId?: string, config?: AIConfig): Promise<PersonaDraft> {
+    const comments = (await this.redditService.getUserComments(account.username))
+      .filter((comment) => wordCount(comment.body) >= 3)
+      .slice(0, MAX_COMMENTS);
+
+    if (comments.length < MIN_COMMENTS) {
+      throw new ValidationError(`u/${account.username} has ${comments.length} usable public comments; at least ${MIN_COMMENTS} are needed`);
+    }
+
+    const subreddits = this.topSubreddits(comments);
+    const brand = account.brandId
+      ? await prisma.brand.findUnique({ where: { id: account.brandId }, select: { redactPii: true } })
+      : null;
+    // Comments are labelled by number so the model can point back at its examples
+    const numbered = this.aiService.formatUntrustedPost(Object.fromEntries(comments.map((comment, i) => [
+      `[${i + 1}] r/${comment.subreddit} (score ${comment.score})`,
+      comment.body.slice(0, MAX_COMMENT_CHARS),
+    ])), brand, config);
+
+    const prompt = `
+You are building a persona profile that captures how a Reddit user writes, so AI drafts can match their voice. Describe the voice as it is, not as it should be.
+
+ACCOUNT: u/${account.username}
+MOST ACTIVE IN: ${subreddits.map((s) => `r/${s}`).join(', ')}
+
+RECENT COMMENTS:
+${numbered}
+
+Base every field on the comments above. Writing guidelines should be short DO / DON'T rules about length, formatting, punctuation, slang and sign-offs. Pick ${MIN_EXAMPLES}-${MAX_EXAMPLES} comments that best represent the voice and list their numbers in example_indices.
+
+Respond ONLY with valid JSON (no markdown, no code blocks):
+{
+  "name": "Short persona name",
+  "description": "One sentence on who this persona is",
+  "tone_of_voice": "How they sound",
+  "character_traits": ["trait"],
+  "expertise_areas": ["topic"],
+  "goals": ["What they seem to want from their comments"],
+  "background_story": "Background the comments reveal, or empty",
+  "writing_guidelines": "- DO ...\\n- DON'T ...",
+  "example_indices": [1, 2, 3]
+}
+    `.trim();
+
+    const { data } = await this.aiService.completeStructured(
+      prompt,
+      personaDraftSchema,
+      config,
+      { feature: 'persona_bootstrap', brandId: account.brandId, userId }
+    );
+
+    return {
+      name: data.name.trim(),
+      description: data.description.trim(),
+      toneOfVoice: data.tone_of_voice.trim(),
+      characterTraits: data.character_traits,
+      expertiseAreas: data.expertise_areas,
+      goals: data.goals,
+      backgroundStory: data.background_story.trim(),
+      writingGuidelines: data.writing_guidelines.trim(),
+      exampleResponses: this.pickExamples(comments, data.example_indices),
+      commentCount: comments.length,
+      subreddits,
+    };
+  }
+
+  private topSubreddits(comments: RedditUserComment[]): string[] {
+    const counts = new Map<string, number>();
+    for (const comment of comments) {
+      counts.set(comment.subreddit, (counts.get(comment.subreddit) || 0) + 1);
+    }
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([subreddit]) => subreddit);
+  }
+
+  // Examples are the account's own words: the model only picks which comments, then
+  // the best-scored substantial comments fill any gap
+  private pickExamples(comments: RedditUserComment[], indices: number[]): string[] {
+    const picked = [...new Set(indices)]
+      .map((i) => comments[i - 1])
+      .filter((comment): comment is RedditUserComment => !!comment);
+
+    const fallback = [...comments]
+      .filter((comment) => wordCount(comment.body) >= MIN_EXAMPLE_WORDS)
+      .sort((a, b) => b.score - a.score);
+
+    const examples = [...new Set(picked.map((comment) => comment.body.trim()))].slice(0, MAX_EXAMPLES);
+    for (const comment of fallback) {
+      if (examples.length >= MIN_EXAMPLES) {
+        break;
+      }
+      if (!examples.includes(comment.body.trim())) {
+        examples.push(comment.body.trim());
+      }
+    }
+    return examples;
+  }
+}
+
+// Singleton instance
+let draftInstance: PersonaDraftService | null = null;
+
+export function getPersonaDraftService(): PersonaDraftService {
+  if (!draftInstance) {
+    draftInstance = new PersonaDraftService();
+  }
+  return draftInstance;
+}
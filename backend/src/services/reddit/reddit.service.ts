@@ -31,6 +31,66 @@ interface RedditPost {
   num_comments: number;
 }
 
+// Reddit's Listing wrapper; children are tagged t1 for comments and t3 for posts
+interface RedditListing<T> {
+  data?: {
+    children?: Array<{ kind: string; data: T }>;
+  };
+}
+
+interface RedditCommentData {
+  id: string;
+  body: string;
+  score?: number;
+  replies?: RedditListing<RedditCommentData> | ''; // Empty string when there are no replies
+}
+
+export interface RedditCommentMetrics {
+  score: number;
+  replyCount: number;
+}
+
+export interface RedditUserComment {
+  id: string;
+  body: string;
+  subreddit: string;
+  score: number;
+  permalink: string;
+  created_utc: number;
+}
+
+export interface RedditSubredditRule {
+  short_name: string;
+  description: string;
+  kind: 'link' | 'comment' | 'all';
+}
+
+interface RedditRulesResponse {
+  rules?: Partial<RedditSubredditRule>[];
+}
+
+interface RedditAboutResponse {
+  data?: {
+    description?: string;
+    public_description?: string;
+  };
+}
+
+interface RedditUserAboutResponse {
+  data?: Partial<RedditUserResponse>;
+}
+
+export interface RedditSubredditInfo {
+  rules: RedditSubredditRule[];
+  sidebar: string; // Sidebar markdown, where communities often state karma or age limits
+  publicDescription: string;
+}
+
+export interface RedditUserStanding {
+  karma: number;
+  accountAgeDays: number | null; // Null when Reddit leaves out the creation date
+}
+
 export class RedditService {
   private clientId = process.env.REDDIT_CLIENT_ID!;
   private clientSecret = process.env.REDDIT_CLIENT_SECRET!;
@@ -417,6 +477,136 @@ export class RedditService {
     return data.data.children.map((child: { data: RedditPost }) => child.data);
   }
 
+  /**
+   * Fetch the current score and direct reply count of a published comment.
+   * Returns null when the comment no longer exists or has been removed.
+   */
+  async getCommentMetrics(postId: string, commentId: string): Promise<RedditCommentMetrics | null> {
+    const response = await this.getPublic(`/comments/${postId}/_/${commentId}.json?depth=1&limit=500&raw_json=1`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch comment metrics: ${response.status}`);
+    }
+
+    // Response is [post listing, comment listing]; the comment listing holds our comment
+    const data = await response.json() as RedditListing<RedditCommentData>[];
+    const comment = data?.[1]?.data?.children?.find(
+      (child) => child.kind === 't1' && child.data.id === commentId
+    )?.data;
+
+    if (!comment || comment.body === '[removed]' || comment.body === '[deleted]') {
+      return null;
+    }
+
+    const replies = (comment.replies && comment.replies.data?.children) || [];
+
+    return {
+      score: comment.score ?? 0,
+      replyCount: replies.filter((child) => child.kind === 't1').length,
+    };
+  }
+
+  /**
+   * Fetch a user's most recent public comments, newest first. Removed and deleted
+   * comments are left out.
+   */
+  async getUserComments(username: string, limit = 100): Promise<RedditUserComment[]> {
+    const response = await this.getPublic(
+      `/user/${encodeURIComponent(username)}/comments.json?sort=new&limit=${Math.min(limit, 100)}&raw_json=1`
+    );
+
+    if (response.status === 404 || response.status === 403) {
+      throw new Error(`Comment history for u/${username} is not available (${response.status})`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch comments for u/${username}: ${response.status}`);
+    }
+
+    const data = await response.json() as RedditListing<RedditUserComment>;
+    const comments = (data?.data?.children || [])
+      .filter((child) => child.kind === 't1')
+      .map((child) => child.data);
+
+    return comments.filter((comment) => comment.body && comment.body !== '[removed]' && comment.body !== '[deleted]');
+  }
+
+  // GET a public JSON endpoint, through the script token when one is configured
+  private async getPublic(path: string): Promise<Response> {
+    const accessToken = await this.getScriptAccessToken();
+
+    return accessToken
+      ? fetch(`https://oauth.reddit.com${path}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'User-Agent': this.userAgent,
+        },
+      })
+      : fetch(`https://www.reddit.com${path}`, {
+        headers: {
+          'User-Agent': this.userAgent,
+        },
+      });
+  }
+
+  /**
+   * Fetch a subreddit's posted rules and sidebar
+   */
+  async getSubredditInfo(subreddit: string): Promise<RedditSubredditInfo> {
+    const name = encodeURIComponent(subreddit.replace(/^r\//, ''));
+    const [rulesResponse, aboutResponse] = await Promise.all([
+      this.getPublic(`/r/${name}/about/rules.json?raw_json=1`),
+      this.getPublic(`/r/${name}/about.json?raw_json=1`),
+    ]);
+
+    for (const response of [rulesResponse, aboutResponse]) {
+      if (response.status === 404 || response.status === 403) {
+        throw new Error(`r/${subreddit} is not available (${response.status})`);
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch rules for r/${subreddit}: ${response.status}`);
+      }
+    }
+
+    const rulesData = await rulesResponse.json() as RedditRulesResponse;
+    const aboutData = await aboutResponse.json() as RedditAboutResponse;
+    const about = aboutData?.data || {};
+
+    return {
+      rules: (rulesData?.rules || []).map((rule) => ({
+        short_name: rule.short_name || '',
+        description: rule.description || '',
+        kind: rule.kind || 'all',
+      })),
+      sidebar: about.description || '',
+      publicDescription: about.public_description || '',
+    };
+  }
+
+  /**
+   * Current karma and account age of a Reddit user
+   */
+  async getUserStanding(username: string): Promise<RedditUserStanding> {
+    const response = await this.getPublic(`/user/${encodeURIComponent(username)}/about.json`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch u/${username}: ${response.status}`);
+    }
+
+    const data = await response.json() as RedditUserAboutResponse;
+    const user = data?.data || {};
+
+    return {
+      karma: (user.link_karma || 0) + (user.comment_karma || 0),
+      accountAgeDays: user.created_utc
+        ? Math.floor((Date.now() - user.created_utc * 1000) / (1000 * 60 * 60 * 24))
+        : null,
+    };
+  }
+
   async postComment(
     account: { id: string; accessToken: string; refreshToken: string; tokenExpiresAt: Date },
     postId: string,
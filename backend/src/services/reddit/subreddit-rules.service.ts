@@ -0,0 +1,223 @@
+import { Prisma, RedditAccount, Subreddit } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { logger } from '../../utils/logger';
+import { AIService } from '../ai/ai.service';
+import { subredditRulesSchema } from '../ai/schemas';
+import { RedditService } from './reddit.service';
+
+export interface SubredditRules {
+  linkPolicy: 'allowed' | 'restricted' | 'forbidden';
+  linkPolicyNotes: string;
+  selfPromotion: 'allowed' | 'limited' | 'forbidden';
+  selfPromotionRatio: number | null; // Largest share of activity that may be self-promotion
+  selfPromotionNotes: string;
+  flairRequired: boolean;
+  otherRules: string[];
+}
+
+export interface AccountRequirementProblem {
+  requirement: 'minKarma' | 'minAccountAgeDays';
+  required: number;
+  actual: number | null;
+}
+
+// Sidebars can be long; the rules that matter are usually near the top
+const MAX_SIDEBAR_CHARS = 6000;
+
+// Rules rarely change; the scheduled sync skips subreddits checked more recently
+const RESYNC_AFTER_DAYS = 7;
+
+export class SubredditRulesService {
+  private aiService = new AIService();
+  private redditService = new RedditService();
+
+  /**
+   * Pull the subreddit's posted rules and sidebar from Reddit and store them as
+   * structured rules. Karma and account age limits found there replace the
+   * hand-entered ones; limits the rules don't mention are kept. AI usage is billed to
+   * `brandId` when a brand asked for the sync.
+   */
+  async sync(subreddit: Subreddit, userId?: string | null, brandId?: string | null): Promise<Subreddit> {
+    try {
+      const info = await this.redditService.getSubredditInfo(subreddit.name);
+
+      const postedRules = info.rules.length > 0
+        ? info.rules.map((rule, i) => `${i + 1}. ${rule.short_name}${rule.description ? `\n${rule.description}` : ''}`).join('\n\n')
+        : 'None posted';
+      // Written by the subreddit's moderators; subreddits are shared, so there is no brand to redact for
+      const subredditText = this.aiService.formatUntrustedPost({
+        Description: info.publicDescription || 'None',
+        'Posted rules': postedRules,
+        Sidebar: info.sidebar.slice(0, MAX_SIDEBAR_CHARS) || 'None',
+      });
+
+      const prompt = `
+Extract the rules that matter for someone commenting in r/${subreddit.name} on behalf of a brand.
+
+SUBREDDIT TEXT:
+${subredditText}
+
+Only report what the text states; use null for limits it doesn't mention.
+
+Respond ONLY with valid JSON (no markdown, no code blocks):
+{
+  "link_policy": "allowed" | "restricted" | "forbidden",
+  "link_policy_notes": "What links are allowed and where, in one sentence",
+  "self_promotion": "allowed" | "limited" | "forbidden",
+  "self_promotion_ratio": "Largest share of a user's activity that may be self-promotion as a decimal (a 10:1 rule is 0.1), or null",
+  "self_promotion_notes": "The self-promotion and disclosure rules, in one or two sentences",
+  "flair_required": true/false,
+  "min_account_age_days": "Minimum account age in days, or null",
+  "min_karma": "Minimum karma, or null",
+  "other_rules": ["Other rules a commenter must follow, one short sentence each"]
+}
+      `.trim();
+
+      const { data } = await this.aiService.completeStructured(prompt, subredditRulesSchema, undefined, {
+        feature: 'subreddit_rules',
+        brandId,
+        userId,
+      });
+
+      const rules: SubredditRules = {
+        linkPolicy: data.link_policy,
+        linkPolicyNotes: data.link_policy_notes,
+        selfPromotion: data.self_promotion,
+        selfPromotionRatio: data.self_promotion_ratio,
+        selfPromotionNotes: data.self_promotion_notes,
+        flairRequired: data.flair_required,
+        otherRules: data.other_rules,
+      };
+
+      return await prisma.subreddit.update({
+        where: { id: subreddit.id },
+        data: {
+          rules: rules as unknown as Prisma.InputJsonValue,
+          minKarma: data.min_karma ?? subreddit.minKarma,
+          minAccountAgeDays: data.min_account_age_days ?? subreddit.minAccountAgeDays,
+          rulesSyncedAt: new Date(),
+          rulesSyncError: null,
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.subreddit.update({
+        where: { id: subreddit.id },
+        data: { rulesSyncError: message },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sync every active subreddit whose rules are missing or older than a week
+   */
+  async syncDue(): Promise<{ due: number; synced: number; failed: number }> {
+    const cutoff = new Date(Date.now() - RESYNC_AFTER_DAYS * 24 * 60 * 60 * 1000);
+    const due = await prisma.subreddit.findMany({
+      where: {
+        isActive: true,
+        OR: [{ rulesSyncedAt: null }, { rulesSyncedAt: { lt: cutoff } }],
+      },
+    });
+
+    let synced = 0;
+    let failed = 0;
+    // One at a time to stay well inside Reddit's rate limits
+    for (const subreddit of due) {
+      try {
+        await this.sync(subreddit);
+        synced++;
+      } catch (error) {
+        failed++;
+        logger.warn(`Failed to sync rules for r/${subreddit.name}:`, error);
+      }
+    }
+
+    return { due: due.length, synced, failed };
+  }
+
+  /**
+   * The subreddit's rules as prompt text, or null when nothing is known about them
+   */
+  async describe(subredditName: string): Promise<string | null> {
+    const subreddit = await this.findByName(subredditName);
+    if (!subreddit) {
+      return null;
+    }
+
+    const rules = subreddit.rules as unknown as SubredditRules | null;
+    const lines: string[] = [];
+
+    if (rules) {
+      lines.push(`- Links: ${rules.linkPolicy}${rules.linkPolicyNotes ? ` (${rules.linkPolicyNotes})` : ''}`);
+      const ratio = rules.selfPromotionRatio ? `, at most ${Math.round(rules.selfPromotionRatio * 100)}% of activity` : '';
+      lines.push(`- Self-promotion: ${rules.selfPromotion}${ratio}${rules.selfPromotionNotes ? ` (${rules.selfPromotionNotes})` : ''}`);
+      if (rules.flairRequired) {
+        lines.push('- Posts require flair');
+      }
+      lines.push(...rules.otherRules.map((rule) => `- ${rule}`));
+    }
+    if (subreddit.selfPromoRules) {
+      lines.push(`- Moderator notes: ${subreddit.selfPromoRules}`);
+    }
+    if (subreddit.minKarma > 0) {
+      lines.push(`- Minimum karma: ${subreddit.minKarma}`);
+    }
+    if (subreddit.minAccountAgeDays > 0) {
+      lines.push(`- Minimum account age: ${subreddit.minAccountAgeDays} days`);
+    }
+
+    return lines.length > 0 ? lines.join('\n') : null;
+  }
+
+  /**
+   * Karma and account age requirements the account falls short of in the subreddit.
+   * The account's standing is refreshed from Reddit first, falling back to the values
+   * stored when it was connected. An account whose age is unknown fails an age requirement.
+   */
+  async checkAccount(subredditName: string, account: RedditAccount): Promise<AccountRequirementProblem[]> {
+    const subreddit = await this.findByName(subredditName);
+    if (!subreddit || (subreddit.minKarma <= 0 && subreddit.minAccountAgeDays <= 0)) {
+      return [];
+    }
+
+    let { karma, accountAgeDays } = account;
+    try {
+      const standing = await this.redditService.getUserStanding(account.username);
+      karma = standing.karma;
+      // A stored age only understates the real one, so it still counts when Reddit leaves the date out
+      accountAgeDays = standing.accountAgeDays ?? accountAgeDays;
+      await prisma.redditAccount.update({
+        where: { id: account.id },
+        data: { karma, accountAgeDays },
+      });
+    } catch (error) {
+      logger.warn(`Using stored karma and age for u/${account.username}:`, error);
+    }
+
+    const problems: AccountRequirementProblem[] = [];
+    if (subreddit.minKarma > 0 && (karma ?? 0) < subreddit.minKarma) {
+      problems.push({ requirement: 'minKarma', required: subreddit.minKarma, actual: karma });
+    }
+    if (subreddit.minAccountAgeDays > 0 && (accountAgeDays ?? 0) < subreddit.minAccountAgeDays) {
+      problems.push({ requirement: 'minAccountAgeDays', required: subreddit.minAccountAgeDays, actual: accountAgeDays });
+    }
+    return problems;
+  }
+
+  private findByName(name: string): Promise<Subreddit | null> {
+    return prisma.subreddit.findFirst({
+      where: { name: { equals: name.replace(/^r\//, ''), mode: 'insensitive' } },
+    });
+  }
+}
+
+let rulesInstance: SubredditRulesService | null = null;
+
+export function getSubredditRulesService(): SubredditRulesService {
+  if (!rulesInstance) {
+    rulesInstance = new SubredditRulesService();
+  }
+  return rulesInstance;
+}
@@ -1,17 +1,26 @@
 import Bull from 'bull';
 import { prisma } from '../../utils/prisma';
 import { getDiscoveryService, DiscoveryService } from '../workflow/discovery.service';
+import { getCommentMetricsService, CommentMetricsService } from '../analytics/comment-metrics.service';
+import { getGuidelineLearningService, GuidelineLearningService } from '../personas/guideline-learning.service';
+import { getSubredditRulesService, SubredditRulesService } from '../reddit/subreddit-rules.service';
 import { logger } from '../../utils/logger';
 
 export class SchedulerService {
   private schedulerQueue: Bull.Queue;
   private discoveryService: DiscoveryService;
+  private metricsService: CommentMetricsService;
+  private learningService: GuidelineLearningService;
+  private rulesService: SubredditRulesService;
 
   constructor() {
     this.schedulerQueue = new Bull('scheduler', {
       redis: process.env.REDIS_URL || 'redis://localhost:6379',
     });
     this.discoveryService = getDiscoveryService();
+    this.metricsService = getCommentMetricsService();
+    this.learningService = getGuidelineLearningService();
+    this.rulesService = getSubredditRulesService();
 
     this.setupProcessors();
   }
@@ -44,6 +53,48 @@ export class SchedulerService {
         throw error;
       }
     });
+
+    // Poll published comments for score and reply count
+    this.schedulerQueue.process('metrics-tracking', async () => {
+      try {
+        const result = await this.metricsService.collectDueMetrics();
+        if (result.due > 0) {
+          logger.info(`Metrics tracking: ${result.updated} updated, ${result.missing} missing, ${result.failed} failed`);
+        }
+        return result;
+      } catch (error) {
+        logger.error('Metrics tracking failed:', error);
+        throw error;
+      }
+    });
+
+    // Propose persona guideline updates from how reviewers edited published drafts
+    this.schedulerQueue.process('persona-learning', async () => {
+      try {
+        const result = await this.learningService.proposeAll();
+        if (result.proposed > 0) {
+          logger.info(`Persona learning: ${result.proposed} proposal(s) across ${result.personas} persona(s)`);
+        }
+        return result;
+      } catch (error) {
+        logger.error('Persona learning failed:', error);
+        throw error;
+      }
+    });
+
+    // Refresh subreddit rules; the service only syncs subreddits not checked this week
+    this.schedulerQueue.process('subreddit-rules-sync', async () => {
+      try {
+        const result = await this.rulesService.syncDue();
+        if (result.due > 0) {
+          logger.info(`Subreddit rules sync: ${result.synced} synced, ${result.failed} failed`);
+        }
+        return result;
+      } catch (error) {
+        logger.error('Subreddit rules sync failed:', error);
+        throw error;
+      }
+    });
   }
 
   async startScheduledJobs() {
@@ -54,9 +105,9 @@ export class SchedulerService {
     // Remove any existing scheduled jobs to avoid duplicates
     const existingJobs = await this.schedulerQueue.getRepeatableJobs();
     for (const job of existingJobs) {
-      if (job.name === 'auto-discovery') {
+      if (['auto-discovery', 'metrics-tracking', 'persona-learning', 'subreddit-rules-sync'].includes(job.name)) {
         await this.schedulerQueue.removeRepeatableByKey(job.key);
-        logger.info('Removed existing auto-discovery schedule');
+        logger.info(`Removed existing ${job.name} schedule`);
       }
     }
 
@@ -75,6 +126,54 @@ export class SchedulerService {
 
     logger.info(`Auto-discovery scheduled to run every ${intervalHours} hour(s)`);
 
+    // Metrics tracking runs hourly; the service decides which comments are due
+    const metricsIntervalMinutes = parseInt(process.env.METRICS_INTERVAL_MINUTES || '60', 10);
+
+    await this.schedulerQueue.add(
+      'metrics-tracking',
+      {},
+      {
+        repeat: {
+          every: metricsIntervalMinutes * 60 * 1000,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      }
+    );
+
+    logger.info(`Metrics tracking scheduled to run every ${metricsIntervalMinutes} minute(s)`);
+
+    // Guideline learning needs a batch of new edits to say anything, so it runs daily
+    const learningIntervalHours = parseInt(process.env.PERSONA_LEARNING_INTERVAL_HOURS || '24', 10);
+
+    await this.schedulerQueue.add(
+      'persona-learning',
+      {},
+      {
+        repeat: {
+          every: learningIntervalHours * 60 * 60 * 1000,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      }
+    );
+
+    logger.info(`Persona learning scheduled to run every ${learningIntervalHours} hour(s)`);
+
+    await this.schedulerQueue.add(
+      'subreddit-rules-sync',
+      {},
+      {
+        repeat: {
+          every: 24 * 60 * 60 * 1000,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      }
+    );
+
+    logger.info('Subreddit rules sync scheduled to run daily');
+
     // Also run once on startup after a short delay (5 minutes)
     // This ensures we don't miss new posts if the server was down
     const startupDelay = parseInt(process.env.DISCOVERY_STARTUP_DELAY_MS || '300000', 10); // 5 min default
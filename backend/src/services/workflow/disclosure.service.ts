@@ -0,0 +1,91 @@
+import { prisma } from '../../utils/prisma';
+
+// Used when a disclosure is required but neither the subreddit, persona nor brand words it
+export const DEFAULT_DISCLOSURE_TEMPLATE = 'Full disclosure: I work with {brand}.';
+
+export interface Disclosure {
+  text: string;
+  // Which level's template the wording came from
+  source: 'subreddit' | 'persona' | 'brand' | 'default';
+}
+
+interface DisclosureSubject {
+  brandId: string | null;
+  subreddit: string;
+  assignedAccountId?: string | null;
+}
+
+export function renderDisclosure(template: string, brandName: string): string {
+  return template.replace(/\{brand\}/gi, brandName).trim();
+}
+
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, ' ')
+    .replace(/[\s.!;:,]+$/, '')
+    .trim();
+}
+
+/**
+ * Whether the draft carries the disclosure. Case, spacing and closing punctuation are
+ * ignored so the sentence can sit mid-paragraph.
+ */
+export function includesDisclosure(text: string, disclosure: Disclosure): boolean {
+  return normalize(text).includes(normalize(disclosure.text));
+}
+
+export class DisclosureService {
+  /**
+   * The disclosure a comment in `subreddit` must carry, or null when neither the brand
+   * nor the subreddit requires one. The most specific template wins: subreddit, then
+   * persona, then brand.
+   */
+  async resolve(brandId: string, subreddit: string, personaTemplate?: string | null): Promise<Disclosure | null> {
+    const [brand, community] = await Promise.all([
+      prisma.brand.findUnique({
+        where: { id: brandId },
+        select: { name: true, disclosureRequired: true, disclosureTemplate: true },
+      }),
+      prisma.subreddit.findFirst({
+        where: { name: { equals: subreddit.replace(/^r\//, ''), mode: 'insensitive' } },
+        select: { disclosureRequired: true, disclosureTemplate: true },
+      }),
+    ]);
+
+    if (!brand || !(brand.disclosureRequired || community?.disclosureRequired)) {
+      return null;
+    }
+
+    const candidates: [Disclosure['source'], string | null | undefined][] = [
+      ['subreddit', community?.disclosureTemplate],
+      ['persona', personaTemplate],
+      ['brand', brand.disclosureTemplate],
+      ['default', DEFAULT_DISCLOSURE_TEMPLATE],
+    ];
+    const [source, template] = candidates.find(([, value]) => value && value.trim())!;
+
+    return { text: renderDisclosure(template!, brand.name), source };
+  }
+
+  /**
+   * The disclosure an engagement's draft must carry, using the assigned account's persona
+   */
+  async forItem(item: DisclosureSubject): Promise<Disclosure | null> {
+    if (!item.brandId) {
+      return null;
+    }
+
+    const account = item.assignedAccountId
+      ? await prisma.redditAccount.findUnique({
+        where: { id: item.assignedAccountId },
+        select: { persona: { select: { disclosureTemplate: true } } },
+      })
+      : null;
+
+    return this.resolve(item.brandId, item.subreddit, account?.persona?.disclosureTemplate);
+  }
+}
+
+export const disclosureService = new DisclosureService();
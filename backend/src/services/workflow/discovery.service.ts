@@ -1,10 +1,17 @@
 import { v4 as uuidv4 } from 'uuid';
 import Bull from 'bull';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../utils/prisma';
 import { redis, redisHelpers } from '../../utils/redis';
 import { RedditService } from '../reddit/reddit.service';
+import { getSubredditRulesService } from '../reddit/subreddit-rules.service';
 import { AIService, BrandContext } from '../ai/ai.service';
+import { aiUsageService } from '../ai/usage.service';
+import { detectInjection } from '../ai/untrusted-content';
 import { logger } from '../../utils/logger';
+import { canTransition } from './status-machine';
+import { competitorAlertService } from '../alerts/competitor.service';
+import { sensitiveTopicsService, describeTopics, SensitivityDecision } from './sensitive-topics.service';
 
 interface DiscoveryJobData {
   subreddits?: string[];
@@ -117,6 +124,7 @@ export class DiscoveryService {
                       postScore: post.score,
                       postCreatedAt: new Date(post.created_utc * 1000),
                       matchedKeyword: keyword,
+                      injectionFlags: detectInjection(post.title, post.selftext) as unknown as Prisma.InputJsonValue,
                       status: 'discovered',
                       brandId: brandId,
                     },
@@ -253,6 +261,7 @@ export class DiscoveryService {
             toneOfVoice: true,
             goals: true,
             contentGuidelines: true,
+            redactPii: true,
           },
         });
         if (brandData) {
@@ -265,39 +274,94 @@ export class DiscoveryService {
         }
       }
 
+      // Auto-analysis pauses once the brand has spent its monthly AI budget
+      if (brandId && await aiUsageService.isOverBudget(brandId)) {
+        logger.warn(`Skipping auto-analysis for ${itemId}: brand ${brandId} has reached its monthly AI budget`);
+        return;
+      }
+
       // Skip analysis if brand settings aren't configured
       if (!brand || (!brand.productDescription && !brand.description && !brand.targetAudience)) {
         logger.warn(`Skipping auto-analysis for ${itemId}: Brand settings not configured. Please set up brand parameters (product description, target audience) in Brand Settings.`);
         return;
       }
 
+      // Sensitive posts are settled before relevance: however good the fit, the brand stays out
+      const sensitivity = await sensitiveTopicsService.classify(
+        { id: itemId, brandId: brandId ?? null, subreddit, postTitle: title, postContent: content },
+        brand,
+        undefined,
+        { feature: 'sensitivity_check', brandId }
+      );
+      if (sensitivity.action !== 'allow') {
+        await this.rejectSensitive(itemId, sensitivity);
+        return;
+      }
+
       const analysis = await this.aiService.analyzePost({
         subreddit,
         title,
         content,
         score,
-      }, brand);
+        rules: await getSubredditRulesService().describe(subreddit),
+      }, brand, undefined, { feature: 'discovery_analysis', brandId });
 
       // Update the engagement item with analysis results
       const newStatus = analysis.should_engage ? 'analyzing' : 'rejected';
-      const isRecommended = analysis.relevance_score >= 7;
+      // A post that tries to instruct the AI may have talked up its own score
+      const isRecommended = analysis.relevance_score >= 7 && detectInjection(title, content).length === 0;
+
+      // The item may have been picked up by a reviewer while the analysis was running,
+      // so only move its status if that is still a legal transition
+      const current = await prisma.engagementItem.findUnique({ where: { id: itemId } });
+      if (!current) {
+        return;
+      }
+      const shouldMove = canTransition(current, newStatus);
+      if (!shouldMove) {
+        logger.info(`Keeping ${itemId} in "${current.status}": cannot move to "${newStatus}"`);
+      }
 
       await prisma.engagementItem.update({
         where: { id: itemId },
         data: {
           relevanceScore: analysis.relevance_score,
           aiAnalysis: analysis as object,
-          status: newStatus,
           isRecommended,
+          ...(shouldMove && { status: newStatus }),
         },
       });
 
       logger.info(`Auto-analyzed ${itemId}: relevance=${analysis.relevance_score}, engage=${analysis.should_engage}, recommended=${isRecommended}`);
+
+      // Warm the competitor mention cache while the post is fresh
+      await competitorAlertService.analyzeEngagement(itemId)
+        .catch(err => logger.warn(`Competitor analysis failed for ${itemId}:`, err));
     } catch (error) {
       logger.error(`Failed to auto-analyze post ${itemId}:`, error);
       // Don't throw - we don't want to fail the discovery for analysis errors
     }
   }
+
+  private async rejectSensitive(itemId: string, sensitivity: SensitivityDecision): Promise<void> {
+    const topics = describeTopics(sensitivity.triggered);
+    const current = await prisma.engagementItem.findUnique({ where: { id: itemId } });
+    if (!current) {
+      return;
+    }
+
+    // As with analysis, a reviewer who already picked the item up keeps it
+    const shouldMove = canTransition(current, 'rejected');
+    await prisma.engagementItem.update({
+      where: { id: itemId },
+      data: {
+        isRecommended: false,
+        ...(shouldMove && { status: 'rejected', reviewerNotes: `Auto-rejected: sensitive topic (${topics})` }),
+      },
+    });
+
+    logger.info(`Auto-rejected ${itemId} as sensitive (${sensitivity.action}): ${topics}`);
+  }
 }
 
 // Singleton instance
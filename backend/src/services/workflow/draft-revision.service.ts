@@ -0,0 +1,72 @@
+import { DraftRevisionSource } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { logger } from '../../utils/logger';
+
+export interface DraftRevisionEntry {
+  engagementItemId: string;
+  text: string;
+  source: DraftRevisionSource;
+  detail?: string | null;
+  provider?: string | null;
+  model?: string | null;
+  revertedFromId?: string | null;
+  userId?: string | null;
+}
+
+export class DraftRevisionService {
+  /**
+   * Store a new revision of an engagement's response text. Saving the same text
+   * twice in a row is a no-op. Like auditing, failures are logged and swallowed
+   * so history never breaks the edit that triggered it.
+   */
+  async record(entry: DraftRevisionEntry): Promise<void> {
+    try {
+      const latest = await prisma.draftRevision.findFirst({
+        where: { engagementItemId: entry.engagementItemId },
+        orderBy: { createdAt: 'desc' },
+        select: { text: true },
+      });
+      if (latest?.text === entry.text) {
+        return;
+      }
+
+      await prisma.draftRevision.create({
+        data: {
+          engagementItemId: entry.engagementItemId,
+          text: entry.text,
+          source: entry.source,
+          detail: entry.detail ?? null,
+          provider: entry.provider ?? null,
+          model: entry.model ?? null,
+          revertedFromId: entry.revertedFromId ?? null,
+          createdById: entry.userId ?? null,
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to record draft revision for engagement ${entry.engagementItemId} (${entry.source}):`, error);
+    }
+  }
+
+  /**
+   * List an engagement's revisions, newest first.
+   */
+  list(engagementItemId: string) {
+    return prisma.draftRevision.findMany({
+      where: { engagementItemId },
+      include: {
+        createdBy: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  get(engagementItemId: string, revisionId: string) {
+    return prisma.draftRevision.findFirst({
+      where: { id: revisionId, engagementItemId },
+    });
+  }
+}
+
+export const draftRevisionService = new DraftRevisionService();
@@ -0,0 +1,263 @@
+import { z } from 'zod';
+import safeRegex from 'safe-regex2';
+import { prisma } from '../../utils/prisma';
+
+export type SafetyRuleId =
+  | 'bannedPhrases'
+  | 'requiredDisclosure'
+  | 'maxLinks'
+  | 'competitorBashing'
+  | 'medicalClaims'
+  | 'financialClaims'
+  | 'denyList';
+
+export type SafetyAction = 'block' | 'warn';
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SafetyViolation {
+  rule: SafetyRuleId;
+  action: SafetyAction;
+  message: string;
+  spans: TextSpan[]; // Empty when the problem is something missing from the text
+}
+
+export interface SafetyCheckResult {
+  violations: SafetyViolation[];
+  blocking: SafetyViolation[];
+}
+
+const ruleBase = {
+  enabled: z.boolean().default(false),
+  action: z.enum(['block', 'warn']).default('block'),
+};
+
+// A deny list entry is a keyword, or a regular expression written as /pattern/flags
+const REGEX_ENTRY = /^\/(.+)\/([a-z]*)$/;
+const MAX_REGEX_LENGTH = 100;
+
+// Patterns run on every approve and publish, so ones that can backtrack for ages are refused
+const denyListEntry = z.string().min(1).max(200).superRefine((entry, ctx) => {
+  const match = entry.match(REGEX_ENTRY);
+  if (!match) return;
+  let regex: RegExp;
+  try {
+    regex = new RegExp(match[1], match[2]);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid regular expression' });
+    return;
+  }
+  if (match[1].length > MAX_REGEX_LENGTH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Regular expressions are limited to ${MAX_REGEX_LENGTH} characters` });
+  } else if (!safeRegex(regex)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Regular expression could take too long to run; avoid nested repeats like (a+)+' });
+  }
+});
+
+export const safetyRulesSchema = z.object({
+  bannedPhrases: z.object({ ...ruleBase, phrases: z.array(z.string().min(1).max(200)).default([]) }).default({}),
+  requiredDisclosure: z.object({ ...ruleBase, text: z.string().max(500).default('') }).default({}),
+  maxLinks: z.object({ ...ruleBase, max: z.number().int().min(0).max(20).default(1) }).default({}),
+  competitorBashing: z.object(ruleBase).default({}),
+  medicalClaims: z.object(ruleBase).default({}),
+  financialClaims: z.object(ruleBase).default({}),
+  denyList: z.object({ ...ruleBase, patterns: z.array(denyListEntry).default([]) }).default({}),
+});
+
+export type SafetyRules = z.infer<typeof safetyRulesSchema>;
+
+interface CompetitorNames {
+  name: string;
+  variants: unknown;
+}
+
+// Trailing punctuation is left out so "see example.com." highlights just the link
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s)\]]*[^\s)\].,!?;:'"]/gi;
+
+const NEGATIVE_TERMS = [
+  'sucks', 'suck', 'terrible', 'awful', 'garbage', 'trash', 'scam', 'scammy', 'worst', 'useless',
+  'rip-off', 'ripoff', 'overpriced', 'crap', 'crappy', 'junk', 'horrible', 'shady', 'avoid', 'stay away',
+  'waste of money', "don't use", 'never use',
+];
+
+const MEDICAL_PATTERNS = [
+  /\b(?:cures?|cured|heals?|treats?|prevents?|reverses?)\s+(?:your\s+|my\s+)?(?:cancer|diabetes|depression|anxiety|adhd|covid|alzheimer'?s|arthritis|insomnia|obesity|acne|infections?|disease|illness|migraines?|autism|hypertension)\b/gi,
+  /\b(?:clinically|medically|scientifically)\s+proven\b/gi,
+  /\bfda[- ]approved\b/gi,
+  /\bmiracle\s+(?:cure|treatment|pill)\b/gi,
+  /\bno\s+side\s+effects\b/gi,
+  /\breplaces?\s+(?:your\s+)?(?:medication|meds|prescriptions?|therapy|doctor)\b/gi,
+];
+
+const FINANCIAL_PATTERNS = [
+  /\bguaranteed\s+(?:returns?|profits?|income|gains?|results?)\b/gi,
+  /\brisk[- ]free\s+(?:investment|returns?|profits?|income)\b/gi,
+  /\b\d+(?:\.\d+)?\s*%\s+(?:returns?|roi|gains?|profits?|yield)\b/gi,
+  /\b(?:double|triple)\s+your\s+(?:money|investment|savings)\b/gi,
+  /\bget\s+rich\s+quick\b/gi,
+  /\b(?:can'?t|cannot|won'?t)\s+lose\s+money\b/gi,
+  /\bpassive\s+income\s+guaranteed\b/gi,
+];
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findAll(text: string, pattern: RegExp): TextSpan[] {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  const global = new RegExp(pattern.source, flags);
+  const spans: TextSpan[] = [];
+
+  for (const match of text.matchAll(global)) {
+    // Zero-length matches (e.g. /^/) can't be highlighted and would flag every draft
+    if (match[0].length === 0) continue;
+    spans.push({ start: match.index!, end: match.index! + match[0].length, text: match[0] });
+  }
+  return spans;
+}
+
+// Keywords match whole words, case-insensitively; phrases with punctuation match anywhere
+function keywordPattern(keyword: string): RegExp {
+  const escaped = escapeRegex(keyword.trim());
+  return /^\w.*\w$|^\w$/.test(keyword.trim()) ? new RegExp(`\\b${escaped}\\b`, 'gi') : new RegExp(escaped, 'gi');
+}
+
+function sentenceSpans(text: string): TextSpan[] {
+  return findAll(text, /[^\s.!?][^.!?\n]*[.!?]*/g);
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function competitorTerms(competitors: CompetitorNames[]): string[] {
+  return competitors.flatMap((competitor) => {
+    const variants = Array.isArray(competitor.variants)
+      ? competitor.variants.filter((v): v is string => typeof v === 'string')
+      : [];
+    return [competitor.name, ...variants];
+  }).filter((term) => term.trim().length > 1);
+}
+
+/**
+ * Evaluate a draft against the brand's safety rules. Only enabled rules run; each
+ * violation carries the rule's action so callers can tell blockers from warnings.
+ */
+export function evaluateSafetyRules(
+  text: string,
+  rules: SafetyRules,
+  competitors: CompetitorNames[] = []
+): SafetyViolation[] {
+  const violations: SafetyViolation[] = [];
+  const add = (rule: SafetyRuleId, message: string, spans: TextSpan[]) => {
+    violations.push({ rule, action: rules[rule].action, message, spans });
+  };
+
+  if (rules.bannedPhrases.enabled) {
+    for (const phrase of rules.bannedPhrases.phrases) {
+      const spans = findAll(text, keywordPattern(phrase));
+      if (spans.length > 0) {
+        add('bannedPhrases', `Uses the banned phrase "${phrase}"`, spans);
+      }
+    }
+  }
+
+  const disclosure = rules.requiredDisclosure.text.trim();
+  if (rules.requiredDisclosure.enabled && disclosure && !normalize(text).includes(normalize(disclosure))) {
+    add('requiredDisclosure', `Missing the required disclosure "${disclosure}"`, []);
+  }
+
+  if (rules.maxLinks.enabled) {
+    const links = findAll(text, LINK_PATTERN);
+    if (links.length > rules.maxLinks.max) {
+      add(
+        'maxLinks',
+        `Contains ${links.length} links; at most ${rules.maxLinks.max} allowed`,
+        links.slice(rules.maxLinks.max)
+      );
+    }
+  }
+
+  if (rules.competitorBashing.enabled) {
+    const names = competitorTerms(competitors).map(keywordPattern);
+    const negatives = NEGATIVE_TERMS.map(keywordPattern);
+    const spans = sentenceSpans(text).filter((sentence) =>
+      names.some((name) => findAll(sentence.text, name).length > 0) &&
+      negatives.some((term) => findAll(sentence.text, term).length > 0)
+    );
+    if (spans.length > 0) {
+      add('competitorBashing', 'Speaks negatively about a competitor', spans);
+    }
+  }
+
+  if (rules.medicalClaims.enabled) {
+    const spans = MEDICAL_PATTERNS.flatMap((pattern) => findAll(text, pattern));
+    if (spans.length > 0) {
+      add('medicalClaims', 'Makes a medical or health claim', spans);
+    }
+  }
+
+  if (rules.financialClaims.enabled) {
+    const spans = FINANCIAL_PATTERNS.flatMap((pattern) => findAll(text, pattern));
+    if (spans.length > 0) {
+      add('financialClaims', 'Makes a financial or investment claim', spans);
+    }
+  }
+
+  if (rules.denyList.enabled) {
+    for (const entry of rules.denyList.patterns) {
+      const regex = entry.match(REGEX_ENTRY);
+      const spans = findAll(text, regex ? new RegExp(regex[1], regex[2]) : keywordPattern(entry));
+      if (spans.length > 0) {
+        add('denyList', `Matches the deny list entry ${regex ? entry : `"${entry}"`}`, spans);
+      }
+    }
+  }
+
+  return violations;
+}
+
+export function describeViolations(violations: SafetyViolation[]): string {
+  return `${violations.map((violation) => violation.message).join('; ')}.`;
+}
+
+/**
+ * Brand safety rules stored on the brand. Stored settings are parsed leniently so a
+ * rule added later starts out disabled for brands that never configured it.
+ */
+export function parseSafetyRules(value: unknown): SafetyRules {
+  const parsed = safetyRulesSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : safetyRulesSchema.parse({});
+}
+
+export class SafetyRulesService {
+  async getRules(brandId: string): Promise<SafetyRules> {
+    const brand = await prisma.brand.findUnique({
+      where: { id: brandId },
+      select: { safetyRules: true },
+    });
+    return parseSafetyRules(brand?.safetyRules);
+  }
+
+  async check(brandId: string, text: string): Promise<SafetyCheckResult> {
+    const rules = await this.getRules(brandId);
+    const competitors = rules.competitorBashing.enabled
+      ? await prisma.competitor.findMany({
+        where: { brandId },
+        select: { name: true, variants: true },
+      })
+      : [];
+
+    const violations = evaluateSafetyRules(text, rules, competitors);
+    return {
+      violations,
+      blocking: violations.filter((violation) => violation.action === 'block'),
+    };
+  }
+}
+
+export const safetyRulesService = new SafetyRulesService();
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../utils/prisma';
+import { AIConfig, AIService, BrandContext, SensitiveTopic } from '../ai/ai.service';
+import { AIUsageContext } from '../ai/usage.service';
+import { SENSITIVE_CATEGORIES } from '../ai/schemas';
+
+export type SensitiveCategory = typeof SENSITIVE_CATEGORIES[number];
+
+// allow: engage as usual. reject: discovery rejects the post, but a reviewer may still
+// pick it up. block: no drafting, approving or publishing at all.
+export type SensitiveTopicAction = 'allow' | 'reject' | 'block';
+
+export interface SensitivityDecision {
+  action: SensitiveTopicAction;
+  topics: SensitiveTopic[]; // Everything the post was classified as
+  triggered: SensitiveTopic[]; // The topics that led to the action
+}
+
+interface SensitivitySubject {
+  id: string;
+  brandId: string | null;
+  subreddit: string;
+  postTitle: string;
+  postContent: string | null;
+}
+
+const SEVERITY_RANK: Record<SensitiveTopic['severity'], number> = { low: 1, medium: 2, high: 3 };
+const ACTION_RANK: Record<SensitiveTopicAction, number> = { allow: 0, reject: 1, block: 2 };
+
+const categorySetting = (action: SensitiveTopicAction) => z.object({
+  action: z.enum(['allow', 'reject', 'block']).default(action),
+  // Topics below this severity are ignored, so a passing mention doesn't reject a post
+  minSeverity: z.enum(['low', 'medium', 'high']).default('medium'),
+}).default({});
+
+export const sensitiveTopicsSchema = z.object({
+  grief: categorySetting('reject'),
+  self_harm: categorySetting('block'),
+  medical_emergency: categorySetting('block'),
+  tragedy: categorySetting('reject'),
+  abuse: categorySetting('block'),
+  addiction: categorySetting('reject'),
+});
+
+export type SensitiveTopicSettings = z.infer<typeof sensitiveTopicsSchema>;
+
+/**
+ * Brand settings per category. Parsed leniently like the safety rules, so a category
+ * the brand never configured gets its default.
+ */
+export function parseSensitiveTopicSettings(value: unknown): SensitiveTopicSettings {
+  const parsed = sensitiveTopicsSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : sensitiveTopicsSchema.parse({});
+}
+
+/**
+ * The strictest action any of the topics calls for under the brand's settings
+ */
+export function decideSensitivity(topics: SensitiveTopic[], settings: SensitiveTopicSettings): SensitivityDecision {
+  let action: SensitiveTopicAction = 'allow';
+  const triggered: SensitiveTopic[] = [];
+
+  for (const topic of topics) {
+    const setting = settings[topic.category];
+    if (setting.action === 'allow' || SEVERITY_RANK[topic.severity] < SEVERITY_RANK[setting.minSeverity]) {
+      continue;
+    }
+    triggered.push(topic);
+    if (ACTION_RANK[setting.action] > ACTION_RANK[action]) {
+      action = setting.action;
+    }
+  }
+
+  return { action, topics, triggered };
+}
+
+export function describeTopics(topics: SensitiveTopic[]): string {
+  return topics.map((topic) => `${topic.category.replace('_', ' ')} (${topic.severity})`).join(', ');
+}
+
+export class SensitiveTopicsService {
+  private aiService = new AIService();
+
+  async getSettings(brandId: string): Promise<SensitiveTopicSettings> {
+    const brand = await prisma.brand.findUnique({
+      where: { id: brandId },
+      select: { sensitiveTopics: true },
+    });
+    return parseSensitiveTopicSettings(brand?.sensitiveTopics);
+  }
+
+  /**
+   * Classify the item's post, store the topics found and decide what the brand does with it
+   */
+  async classify(
+    item: SensitivitySubject,
+    brand?: BrandContext | null,
+    config?: AIConfig,
+    usage?: AIUsageContext
+  ): Promise<SensitivityDecision> {
+    const topics = await this.aiService.classifySensitivity({
+      subreddit: item.subreddit,
+      title: item.postTitle,
+      content: item.postContent || '',
+    }, brand, config, usage);
+
+    await prisma.engagementItem.update({
+      where: { id: item.id },
+      data: {
+        sensitiveTopics: topics as unknown as Prisma.InputJsonValue,
+        sensitivityCheckedAt: new Date(),
+      },
+    });
+
+    return this.decide(item.brandId, topics);
+  }
+
+  /**
+   * The decision for an item from its stored topics and the brand's current settings.
+   * An item that was never classified is allowed.
+   */
+  async check(item: { brandId: string | null; sensitiveTopics: Prisma.JsonValue }): Promise<SensitivityDecision> {
+    return this.decide(item.brandId, (item.sensitiveTopics as unknown as SensitiveTopic[]) || []);
+  }
+
+  private async decide(brandId: string | null, topics: SensitiveTopic[]): Promise<SensitivityDecision> {
+    const settings = brandId ? await this.getSettings(brandId) : sensitiveTopicsSchema.parse({});
+    return decideSensitivity(topics, settings);
+  }
+}
+
+export const sensitiveTopicsService = new SensitiveTopicsService();
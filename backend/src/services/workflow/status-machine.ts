@@ -0,0 +1,80 @@
+import { EngagementStatus } from '@prisma/client';
+import { ConflictError } from '../../api/middleware/errorHandler';
+
+/**
+ * Allowed status transitions for engagement items.
+ * Staying in the same status (e.g. regenerating a draft) is allowed, except that a
+ * published item can't be published again.
+ */
+const TRANSITIONS: Record<EngagementStatus, EngagementStatus[]> = {
+  discovered: ['analyzing', 'draft_ready', 'rejected'],
+  analyzing: ['discovered', 'draft_ready', 'rejected'],
+  draft_ready: ['in_review', 'approved', 'rejected'],
+  in_review: ['draft_ready', 'approved', 'rejected'],
+  approved: ['draft_ready', 'in_review', 'published', 'failed', 'rejected'],
+  rejected: ['discovered', 'in_review'],
+  published: [],
+  failed: ['approved', 'in_review', 'rejected'],
+};
+
+// Statuses that can only be reached through their dedicated actions (analyze, publish)
+export const SYSTEM_STATUSES: EngagementStatus[] = ['analyzing', 'published', 'failed'];
+
+// Statuses that require a draft to exist on the item
+const REQUIRES_DRAFT: EngagementStatus[] = ['in_review', 'approved', 'published'];
+
+export interface TransitionSubject {
+  status: EngagementStatus;
+  draftResponse?: string | null;
+  editedResponse?: string | null;
+  assignedAccountId?: string | null;
+}
+
+/**
+ * Returns the reason a transition is not allowed, or null if it is.
+ */
+function getBlockReason(item: TransitionSubject, to: EngagementStatus): string | null {
+  if (item.status === 'published' && to === 'published') {
+    return 'Engagement has already been published';
+  }
+
+  if (item.status !== to && !TRANSITIONS[item.status].includes(to)) {
+    return `Cannot move engagement from "${item.status}" to "${to}"`;
+  }
+
+  if (REQUIRES_DRAFT.includes(to) && !(item.editedResponse || item.draftResponse)) {
+    return `Cannot move engagement to "${to}" without a draft response`;
+  }
+
+  if (to === 'published' && !item.assignedAccountId) {
+    return 'Cannot publish an engagement without an assigned account';
+  }
+
+  return null;
+}
+
+export function canTransition(item: TransitionSubject, to: EngagementStatus): boolean {
+  return getBlockReason(item, to) === null;
+}
+
+/**
+ * Next statuses the item can be moved to by hand, taking its current content into
+ * account. System statuses are left out since only their dedicated actions set them.
+ */
+export function getAllowedTransitions(item: TransitionSubject): EngagementStatus[] {
+  return TRANSITIONS[item.status].filter((to) => !SYSTEM_STATUSES.includes(to) && canTransition(item, to));
+}
+
+/**
+ * Throws a 409 ConflictError if the item cannot move to the given status.
+ */
+export function assertTransition(item: TransitionSubject, to: EngagementStatus): void {
+  const reason = getBlockReason(item, to);
+  if (reason) {
+    throw new ConflictError(reason, {
+      from: item.status,
+      to,
+      allowed: getAllowedTransitions(item),
+    });
+  }
+}
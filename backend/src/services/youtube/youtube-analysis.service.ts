@@ -1,4 +1,5 @@
 import { AIService, BrandContext } from '../ai/ai.service';
+import { channelAnalysisSchema } from '../ai/schemas';
 import { logger } from '../../utils/logger';
 
 interface ChannelData {
@@ -48,8 +49,14 @@ export class YouTubeAnalysisService {
    * @param channel - Channel data to analyze
    * @param videos - Recent videos from the channel
    * @param brand - Brand context (required)
+   * @param brandId - Brand the AI usage is recorded against
    */
-  async analyzeChannel(channel: ChannelData, videos: VideoData[], brand: BrandContext): Promise<ChannelAnalysis> {
+  async analyzeChannel(
+    channel: ChannelData,
+    videos: VideoData[],
+    brand: BrandContext,
+    brandId?: string | null
+  ): Promise<ChannelAnalysis> {
     if (!brand || (!brand.productDescription && !brand.description)) {
       throw new Error('Brand settings required. Please configure your brand (product description, target audience) in Brand Settings before analyzing YouTube channels.');
     }
@@ -99,17 +106,21 @@ Respond ONLY with valid JSON (no markdown, no code blocks):
     `.trim();
 
     try {
-      const response = await this.aiService.complete(prompt, true);
-      const parsed = this.parseResponse(response);
+      const { data } = await this.aiService.completeStructured(
+        prompt,
+        channelAnalysisSchema,
+        undefined,
+        { feature: 'youtube_analysis', brandId }
+      );
 
       return {
-        relevanceScore: parsed.relevance_score,
-        category: parsed.category,
-        reasoning: parsed.reasoning,
-        contentTopics: parsed.content_topics || [],
-        audienceAlignment: parsed.audience_alignment,
-        collaborationPotential: parsed.collaboration_potential,
-        cautions: parsed.cautions || [],
+        relevanceScore: data.relevance_score,
+        category: data.category,
+        reasoning: data.reasoning,
+        contentTopics: data.content_topics,
+        audienceAlignment: data.audience_alignment,
+        collaborationPotential: data.collaboration_potential,
+        cautions: data.cautions,
       };
     } catch (error) {
       logger.error('Failed to analyze YouTube channel:', error);
@@ -131,8 +142,9 @@ Respond ONLY with valid JSON (no markdown, no code blocks):
    * Analyze individual video relevance
    * @param video - Video data to analyze
    * @param brand - Brand context (required)
+   * @param brandId - Brand the AI usage is recorded against
    */
-  async analyzeVideoRelevance(video: VideoData, brand: BrandContext): Promise<number> {
+  async analyzeVideoRelevance(video: VideoData, brand: BrandContext, brandId?: string | null): Promise<number> {
     if (!brand || (!brand.productDescription && !brand.description)) {
       throw new Error('Brand settings required. Please configure your brand in Brand Settings before analyzing videos.');
     }
@@ -156,7 +168,7 @@ Respond with ONLY a number from 1-10.
     `.trim();
 
     try {
-      const response = await this.aiService.complete(prompt, false);
+      const response = await this.aiService.complete(prompt, false, undefined, { feature: 'youtube_analysis', brandId });
       const score = parseInt(response.trim(), 10);
       return isNaN(score) ? 5 : Math.min(10, Math.max(1, score));
     } catch (error) {
@@ -164,27 +176,4 @@ Respond with ONLY a number from 1-10.
       return 5; // Default middle score
     }
   }
-
-  private parseResponse(response: string): {
-    relevance_score: number;
-    category: 'influencer' | 'competitor' | 'opportunity' | 'low_fit';
-    reasoning: string;
-    content_topics: string[];
-    audience_alignment: string;
-    collaboration_potential: string;
-    cautions: string[];
-  } {
-    // Remove markdown code blocks if present
-    let cleaned = response.trim();
-    if (cleaned.startsWith('```json')) {
-      cleaned = cleaned.slice(7);
-    } else if (cleaned.startsWith('```')) {
-      cleaned = cleaned.slice(3);
-    }
-    if (cleaned.endsWith('```')) {
-      cleaned = cleaned.slice(0, -3);
-    }
-
-    return JSON.parse(cleaned.trim());
-  }
 }
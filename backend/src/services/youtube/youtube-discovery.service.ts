@@ -316,6 +316,7 @@ export class YouTubeDiscoveryService {
       // TODO: Add brand context to YouTube discovery workflow
       const firstBrand = await prisma.brand.findFirst({
         select: {
+          id: true,
           name: true,
           description: true,
           productDescription: true,
@@ -330,13 +331,14 @@ export class YouTubeDiscoveryService {
 
       let analysis;
       if (firstBrand && (firstBrand.productDescription || firstBrand.description || firstBrand.targetAudience)) {
+        const { id: brandId, ...settings } = firstBrand;
         const brand: BrandContext = {
-          ...firstBrand,
+          ...settings,
           keyDifferentiators: firstBrand.keyDifferentiators as string[] || [],
           brandValues: firstBrand.brandValues as string[] || [],
           goals: firstBrand.goals as string[] || [],
         };
-        analysis = await this.analysisService.analyzeChannel(channel, videos, brand);
+        analysis = await this.analysisService.analyzeChannel(channel, videos, brand, brandId);
       } else {
         logger.warn('YouTube channel analysis skipped: Brand settings not configured. Please set up brand parameters (product description, target audience) in Brand Settings.');
         analysis = {
@@ -0,0 +1,94 @@
+import { completeMock, streamMock } from '../../src/services/ai/mock.provider';
+import { analysisResultSchema, personaDraftSchema, subredditRulesSchema } from '../../src/services/ai/schemas';
+import { untrustedBlock } from '../../src/services/ai/untrusted-content';
+
+const JSON_FOOTER = 'Respond ONLY with valid JSON (no markdown, no code blocks):';
+
+function draftPrompt(i: number): string {
+  return `Write a reply as this persona.\nName: Persona ${i}\nSubreddit: r/startups\nPost ${i}`;
+}
+
+describe('completeMock', () => {
+  const originalSeed = process.env.AI_MOCK_SEED;
+
+  afterEach(() => {
+    if (originalSeed === undefined) {
+      delete process.env.AI_MOCK_SEED;
+    } else {
+      process.env.AI_MOCK_SEED = originalSeed;
+    }
+  });
+
+  it('answers the same prompt the same way every time', () => {
+    const prompt = draftPrompt(1);
+
+    expect(completeMock(prompt, false, 0.7)).toEqual(completeMock(prompt, false, 0.7));
+    expect(completeMock(prompt, false, 0.7).text).toContain('[mock draft by Persona 1 for r/startups]');
+  });
+
+  it('varies with the seed and the temperature', () => {
+    const prompts = Array.from({ length: 10 }, (_, i) => draftPrompt(i));
+    const texts = (temperature: number) => prompts.map((prompt) => completeMock(prompt, false, temperature).text);
+
+    process.env.AI_MOCK_SEED = 'first';
+    const first = texts(0.7);
+    const warmer = texts(0.9);
+    process.env.AI_MOCK_SEED = 'second';
+    const second = texts(0.7);
+
+    expect(second).not.toEqual(first);
+    expect(warmer).not.toEqual(first);
+  });
+
+  it('estimates tokens at four characters each', () => {
+    const result = completeMock('x'.repeat(40), false);
+
+    expect(result.inputTokens).toBe(10);
+    expect(result.outputTokens).toBe(Math.ceil(result.text.length / 4));
+  });
+
+  it('returns schema-valid analysis', () => {
+    const prompt = `Analyze this post.\n${untrustedBlock({ Title: 'Best CRM?', Content: 'Looking for one' })}\n${JSON_FOOTER}\n{"opportunity_type": "..."}`;
+
+    expect(analysisResultSchema.safeParse(JSON.parse(completeMock(prompt, true).text)).success).toBe(true);
+  });
+
+  it('reads subreddit rules from the untrusted block', () => {
+    const prompt = [
+      'Extract the rules.',
+      untrustedBlock({
+        Description: 'A place for founders',
+        'Posted rules': '1. No self-promotion\n\n2. Accounts must be 30 days old',
+        Sidebar: 'None',
+      }),
+      JSON_FOOTER,
+      '{"self_promotion_ratio": null}',
+    ].join('\n');
+    const rules = subredditRulesSchema.parse(JSON.parse(completeMock(prompt, true).text));
+
+    expect(rules.self_promotion).toBe('forbidden');
+    expect(rules.min_account_age_days).toBe(30);
+  });
+
+  it('drafts a persona from numbered comments', () => {
+    const comments = untrustedBlock({
+      '[1] r/startups (score 4)': 'First comment',
+      '[2] r/saas (score 2)': 'Second comment',
+    });
+    const prompt = `ACCOUNT: u/founder\n\nRECENT COMMENTS:\n${comments}\n\n${JSON_FOOTER}\n{"example_indices": [1]}`;
+    const draft = personaDraftSchema.parse(JSON.parse(completeMock(prompt, true).text));
+
+    expect(draft.name).toBe('founder');
+    expect(draft.expertise_areas).toEqual(['startups', 'saas']);
+    expect(draft.example_indices).toEqual([1, 2]);
+  });
+});
+
+describe('streamMock', () => {
+  it('stops when the request is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(streamMock(draftPrompt(1), () => undefined, controller.signal)).rejects.toThrow('Mock stream aborted');
+  });
+});
@@ -0,0 +1,100 @@
+import { prisma } from '../../src/utils/prisma';
+import { logger } from '../../src/utils/logger';
+import { AIUsageService } from '../../src/services/ai/usage.service';
+
+jest.mock('../../src/utils/prisma', () => ({
+  prisma: {
+    brand: { findUnique: jest.fn() },
+    aIUsageRecord: { aggregate: jest.fn() },
+  },
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { warn: jest.fn(), error: jest.fn() },
+}));
+
+const findBrand = prisma.brand.findUnique as jest.Mock;
+const aggregateUsage = prisma.aIUsageRecord.aggregate as jest.Mock;
+
+function spentThisMonth(cost: number) {
+  aggregateUsage.mockResolvedValue({ _sum: { estimatedCost: cost } });
+}
+
+describe('AIUsageService', () => {
+  const originalPriceTable = process.env.AI_PRICE_TABLE;
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    if (originalPriceTable === undefined) {
+      delete process.env.AI_PRICE_TABLE;
+    } else {
+      process.env.AI_PRICE_TABLE = originalPriceTable;
+    }
+  });
+
+  describe('estimateCost', () => {
+    it('prices tokens per million from the default table', () => {
+      delete process.env.AI_PRICE_TABLE;
+      const service = new AIUsageService();
+
+      expect(service.estimateCost('gpt-4o', 1_000_000, 500_000)).toBeCloseTo(7.5);
+    });
+
+    it('records unknown models at zero cost and warns once', () => {
+      delete process.env.AI_PRICE_TABLE;
+      const service = new AIUsageService();
+
+      expect(service.estimateCost('unknown-model', 1000, 1000)).toBe(0);
+      expect(service.estimateCost('unknown-model', 1000, 1000)).toBe(0);
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets AI_PRICE_TABLE override and extend the defaults', () => {
+      process.env.AI_PRICE_TABLE = JSON.stringify({
+        'gpt-4o': { input: 1, output: 1 },
+        'my-model': { input: 2, output: 4 },
+      });
+      const service = new AIUsageService();
+
+      expect(service.estimateCost('gpt-4o', 1_000_000, 1_000_000)).toBeCloseTo(2);
+      expect(service.estimateCost('my-model', 1_000_000, 1_000_000)).toBeCloseTo(6);
+      expect(service.estimateCost('gpt-3.5-turbo', 1_000_000, 0)).toBeCloseTo(0.5);
+    });
+
+    it('falls back to the defaults when AI_PRICE_TABLE is not valid JSON', () => {
+      process.env.AI_PRICE_TABLE = '{not json';
+      const service = new AIUsageService();
+
+      expect(service.estimateCost('gpt-4o', 1_000_000, 0)).toBeCloseTo(2.5);
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('isOverBudget', () => {
+    const service = new AIUsageService();
+
+    it('is never over budget without a budget', async () => {
+      findBrand.mockResolvedValue({ aiMonthlyBudget: null });
+
+      await expect(service.isOverBudget('brand-1')).resolves.toBe(false);
+      expect(aggregateUsage).not.toHaveBeenCalled();
+    });
+
+    it('is over budget once the month-to-date cost reaches the budget', async () => {
+      findBrand.mockResolvedValue({ aiMonthlyBudget: 10 });
+
+      spentThisMonth(9.99);
+      await expect(service.isOverBudget('brand-1')).resolves.toBe(false);
+
+      spentThisMonth(10);
+      await expect(service.isOverBudget('brand-1')).resolves.toBe(true);
+    });
+
+    it('treats a budget of zero as a budget', async () => {
+      findBrand.mockResolvedValue({ aiMonthlyBudget: 0 });
+      spentThisMonth(0);
+
+      await expect(service.isOverBudget('brand-1')).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { Bm25Index, tokenize } from '../../src/services/knowledge/bm25';
+
+describe('tokenize', () => {
+  it('lowercases, drops stopwords and strips plurals', () => {
+    expect(tokenize('What are the Pricing Plans for integrations?')).toEqual(['pricing', 'plan', 'integration']);
+  });
+
+  it('keeps prices, percentages and version numbers together', () => {
+    expect(tokenize('Pro costs $29.99, 20% off v2.1.')).toEqual(['pro', 'cost', '$29.99', '20%', 'off', 'v2.1']);
+  });
+});
+
+describe('Bm25Index', () => {
+  const index = new Bm25Index([
+    { doc: 'pricing', text: 'Pricing: the Pro plan costs $29 per month. The Team plan costs $99 per month.' },
+    { doc: 'sso', text: 'Single sign-on is available on the Team plan through SAML.' },
+    { doc: 'export', text: 'Export your data as CSV at any time from the settings page.' },
+  ]);
+
+  it('ranks the document that best matches the query first', () => {
+    const hits = index.search('how much does the pro plan cost', 3);
+
+    expect(hits.map((hit) => hit.doc)).toEqual(['pricing', 'sso']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('weighs rare terms above common ones', () => {
+    expect(index.search('plan saml', 3)[0].doc).toBe('sso');
+  });
+
+  it('respects the limit and skips documents without a matching term', () => {
+    expect(index.search('plan', 1)).toHaveLength(1);
+    expect(index.search('refund policy', 3)).toEqual([]);
+  });
+
+  it('returns nothing for a query of stopwords or an empty index', () => {
+    expect(index.search('what is the', 3)).toEqual([]);
+    expect(new Bm25Index<string>([]).search('pricing', 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { chunkDocument } from '../../src/services/knowledge/chunking';
+
+function words(count: number, word = 'word'): string {
+  return Array.from({ length: count }, () => word).join(' ');
+}
+
+describe('chunkDocument', () => {
+  it('returns nothing for an empty document', () => {
+    expect(chunkDocument('markdown', ' \n\n ')).toEqual([]);
+  });
+
+  it('splits markdown by heading and keeps the heading path', () => {
+    const chunks = chunkDocument('markdown', [
+      'Intro text.',
+      '# Plans',
+      'Two plans.',
+      '## Pro',
+      'Pro costs $29.',
+      '# Support',
+      'Email us.',
+    ].join('\n'));
+
+    expect(chunks).toEqual([
+      { heading: null, content: 'Intro text.' },
+      { heading: 'Plans', content: 'Two plans.' },
+      { heading: 'Plans › Pro', content: 'Pro costs $29.' },
+      { heading: 'Support', content: 'Email us.' },
+    ]);
+  });
+
+  it('packs paragraphs up to the word limit', () => {
+    const chunks = chunkDocument('markdown', [words(100, 'one'), words(40, 'two'), words(40, 'three')].join('\n\n'));
+
+    expect(chunks.map((chunk) => chunk.content.split(/\s+/).length)).toEqual([140, 40]);
+  });
+
+  it('splits long paragraphs at sentence boundaries', () => {
+    const sentence = `${words(60)}.`;
+    const chunks = chunkDocument('markdown', [sentence, sentence, sentence].join(' '));
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks.every((chunk) => chunk.content.endsWith('.'))).toBe(true);
+  });
+
+  it('never splits a table', () => {
+    const table = Array.from({ length: 60 }, (_, i) => `| Plan ${i} | $${i} per month |`).join('\n');
+    const chunks = chunkDocument('pricing', `# Prices\n${table}`);
+
+    expect(chunks).toEqual([{ heading: 'Prices', content: table }]);
+  });
+
+  it('makes one chunk per FAQ question with the question as heading', () => {
+    const chunks = chunkDocument('faq', [
+      'Common questions.',
+      'Q: Do you offer refunds?',
+      'A: Yes, within 30 days.',
+      '',
+      'Q: Is there a free tier?',
+      'A: Up to three users.',
+    ].join('\n'));
+
+    expect(chunks).toEqual([
+      { heading: null, content: 'Common questions.' },
+      { heading: 'Do you offer refunds?', content: 'Yes, within 30 days.' },
+      { heading: 'Is there a free tier?', content: 'Up to three users.' },
+    ]);
+  });
+
+  it('treats an FAQ without questions as markdown', () => {
+    expect(chunkDocument('faq', '# Help\nContact support.')).toEqual([{ heading: 'Help', content: 'Contact support.' }]);
+  });
+});
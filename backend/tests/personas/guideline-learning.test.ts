@@ -0,0 +1,84 @@
+import { EditPair, GuidelineLearningService } from '../../src/services/personas/guideline-learning.service';
+
+const service = new GuidelineLearningService();
+
+function findings(pairs: EditPair[], kind: string) {
+  return service.mineCorrections(pairs).filter((finding) => finding.kind === kind);
+}
+
+const OPTIONS = ['Option A', 'Notion', 'Linear', 'Trello', 'Asana'];
+
+describe('GuidelineLearningService.mineCorrections', () => {
+  it('finds nothing without edits', () => {
+    expect(service.mineCorrections([])).toEqual([]);
+  });
+
+  it('reports a phrase deleted in every edit once, without crossing the comma', () => {
+    const pairs = OPTIONS.map((tool) => ({
+      draft: `As someone who has tried many tools, I think ${tool} is the best fit for a small team.`,
+      final: `${tool} is the best fit for a small team.`,
+    }));
+
+    expect(findings(pairs, 'banned_phrase').map((finding) => finding.examples[0])).toEqual([
+      'as someone who has tried many tools',
+      'i think',
+    ]);
+    expect(findings(pairs, 'banned_phrase')[0].description)
+      .toBe('Avoid "as someone who has tried many tools" (removed in 5 of 5 edits)');
+  });
+
+  it('ignores phrases deleted in only one edit', () => {
+    const pairs = OPTIONS.map((tool, i) => ({
+      draft: `${i === 0 ? 'To be perfectly honest, ' : ''}${tool} handles recurring tasks well.`,
+      final: `${tool} handles recurring tasks well.`,
+    }));
+
+    expect(findings(pairs, 'banned_phrase')).toEqual([]);
+  });
+
+  it('notices drafts that are consistently cut down', () => {
+    const pairs = OPTIONS.map((tool) => ({
+      draft: `${tool} works well for us. We moved our whole team over last spring and the setup took an afternoon. The pricing is fair and support answers quickly, which matters more than features.`,
+      final: `${tool} works well for us.`,
+    }));
+    const [length] = findings(pairs, 'length');
+
+    expect(length.description).toMatch(/^Reviewers cut drafts to about \d+% of their length; aim for around \d+ words$/);
+    expect(length.occurrences).toBe(5);
+  });
+
+  it('notices dropped sign-offs and does not repeat them as phrases', () => {
+    const pairs = OPTIONS.map((tool) => ({
+      draft: `${tool} syncs with your calendar out of the box. Hope this helps!`,
+      final: `${tool} syncs with your calendar out of the box.`,
+    }));
+
+    expect(findings(pairs, 'sign_off')).toEqual([{
+      kind: 'sign_off',
+      description: 'Reviewers remove closing sign-off lines; end on the last substantive point instead',
+      occurrences: 5,
+      examples: ['Hope this helps!'],
+    }]);
+    expect(findings(pairs, 'banned_phrase')).toEqual([]);
+  });
+
+  it('notices formatting that reviewers strip or add', () => {
+    const stripped = OPTIONS.map((tool) => ({
+      draft: `**${tool}** is great!\n\n- fast\n- cheap`,
+      final: `${tool} is great. It is fast and cheap.`,
+    }));
+    const added = OPTIONS.map((tool) => ({
+      draft: `${tool} is fast and cheap.`,
+      final: `${tool} is:\n\n- fast\n- cheap`,
+    }));
+
+    expect(findings(stripped, 'formatting').map((finding) => finding.description)).toEqual([
+      "Don't use bullet or numbered lists",
+      "Don't use bold text",
+      "Don't use exclamation marks",
+    ]);
+    expect(findings(added, 'formatting').map((finding) => finding.description)).toEqual([
+      'Use bullet or numbered lists where it helps',
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { prisma } from '../../src/utils/prisma';
+import {
+  DEFAULT_DISCLOSURE_TEMPLATE,
+  DisclosureService,
+  includesDisclosure,
+  renderDisclosure,
+} from '../../src/services/workflow/disclosure.service';
+
+jest.mock('../../src/utils/prisma', () => ({
+  prisma: {
+    brand: { findUnique: jest.fn() },
+    subreddit: { findFirst: jest.fn() },
+  },
+}));
+
+const findBrand = prisma.brand.findUnique as jest.Mock;
+const findSubreddit = prisma.subreddit.findFirst as jest.Mock;
+
+describe('includesDisclosure', () => {
+  const disclosure = { text: "Full disclosure: I'm on the Acme team.", source: 'brand' as const };
+
+  it('finds the disclosure mid-paragraph', () => {
+    expect(includesDisclosure("Try the free tier. Full disclosure: I'm on the Acme team. Happy to help!", disclosure)).toBe(true);
+  });
+
+  it('ignores case, spacing, curly apostrophes and closing punctuation', () => {
+    expect(includesDisclosure('FULL disclosure:\nI’m on the   acme team', disclosure)).toBe(true);
+  });
+
+  it('misses a reworded disclosure', () => {
+    expect(includesDisclosure('I work at Acme.', disclosure)).toBe(false);
+  });
+});
+
+describe('renderDisclosure', () => {
+  it('fills in the brand name', () => {
+    expect(renderDisclosure(DEFAULT_DISCLOSURE_TEMPLATE, 'Acme')).toBe('Full disclosure: I work with Acme.');
+    expect(renderDisclosure(' {Brand} employee here ', 'Acme')).toBe('Acme employee here');
+  });
+});
+
+describe('DisclosureService.resolve', () => {
+  const service = new DisclosureService();
+  const brand = { name: 'Acme', disclosureRequired: true, disclosureTemplate: 'I work for {brand}.' };
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('requires nothing when neither the brand nor the subreddit does', async () => {
+    findBrand.mockResolvedValue({ ...brand, disclosureRequired: false });
+    findSubreddit.mockResolvedValue(null);
+
+    await expect(service.resolve('brand-1', 'startups')).resolves.toBeNull();
+  });
+
+  it('prefers the subreddit template, then the persona, then the brand', async () => {
+    findBrand.mockResolvedValue(brand);
+    findSubreddit.mockResolvedValue({ disclosureRequired: false, disclosureTemplate: 'Mod rule: {brand} staff.' });
+    await expect(service.resolve('brand-1', 'r/startups', 'Persona for {brand}.'))
+      .resolves.toEqual({ text: 'Mod rule: Acme staff.', source: 'subreddit' });
+
+    findSubreddit.mockResolvedValue(null);
+    await expect(service.resolve('brand-1', 'startups', 'Persona for {brand}.'))
+      .resolves.toEqual({ text: 'Persona for Acme.', source: 'persona' });
+    await expect(service.resolve('brand-1', 'startups', '  '))
+      .resolves.toEqual({ text: 'I work for Acme.', source: 'brand' });
+  });
+
+  it('uses the default wording when a subreddit requires a disclosure nobody wrote', async () => {
+    findBrand.mockResolvedValue({ ...brand, disclosureRequired: false, disclosureTemplate: null });
+    findSubreddit.mockResolvedValue({ disclosureRequired: true, disclosureTemplate: null });
+
+    await expect(service.resolve('brand-1', 'startups'))
+      .resolves.toEqual({ text: 'Full disclosure: I work with Acme.', source: 'default' });
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  describeViolations,
+  evaluateSafetyRules,
+  parseSafetyRules,
+  SafetyRules,
+  safetyRulesSchema,
+} from '../../src/services/workflow/safety-rules.service';
+
+function rules(overrides: Record<string, object>): SafetyRules {
+  return parseSafetyRules(overrides);
+}
+
+describe('evaluateSafetyRules', () => {
+  it('runs nothing when no rule is enabled', () => {
+    expect(evaluateSafetyRules('Guaranteed returns, visit www.a.com and www.b.com', rules({}))).toEqual([]);
+  });
+
+  it('highlights banned phrases as whole words, case-insensitively', () => {
+    const [violation] = evaluateSafetyRules(
+      'This is a Game Changer, not a gamechanger',
+      rules({ bannedPhrases: { enabled: true, phrases: ['game changer'] } })
+    );
+
+    expect(violation).toEqual({
+      rule: 'bannedPhrases',
+      action: 'block',
+      message: 'Uses the banned phrase "game changer"',
+      spans: [{ start: 10, end: 22, text: 'Game Changer' }],
+    });
+  });
+
+  it('requires the disclosure regardless of case and spacing', () => {
+    const disclosure = rules({ requiredDisclosure: { enabled: true, action: 'warn', text: 'I work for Acme' } });
+
+    expect(evaluateSafetyRules('Try it.\n\ni  WORK for acme', disclosure)).toEqual([]);
+    expect(evaluateSafetyRules('Try it.', disclosure)).toEqual([
+      { rule: 'requiredDisclosure', action: 'warn', message: 'Missing the required disclosure "I work for Acme"', spans: [] },
+    ]);
+  });
+
+  it('flags only the links over the limit, without trailing punctuation', () => {
+    const [violation] = evaluateSafetyRules(
+      'See https://a.com and www.b.com.',
+      rules({ maxLinks: { enabled: true, max: 1 } })
+    );
+
+    expect(violation.message).toBe('Contains 2 links; at most 1 allowed');
+    expect(violation.spans.map((span) => span.text)).toEqual(['www.b.com']);
+  });
+
+  it('flags sentences that name a competitor negatively', () => {
+    const violations = evaluateSafetyRules(
+      'Globex is fine. Honestly initech sucks. Avoid bad tools.',
+      rules({ competitorBashing: { enabled: true } }),
+      [{ name: 'Globex', variants: [] }, { name: 'Initech Corp', variants: ['initech'] }]
+    );
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].spans.map((span) => span.text)).toEqual(['Honestly initech sucks.']);
+  });
+
+  it('flags medical and financial claims', () => {
+    const violations = evaluateSafetyRules(
+      'It is clinically proven and offers guaranteed returns of 20% returns.',
+      rules({ medicalClaims: { enabled: true }, financialClaims: { enabled: true, action: 'warn' } })
+    );
+
+    expect(violations.map((v) => [v.rule, v.action])).toEqual([
+      ['medicalClaims', 'block'],
+      ['financialClaims', 'warn'],
+    ]);
+    expect(violations[1].spans.map((span) => span.text)).toEqual(['guaranteed returns', '20% returns']);
+  });
+
+  it('matches deny list keywords and regular expressions', () => {
+    const violations = evaluateSafetyRules(
+      'Use code SAVE20 at checkout',
+      rules({ denyList: { enabled: true, patterns: ['checkout', '/save\\d+/i', '/^/'] } })
+    );
+
+    expect(violations.map((v) => v.message)).toEqual([
+      'Matches the deny list entry "checkout"',
+      'Matches the deny list entry /save\\d+/i',
+    ]);
+  });
+});
+
+describe('parseSafetyRules', () => {
+  it('disables every rule for a brand that never configured them', () => {
+    const parsed = parseSafetyRules(null);
+
+    expect(Object.values(parsed).every((rule) => !rule.enabled)).toBe(true);
+  });
+
+  it('falls back to the defaults for invalid settings', () => {
+    expect(parseSafetyRules({ denyList: { enabled: true, patterns: ['/(/'] } })).toEqual(parseSafetyRules({}));
+  });
+});
+
+describe('safetyRulesSchema', () => {
+  const denyList = (patterns: string[]) => safetyRulesSchema.safeParse({ denyList: { enabled: true, patterns } });
+
+  it('accepts keywords and simple regular expressions', () => {
+    expect(denyList(['checkout', '/save\\d+/i', '/(?:promo|coupon) codes?/']).success).toBe(true);
+  });
+
+  it('rejects regular expressions that can backtrack for a long time', () => {
+    const result = denyList(['/(a+)+$/']);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toMatch(/too long to run/);
+  });
+
+  it('rejects overly long regular expressions', () => {
+    expect(denyList([`/${'a'.repeat(101)}/`]).success).toBe(false);
+  });
+});
+
+describe('describeViolations', () => {
+  it('joins the messages into one sentence', () => {
+    expect(describeViolations([
+      { rule: 'maxLinks', action: 'block', message: 'Too many links', spans: [] },
+      { rule: 'denyList', action: 'warn', message: 'Matches "x"', spans: [] },
+    ])).toBe('Too many links; Matches "x".');
+  });
+});
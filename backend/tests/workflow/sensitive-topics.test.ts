@@ -0,0 +1,64 @@
+import {
+  decideSensitivity,
+  describeTopics,
+  parseSensitiveTopicSettings,
+} from '../../src/services/workflow/sensitive-topics.service';
+import { SensitiveTopic } from '../../src/services/ai/ai.service';
+
+const defaults = parseSensitiveTopicSettings(null);
+
+function topic(category: SensitiveTopic['category'], severity: SensitiveTopic['severity']): SensitiveTopic {
+  return { category, severity, reason: `${category} mentioned` };
+}
+
+describe('decideSensitivity', () => {
+  it('allows a post without sensitive topics', () => {
+    expect(decideSensitivity([], defaults)).toEqual({ action: 'allow', topics: [], triggered: [] });
+  });
+
+  it('ignores topics below the minimum severity', () => {
+    const topics = [topic('grief', 'low')];
+
+    expect(decideSensitivity(topics, defaults)).toEqual({ action: 'allow', topics, triggered: [] });
+  });
+
+  it('takes the strictest action among the triggered topics', () => {
+    const grief = topic('grief', 'medium');
+    const selfHarm = topic('self_harm', 'high');
+
+    expect(decideSensitivity([grief, selfHarm], defaults)).toEqual({
+      action: 'block',
+      topics: [grief, selfHarm],
+      triggered: [grief, selfHarm],
+    });
+  });
+
+  it('follows the brand settings', () => {
+    const settings = parseSensitiveTopicSettings({
+      grief: { action: 'allow' },
+      addiction: { action: 'block', minSeverity: 'low' },
+    });
+
+    expect(decideSensitivity([topic('grief', 'high')], settings).action).toBe('allow');
+    expect(decideSensitivity([topic('addiction', 'low')], settings).action).toBe('block');
+  });
+});
+
+describe('parseSensitiveTopicSettings', () => {
+  it('fills in the defaults for categories the brand never configured', () => {
+    expect(parseSensitiveTopicSettings({ grief: { action: 'block' } })).toEqual({
+      ...defaults,
+      grief: { action: 'block', minSeverity: 'medium' },
+    });
+  });
+
+  it('falls back to the defaults for invalid settings', () => {
+    expect(parseSensitiveTopicSettings({ grief: { action: 'ignore' } })).toEqual(defaults);
+  });
+});
+
+describe('describeTopics', () => {
+  it('lists categories with their severity', () => {
+    expect(describeTopics([topic('self_harm', 'high'), topic('grief', 'low')])).toBe('self harm (high), grief (low)');
+  });
+});
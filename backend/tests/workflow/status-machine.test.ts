@@ -0,0 +1,63 @@
+import {
+  assertTransition,
+  canTransition,
+  getAllowedTransitions,
+  SYSTEM_STATUSES,
+} from '../../src/services/workflow/status-machine';
+import { ConflictError } from '../../src/api/middleware/errorHandler';
+
+const approved = {
+  status: 'approved' as const,
+  draftResponse: 'A draft',
+  editedResponse: null,
+  assignedAccountId: 'account-1',
+};
+
+describe('status machine', () => {
+  it('allows publishing an approved item with a draft and an account', () => {
+    expect(canTransition(approved, 'published')).toBe(true);
+  });
+
+  it('rejects publishing an item that is already published', () => {
+    const published = { ...approved, status: 'published' as const };
+
+    expect(canTransition(published, 'published')).toBe(false);
+    expect(() => assertTransition(published, 'published')).toThrow(ConflictError);
+  });
+
+  it('still allows staying in other statuses, e.g. to regenerate a draft', () => {
+    expect(canTransition({ ...approved, status: 'draft_ready' }, 'draft_ready')).toBe(true);
+  });
+
+  it('rejects moves missing from the transition table', () => {
+    expect(canTransition({ status: 'discovered' }, 'approved')).toBe(false);
+    expect(canTransition({ status: 'rejected' }, 'published')).toBe(false);
+  });
+
+  it('requires a draft for review statuses and an account for publishing', () => {
+    expect(canTransition({ status: 'draft_ready' }, 'in_review')).toBe(false);
+    expect(canTransition({ ...approved, assignedAccountId: null }, 'published')).toBe(false);
+  });
+
+  it('reports the reason and the current status in the conflict', () => {
+    expect(() => assertTransition({ status: 'discovered' }, 'approved')).toThrow(
+      expect.objectContaining({
+        message: 'Cannot move engagement from "discovered" to "approved"',
+        details: expect.objectContaining({ from: 'discovered', to: 'approved' }),
+      })
+    );
+  });
+
+  it('leaves system statuses out of the allowed transitions', () => {
+    const allowed = [
+      ...getAllowedTransitions({ status: 'discovered' }),
+      ...getAllowedTransitions(approved),
+    ];
+
+    for (const status of SYSTEM_STATUSES) {
+      expect(allowed).not.toContain(status);
+    }
+    expect(getAllowedTransitions(approved)).toEqual(['draft_ready', 'in_review', 'rejected']);
+    expect(getAllowedTransitions({ status: 'published' })).toEqual([]);
+  });
+});
@@ -6,6 +6,8 @@ import Dashboard from './pages/Dashboard';
 import Workflow from './pages/Workflow';
 import Accounts from './pages/Accounts';
 import Personas from './pages/Personas';
+import Competitors from './pages/Competitors';
+import KnowledgeBase from './pages/KnowledgeBase';
 import Keywords from './pages/Keywords';
 import Settings from './pages/Settings';
 import BrandSettings from './pages/BrandSettings';
@@ -34,6 +36,8 @@ function App() {
         <Route path="workflow" element={<Workflow />} />
         <Route path="accounts" element={<Accounts />} />
         <Route path="personas" element={<Personas />} />
+        <Route path="competitors" element={<Competitors />} />
+        <Route path="knowledge" element={<KnowledgeBase />} />
         <Route path="keywords" element={<Keywords />} />
         <Route path="gsc" element={<GSCAnalytics />} />
         <Route path="youtube" element={<YouTube />} />
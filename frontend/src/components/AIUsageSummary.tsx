@@ -0,0 +1,178 @@
+import { useQuery } from '@tanstack/react-query';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { analyticsApi } from '../services/api';
+import { Alert, LoadingSpinner } from './ui';
+import type { AIUsageReport } from '../types';
+
+const FEATURE_LABELS: Record<string, string> = {
+  discovery_analysis: 'Discovery auto-analysis',
+  analysis: 'Manual analysis',
+  generation: 'Draft generation',
+  refinement: 'Refinement',
+  proofreading: 'Proofreading',
+  competitor_analysis: 'Competitor analysis',
+  youtube_analysis: 'YouTube analysis',
+  persona_learning: 'Persona learning',
+  playground: 'Persona playground',
+  persona_bootstrap: 'Persona from account',
+  claim_verification: 'Claim verification',
+  subreddit_rules: 'Subreddit rules sync',
+  sensitivity_check: 'Sensitive-topic check',
+  other: 'Other',
+};
+
+function formatCost(cost: number): string {
+  return cost < 1 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export default function AIUsageSummary() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['analytics', 'ai-usage', 30],
+    queryFn: () => analyticsApi.getAIUsage(30),
+  });
+
+  const usage = data?.data as AIUsageReport | undefined;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!usage) return null;
+
+  const { budget } = usage;
+  const budgetUsed = budget.monthlyBudget
+    ? Math.min((budget.monthToDateCost / budget.monthlyBudget) * 100, 100)
+    : null;
+
+  return (
+    <div className="space-y-4">
+      {usage.totals.parseFailures > 0 && (
+        <Alert variant="info">
+          {usage.totals.parseFailures} AI {usage.totals.parseFailures === 1 ? 'response' : 'responses'} in the last {usage.days} days didn't match the expected format. See the model breakdown below to spot unreliable models.
+        </Alert>
+      )}
+
+      {budget.autoAnalysisPaused && (
+        <Alert variant="warning">
+          This month's AI budget has been reached. Auto-analysis of discovered posts is paused until next month or until the budget is raised.
+        </Alert>
+      )}
+
+      <div>
+        <div className="flex items-baseline justify-between text-sm">
+          <span className="text-slate-500 dark:text-slate-400">Spent this month</span>
+          <span className="font-semibold text-slate-900 dark:text-white">
+            {formatCost(budget.monthToDateCost)}
+            {budget.monthlyBudget !== null && (
+              <span className="font-normal text-slate-500 dark:text-slate-400">
+                {' '}of ${budget.monthlyBudget.toFixed(2)}
+              </span>
+            )}
+          </span>
+        </div>
+        {budgetUsed !== null && (
+          <div className="w-full h-2 bg-slate-100 dark:bg-slate-700 rounded-full mt-2 overflow-hidden">
+            <div
+              className={`h-full rounded-full ${budgetUsed >= 100 ? 'bg-red-500' : budgetUsed >= 80 ? 'bg-yellow-500' : 'bg-brand-600'}`}
+              style={{ width: `${budgetUsed}%` }}
+            />
+          </div>
+        )}
+      </div>
+
+      {usage.daily.length > 0 ? (
+        <>
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={usage.daily}>
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(value) =>
+                    new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                  }
+                  tick={{ fontSize: 11, fill: '#94a3b8' }}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <YAxis
+                  tickFormatter={(value) => `$${value}`}
+                  tick={{ fontSize: 11, fill: '#94a3b8' }}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <Tooltip
+                  labelFormatter={(value) => new Date(value).toLocaleDateString()}
+                  formatter={(value) => formatCost(Number(value ?? 0))}
+                />
+                <Bar dataKey="cost" fill="#0d9488" name="Cost" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="text-xs uppercase text-slate-500 dark:text-slate-400">
+                <th className="py-2 font-medium">Feature (last 30 days)</th>
+                <th className="py-2 font-medium text-right">Requests</th>
+                <th className="py-2 font-medium text-right">Tokens</th>
+                <th className="py-2 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {usage.byFeature.map((row) => (
+                <tr key={row.feature}>
+                  <td className="py-2 text-slate-700 dark:text-slate-300">
+                    {FEATURE_LABELS[row.feature] || row.feature}
+                  </td>
+                  <td className="py-2 text-right text-slate-600 dark:text-slate-400">{row.requests}</td>
+                  <td className="py-2 text-right text-slate-600 dark:text-slate-400">
+                    {(row.inputTokens + row.outputTokens).toLocaleString()}
+                  </td>
+                  <td className="py-2 text-right text-slate-600 dark:text-slate-400">{formatCost(row.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="text-xs uppercase text-slate-500 dark:text-slate-400">
+                <th className="py-2 font-medium">Model</th>
+                <th className="py-2 font-medium text-right">Requests</th>
+                <th className="py-2 font-medium text-right">Invalid responses</th>
+                <th className="py-2 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {usage.byModel.map((row) => (
+                <tr key={`${row.provider}:${row.model}`}>
+                  <td className="py-2 text-slate-700 dark:text-slate-300">
+                    {row.model}
+                    <span className="text-xs text-slate-500 dark:text-slate-400"> · {row.provider}</span>
+                  </td>
+                  <td className="py-2 text-right text-slate-600 dark:text-slate-400">{row.requests}</td>
+                  <td
+                    className={`py-2 text-right ${row.parseFailures > 0 ? 'text-red-600 dark:text-red-400 font-medium' : 'text-slate-600 dark:text-slate-400'}`}
+                    title="Responses that didn't match the expected format and needed a repair re-prompt"
+                  >
+                    {row.parseFailures}
+                    {row.requests > 0 && row.parseFailures > 0 && (
+                      <span className="text-xs font-normal"> ({Math.round((row.parseFailures / row.requests) * 100)}%)</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right text-slate-600 dark:text-slate-400">{formatCost(row.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No AI usage in the last 30 days.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { History, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import { auditApi } from '../services/api';
+import type { AuditEntityType, AuditLogEntry, PaginatedResponse } from '../types';
+
+const ACTION_LABELS: Record<string, string> = {
+  analyze: 'Analyzed post',
+  generate: 'Generated draft',
+  regenerate: 'Regenerated draft',
+  refine: 'Refined draft',
+  choose_candidate: 'Picked a draft variant',
+  revert_draft: 'Reverted draft',
+  approve_guidelines: 'Applied learned guidelines',
+  update: 'Edited',
+  transition: 'Moved',
+  approve: 'Approved',
+  reject: 'Rejected',
+  publish: 'Published',
+  publish_failed: 'Publishing failed',
+};
+
+// Fields that are worth calling out in the timeline
+const FIELD_LABELS: Record<string, string> = {
+  status: 'status',
+  editedResponse: 'response',
+  draftResponse: 'draft',
+  assignedAccountId: 'account',
+  reviewerNotes: 'notes',
+};
+
+function describeChanges(entry: AuditLogEntry): string | null {
+  const after = entry.newValue;
+  if (!after) return null;
+
+  const before = entry.oldValue || {};
+  const parts: string[] = [];
+
+  if (typeof after.status === 'string' && before.status !== after.status) {
+    parts.push(`${before.status ?? '—'} → ${after.status}`);
+  }
+
+  const otherFields = Object.keys(after)
+    .filter((key) => key !== 'status' && FIELD_LABELS[key])
+    .map((key) => FIELD_LABELS[key]);
+  if (otherFields.length > 0) {
+    parts.push(`changed ${otherFields.join(', ')}`);
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+interface ActivityTimelineProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+export default function ActivityTimeline({ entityType, entityId }: ActivityTimelineProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Keyed under 'engagements' so workflow mutations refresh the timeline too
+  const { data, isLoading } = useQuery({
+    queryKey: ['engagements', 'activity', entityType, entityId],
+    queryFn: () => auditApi.list({ entityType, entityId, limit: 50 }).then((res) => res.data as PaginatedResponse<AuditLogEntry>),
+    enabled: isOpen,
+  });
+
+  const entries = data?.items || [];
+
+  return (
+    <div className="pt-3 border-t dark:border-gray-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-sm font-medium text-gray-700 dark:text-gray-300"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Activity
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3">
+          {isLoading ? (
+            <div className="flex justify-center py-2">
+              <RefreshCw className="h-4 w-4 animate-spin text-gray-400" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No recorded activity yet</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-1.5 space-y-3">
+              {entries.map((entry) => {
+                const details = describeChanges(entry);
+                return (
+                  <li key={entry.id} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white dark:border-gray-800 bg-brand-500" />
+                    <p className="text-sm text-gray-900 dark:text-gray-100">
+                      {ACTION_LABELS[entry.action] || entry.action}
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {' '}by {entry.user?.name || 'System'}
+                      </span>
+                    </p>
+                    {details && (
+                      <p className="text-xs text-gray-600 dark:text-gray-400">{details}</p>
+                    )}
+                    <time className="text-xs text-gray-400" dateTime={entry.createdAt}>
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </time>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
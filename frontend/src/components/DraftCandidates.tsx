@@ -0,0 +1,119 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, Layers, Plus } from 'lucide-react';
+import { engagementsApi } from '../services/api';
+import { Alert, Badge, ButtonSpinner } from './ui';
+import type { DraftCandidate, EngagementItem } from '../types';
+
+interface DraftCandidatesProps {
+  item: EngagementItem;
+  editedResponse: string;
+  onEditedResponseChange: (value: string) => void;
+  onDraftChosen: (item: EngagementItem) => void;
+}
+
+export default function DraftCandidates({
+  item,
+  editedResponse,
+  onEditedResponseChange,
+  onDraftChosen,
+}: DraftCandidatesProps) {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['engagements', item.id, 'candidates'],
+    queryFn: () => engagementsApi.getCandidates(item.id),
+    enabled: ['draft_ready', 'in_review'].includes(item.status),
+  });
+
+  const chooseMutation = useMutation({
+    mutationFn: ({ candidateId, text }: { candidateId: string; text?: string }) =>
+      engagementsApi.chooseCandidate(item.id, candidateId, text),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['engagements'] });
+      onDraftChosen(response.data);
+    },
+  });
+
+  const candidates = (data?.data as DraftCandidate[] | undefined) || [];
+  if (candidates.length < 2) return null;
+
+  // The editor starts from the candidate saved as the draft; merges build on top of it
+  const base = candidates.find((c) => c.text === item.draftResponse) || candidates[0];
+  const hasMerge = editedResponse.trim() !== '' && editedResponse.trim() !== base.text.trim();
+
+  const appendToDraft = (candidate: DraftCandidate) => {
+    onEditedResponseChange(editedResponse ? `${editedResponse.trimEnd()}\n\n${candidate.text}` : candidate.text);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+          <Layers className="h-3.5 w-3.5" />
+          {candidates.length} drafts to compare
+        </p>
+        {hasMerge && (
+          <button
+            type="button"
+            onClick={() => chooseMutation.mutate({ candidateId: base.id, text: editedResponse })}
+            disabled={chooseMutation.isPending}
+            className="btn btn-primary text-xs py-1 px-2 flex items-center gap-1"
+            title="Keep the draft in the editor, including text merged from other candidates"
+          >
+            {chooseMutation.isPending ? <ButtonSpinner /> : <Check className="h-3 w-3" />}
+            Keep merged draft
+          </button>
+        )}
+      </div>
+
+      {chooseMutation.isError && (
+        <Alert variant="error">Failed to save the chosen draft. Please try again.</Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {candidates.map((candidate, index) => (
+          <div
+            key={candidate.id}
+            className={`rounded-lg border p-3 flex flex-col gap-2 ${
+              candidate.id === base.id
+                ? 'border-brand-300 dark:border-brand-700 bg-brand-50/50 dark:bg-brand-900/10'
+                : 'border-gray-200 dark:border-gray-700'
+            }`}
+          >
+            <div className="flex items-center gap-1.5 flex-wrap">
+              <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">#{index + 1}</span>
+              {candidate.style && <Badge variant="info">{candidate.style}</Badge>}
+              {candidate.length && <Badge variant="default">{candidate.length}</Badge>}
+              {candidate.temperature !== null && (
+                <span className="text-xs text-gray-400 dark:text-gray-500">temp {candidate.temperature}</span>
+              )}
+            </div>
+            <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap max-h-48 overflow-y-auto flex-1">
+              {candidate.text}
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => chooseMutation.mutate({ candidateId: candidate.id })}
+                disabled={chooseMutation.isPending}
+                className="btn btn-secondary text-xs py-1 px-2 flex items-center gap-1"
+              >
+                <Check className="h-3 w-3" />
+                Use this
+              </button>
+              <button
+                type="button"
+                onClick={() => appendToDraft(candidate)}
+                className="btn btn-ghost text-xs py-1 px-2 flex items-center gap-1"
+                title="Append this candidate to the draft in the editor"
+              >
+                <Plus className="h-3 w-3" />
+                Add to draft
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronDown, ChevronUp, GitCompare, RefreshCw, RotateCcw, Save } from 'lucide-react';
+import { engagementsApi } from '../services/api';
+import { diffWords } from '../utils/textDiff';
+import { Alert, ButtonSpinner } from './ui';
+import type { DraftRevision, DraftRevisionSource, EngagementItem } from '../types';
+
+const SOURCE_LABELS: Record<DraftRevisionSource, string> = {
+  generate: 'AI draft',
+  regenerate: 'AI regenerated',
+  candidate: 'Picked variant',
+  refine: 'AI refined',
+  proofread: 'Proofread suggestion',
+  edit: 'Edited',
+  revert: 'Reverted',
+};
+
+interface DraftHistoryProps {
+  item: EngagementItem;
+  editedResponse: string;
+  onDraftUpdated: (item: EngagementItem) => void;
+}
+
+export default function DraftHistory({ item, editedResponse, onDraftUpdated }: DraftHistoryProps) {
+  const queryClient = useQueryClient();
+  const [isOpen, setIsOpen] = useState(false);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  // Keyed under 'engagements' so workflow mutations refresh the history too
+  const { data, isLoading } = useQuery({
+    queryKey: ['engagements', item.id, 'revisions'],
+    queryFn: () => engagementsApi.getRevisions(item.id).then((res) => res.data as DraftRevision[]),
+    enabled: isOpen,
+  });
+
+  const onSuccess = (response: { data: EngagementItem }) => {
+    queryClient.invalidateQueries({ queryKey: ['engagements'] });
+    setCompareId(null);
+    onDraftUpdated(response.data);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => engagementsApi.update(item.id, { editedResponse }),
+    onSuccess,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: (revisionId: string) => engagementsApi.revertRevision(item.id, revisionId),
+    onSuccess,
+  });
+
+  const revisions = data || [];
+  const savedText = item.editedResponse || item.draftResponse || '';
+  const canEdit = item.status !== 'published';
+  const hasUnsavedEdit = canEdit && editedResponse.trim() !== '' && editedResponse !== savedText;
+  const compared = revisions.find((r) => r.id === compareId);
+
+  return (
+    <div className="pt-3 border-t dark:border-gray-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-sm font-medium text-gray-700 dark:text-gray-300"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <GitCompare className="h-4 w-4" />
+          Draft history
+          {data && <span className="text-xs text-gray-500 dark:text-gray-400">({revisions.length})</span>}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          {hasUnsavedEdit && (
+            <div className="flex items-center justify-between gap-2 bg-gray-50 dark:bg-gray-900 rounded-lg px-3 py-2">
+              <p className="text-xs text-gray-600 dark:text-gray-400">The editor has changes that aren't in the history yet.</p>
+              <button
+                type="button"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending}
+                className="btn btn-secondary text-xs py-1 px-2 flex items-center gap-1 shrink-0"
+              >
+                {saveMutation.isPending ? <ButtonSpinner /> : <Save className="h-3 w-3" />}
+                Save edit
+              </button>
+            </div>
+          )}
+
+          {(saveMutation.isError || revertMutation.isError) && (
+            <Alert variant="error">
+              {revertMutation.isError ? 'Failed to revert the draft.' : 'Failed to save the edit.'} Please try again.
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-2">
+              <RefreshCw className="h-4 w-4 animate-spin text-gray-400" />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No draft revisions recorded yet</p>
+          ) : (
+            <ol className="space-y-2">
+              {revisions.map((revision, index) => (
+                <li
+                  key={revision.id}
+                  className={`rounded-lg border px-3 py-2 ${
+                    revision.id === compareId
+                      ? 'border-brand-300 dark:border-brand-700'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-900 dark:text-gray-100">
+                        {SOURCE_LABELS[revision.source]}
+                        {revision.detail && (
+                          <span className="text-gray-500 dark:text-gray-400"> · {revision.detail}</span>
+                        )}
+                        {index === 0 && (
+                          <span className="ml-1.5 text-xs text-brand-600 dark:text-brand-400">latest</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {revision.createdBy?.name || 'System'}
+                        {revision.model && ` · ${revision.model}`}
+                        {' · '}
+                        <time dateTime={revision.createdAt}>{new Date(revision.createdAt).toLocaleString()}</time>
+                      </p>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => setCompareId(revision.id === compareId ? null : revision.id)}
+                        className="btn btn-ghost text-xs py-1 px-2"
+                        title="Show what changed between this revision and the draft in the editor"
+                      >
+                        {revision.id === compareId ? 'Hide' : 'Compare'}
+                      </button>
+                      {canEdit && revision.text !== savedText && (
+                        <button
+                          type="button"
+                          onClick={() => revertMutation.mutate(revision.id)}
+                          disabled={revertMutation.isPending}
+                          className="btn btn-ghost text-xs py-1 px-2 flex items-center gap-1"
+                        >
+                          {revertMutation.isPending && revertMutation.variables === revision.id ? (
+                            <ButtonSpinner />
+                          ) : (
+                            <RotateCcw className="h-3 w-3" />
+                          )}
+                          Revert
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {compared && (
+            <div className="space-y-1">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Changes from the selected revision to the current draft
+                <span className="ml-2 text-red-600 dark:text-red-400 line-through">removed</span>
+                <span className="ml-2 text-green-700 dark:text-green-400">added</span>
+              </p>
+              <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3 text-sm text-gray-700 dark:text-gray-300 max-h-64 overflow-y-auto whitespace-pre-wrap">
+                {diffWords(compared.text, editedResponse).map((segment, i) =>
+                  segment.type === 'equal' ? (
+                    <span key={i}>{segment.text}</span>
+                  ) : segment.type === 'removed' ? (
+                    <del key={i} className="bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+                      {segment.text}
+                    </del>
+                  ) : (
+                    <ins key={i} className="no-underline bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300">
+                      {segment.text}
+                    </ins>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
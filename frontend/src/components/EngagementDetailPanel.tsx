@@ -22,7 +22,18 @@ import {
   Maximize2,
   Palette,
   Settings2,
+  RotateCcw,
+  Square,
+  ShieldAlert,
+  HeartCrack,
 } from 'lucide-react';
+import ActivityTimeline from './ActivityTimeline';
+import DraftCandidates from './DraftCandidates';
+import DraftHistory from './DraftHistory';
+import KnowledgeSources from './KnowledgeSources';
+import ProofreadPanel from './ProofreadPanel';
+import SafetyReport from './SafetyReport';
+import { SENSITIVE_TOPIC_LABELS } from '../constants/sensitiveTopics';
 import type { EngagementItem, RedditAccount, GenerationOptions, CommentLength, CommentStyle } from '../types';
 
 const LAST_ACCOUNT_KEY = 'engage_last_account_id';
@@ -40,13 +51,20 @@ interface EngagementDetailPanelProps {
   onApprove: () => void;
   onReject: () => void;
   onPublish: () => void;
+  onReopen?: () => void;
   activeAccounts: RedditAccount[];
   isAnalyzing: boolean;
   isGenerating: boolean;
+  // Draft text received so far while a generation streams in; null when none is running
+  streamingDraft?: string | null;
+  onCancelGenerate?: () => void;
+  // Called when the saved draft changes outside the generate/refine flows (picking a variant, reverting)
+  onDraftUpdated: (item: EngagementItem) => void;
   isRefining: boolean;
   isApproving: boolean;
   isRejecting: boolean;
   isPublishing: boolean;
+  isReopening?: boolean;
   inline?: boolean;
 }
 
@@ -61,13 +79,18 @@ export default function EngagementDetailPanel({
   onApprove,
   onReject,
   onPublish,
+  onReopen,
   activeAccounts,
   isAnalyzing,
   isGenerating,
+  streamingDraft = null,
+  onCancelGenerate,
+  onDraftUpdated,
   isRefining,
   isApproving,
   isRejecting,
   isPublishing,
+  isReopening = false,
   inline = false,
 }: EngagementDetailPanelProps) {
   const [showPreview, setShowPreview] = useState(false);
@@ -77,6 +100,7 @@ export default function EngagementDetailPanel({
   const [showGenOptions, setShowGenOptions] = useState(false);
   const [genLength, setGenLength] = useState<CommentLength>('standard');
   const [genStyle, setGenStyle] = useState<CommentStyle>('friendly');
+  const [genVariants, setGenVariants] = useState(1);
   const [brandVoice, setBrandVoice] = useState('');
   const [customInstructions, setCustomInstructions] = useState('');
   const [showStyleDropdown, setShowStyleDropdown] = useState(false);
@@ -102,6 +126,7 @@ export default function EngagementDetailPanel({
       const options: GenerationOptions = {
         length: genLength,
         style: genStyle,
+        variants: genVariants,
         ...(brandVoice && { brandVoice }),
         ...(customInstructions && { customInstructions }),
       };
@@ -227,6 +252,42 @@ export default function EngagementDetailPanel({
             </div>
           )}
 
+          {!!item.sensitiveTopics?.length && (
+            <div className="rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-3 text-xs text-amber-800 dark:text-amber-300">
+              <p className="font-medium flex items-center gap-1">
+                <HeartCrack className="h-3.5 w-3.5" />
+                Sensitive topic
+              </p>
+              <ul className="mt-1 space-y-0.5">
+                {item.sensitiveTopics.map((topic) => (
+                  <li key={topic.category}>
+                    <span className="font-medium">{SENSITIVE_TOPIC_LABELS[topic.category]}</span> ({topic.severity})
+                    {topic.reason && `: ${topic.reason}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!!item.injectionFlags?.length && (
+            <div className="rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-3 text-xs text-red-800 dark:text-red-300">
+              <p className="font-medium flex items-center gap-1">
+                <ShieldAlert className="h-3.5 w-3.5" />
+                Possible prompt injection
+              </p>
+              <p className="mt-1">
+                This post contains text aimed at AI assistants. It was kept out of the AI's instructions, but check the analysis and draft for anything it steered.
+              </p>
+              <ul className="mt-1 list-disc list-inside">
+                {item.injectionFlags.map((flag, index) => (
+                  <li key={index}>
+                    {flag.reason}: <span className="font-mono">"{flag.text}"</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {item.aiAnalysis && (
             <div className="text-sm">
               <p className="font-medium text-gray-700 dark:text-gray-300">AI Analysis</p>
@@ -238,6 +299,11 @@ export default function EngagementDetailPanel({
                   <span className="font-medium">Cautions:</span> {item.aiAnalysis.cautions.join(', ')}
                 </div>
               )}
+              {item.aiAnalysis.ai_model && (
+                <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+                  via {item.aiAnalysis.ai_provider} · {item.aiAnalysis.ai_model}
+                </p>
+              )}
             </div>
           )}
 
@@ -287,6 +353,19 @@ export default function EngagementDetailPanel({
                       </select>
                     </div>
                   </div>
+                  <div>
+                    <label className="text-xs font-medium text-gray-600 dark:text-gray-400">Drafts to compare</label>
+                    <select
+                      value={genVariants}
+                      onChange={(e) => setGenVariants(Number(e.target.value))}
+                      className="input text-xs py-1 mt-1"
+                    >
+                      <option value={1}>1 (streams as it writes)</option>
+                      <option value={2}>2 side by side</option>
+                      <option value={3}>3 side by side</option>
+                      <option value={4}>4 side by side</option>
+                    </select>
+                  </div>
                   <div>
                     <label className="text-xs font-medium text-gray-600 dark:text-gray-400">Brand Voice (optional)</label>
                     <textarea
@@ -350,7 +429,7 @@ export default function EngagementDetailPanel({
                 </div>
               ) : (
                 <button
-                  onClick={() => onGenerate('', { length: genLength, style: genStyle, brandVoice, customInstructions })}
+                  onClick={() => onGenerate('', { length: genLength, style: genStyle, variants: genVariants, brandVoice, customInstructions })}
                   disabled={isGenerating}
                   className="btn btn-primary w-full text-sm flex items-center justify-center gap-2"
                 >
@@ -375,6 +454,11 @@ export default function EngagementDetailPanel({
                 <div className="flex items-center justify-between">
                   <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
                     {splitView ? 'Your Response' : 'Response'}
+                    {item.draftModel && (
+                      <span className="ml-2 text-xs font-normal text-gray-400 dark:text-gray-500">
+                        via {item.draftProvider} · {item.draftModel}
+                      </span>
+                    )}
                   </p>
                   <button
                     onClick={() => setShowPreview(!showPreview)}
@@ -500,6 +584,7 @@ export default function EngagementDetailPanel({
                   {charCount.toLocaleString()} / {REDDIT_CHAR_LIMIT.toLocaleString()}
                   {isOverLimit && ' (over limit!)'}
                 </div>
+                <KnowledgeSources sources={item.draftSources} />
               </div>
             )}
 
@@ -554,7 +639,7 @@ export default function EngagementDetailPanel({
                   </>
                 ) : (
                   <button
-                    onClick={() => onGenerate('', { length: genLength, style: genStyle, brandVoice, customInstructions })}
+                    onClick={() => onGenerate('', { length: genLength, style: genStyle, variants: genVariants, brandVoice, customInstructions })}
                     disabled={isGenerating}
                     className="btn btn-primary w-full text-sm flex items-center justify-center gap-2"
                   >
@@ -572,6 +657,41 @@ export default function EngagementDetailPanel({
         )}
       </div>
 
+      {/* Draft being written - replaces the saved draft once the stream finishes */}
+      {isGenerating && streamingDraft !== null && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+              <RefreshCw className="h-3.5 w-3.5 animate-spin text-brand-600" />
+              Writing draft...
+            </p>
+            {onCancelGenerate && (
+              <button
+                type="button"
+                onClick={onCancelGenerate}
+                className="text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 flex items-center gap-1"
+                title="Stop generating and keep the current draft"
+              >
+                <Square className="h-3 w-3 fill-current" />
+                Stop
+              </button>
+            )}
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3 text-sm text-gray-700 dark:text-gray-300 min-h-[120px] max-h-64 overflow-y-auto whitespace-pre-wrap">
+            {streamingDraft || <span className="text-gray-400 dark:text-gray-500">Waiting for the model...</span>}
+          </div>
+        </div>
+      )}
+
+      {!isGenerating && (
+        <DraftCandidates
+          item={item}
+          editedResponse={editedResponse}
+          onEditedResponseChange={onEditedResponseChange}
+          onDraftChosen={onDraftUpdated}
+        />
+      )}
+
       {/* Actions */}
       <div className="flex flex-col gap-2 pt-3 border-t dark:border-gray-700">
         {(item.status === 'discovered' || item.status === 'analyzing') && (
@@ -597,7 +717,7 @@ export default function EngagementDetailPanel({
               <p className="text-xs mt-1">Create a response draft to engage with this post.</p>
             </div>
             <button
-              onClick={() => onGenerate(selectedAccountId || '', { length: genLength, style: genStyle, brandVoice, customInstructions })}
+              onClick={() => onGenerate(selectedAccountId || '', { length: genLength, style: genStyle, variants: genVariants, brandVoice, customInstructions })}
               disabled={isGenerating}
               className="btn btn-primary w-full py-2.5 flex items-center justify-center gap-2"
             >
@@ -615,7 +735,7 @@ export default function EngagementDetailPanel({
           <div className="space-y-2">
             {/* Regenerate option */}
             <button
-              onClick={() => onGenerate(selectedAccountId || '', { length: genLength, style: genStyle, brandVoice, customInstructions })}
+              onClick={() => onGenerate(selectedAccountId || '', { length: genLength, style: genStyle, variants: genVariants, brandVoice, customInstructions })}
               disabled={isGenerating}
               className="btn btn-secondary w-full py-2 flex items-center justify-center gap-2 text-sm"
             >
@@ -693,6 +813,16 @@ export default function EngagementDetailPanel({
           <div className="text-sm text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-900 rounded-lg p-3 text-center">
             <X className="h-5 w-5 mx-auto mb-1" />
             <p>This item was rejected</p>
+            {onReopen && (
+              <button
+                onClick={onReopen}
+                disabled={isReopening}
+                className="btn btn-secondary py-1.5 mt-2 inline-flex items-center gap-1 text-xs"
+              >
+                <RotateCcw className={`h-3.5 w-3.5 ${isReopening ? 'animate-spin' : ''}`} />
+                Re-open
+              </button>
+            )}
           </div>
         )}
 
@@ -701,9 +831,33 @@ export default function EngagementDetailPanel({
             <X className="h-5 w-5 mx-auto mb-1" />
             <p className="font-medium">Publishing failed</p>
             <p className="text-xs mt-1">Check your account connection and try again</p>
+            {onReopen && (
+              <button
+                onClick={onReopen}
+                disabled={isReopening}
+                className="btn btn-secondary py-1.5 mt-2 inline-flex items-center gap-1 text-xs"
+              >
+                <RotateCcw className={`h-3.5 w-3.5 ${isReopening ? 'animate-spin' : ''}`} />
+                Back to review
+              </button>
+            )}
           </div>
         )}
       </div>
+
+      {(item.draftResponse || item.editedResponse) && (
+        <SafetyReport item={item} editedResponse={editedResponse} />
+      )}
+
+      {(item.draftResponse || item.editedResponse) && (
+        <ProofreadPanel key={item.id} item={item} onDraftUpdated={onDraftUpdated} />
+      )}
+
+      {(item.draftResponse || item.editedResponse) && (
+        <DraftHistory item={item} editedResponse={editedResponse} onDraftUpdated={onDraftUpdated} />
+      )}
+
+      <ActivityTimeline entityType="engagement" entityId={item.id} />
     </div>
   );
 }
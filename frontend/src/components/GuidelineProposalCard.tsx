@@ -0,0 +1,127 @@
+import { Check, Lightbulb, X } from 'lucide-react';
+import { diffWords } from '../utils/textDiff';
+import { Badge, ButtonSpinner } from './ui';
+import type { GuidelineFindingKind, PersonaGuidelineProposal } from '../types';
+
+const FINDING_LABELS: Record<GuidelineFindingKind, string> = {
+  banned_phrase: 'Phrase',
+  length: 'Length',
+  sign_off: 'Sign-off',
+  formatting: 'Formatting',
+};
+
+interface GuidelineProposalCardProps {
+  proposal: PersonaGuidelineProposal;
+  canReview: boolean;
+  onApprove: () => void;
+  onReject: () => void;
+  isApproving: boolean;
+  isRejecting: boolean;
+}
+
+export default function GuidelineProposalCard({
+  proposal,
+  canReview,
+  onApprove,
+  onReject,
+  isApproving,
+  isRejecting,
+}: GuidelineProposalCardProps) {
+  const newExamples = proposal.proposedExamples.filter(
+    (example) => !proposal.persona.exampleResponses.includes(example)
+  );
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+            <Lightbulb className="h-4 w-4 text-yellow-500" />
+            Suggested update for {proposal.persona.name}
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Learned from {proposal.sampleSize} reviewer-edited comments · {new Date(proposal.createdAt).toLocaleDateString()}
+          </p>
+        </div>
+        {canReview && (
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={onReject}
+              disabled={isApproving || isRejecting}
+              className="btn btn-secondary text-sm flex items-center gap-1"
+            >
+              {isRejecting ? <ButtonSpinner /> : <X className="h-4 w-4" />}
+              Dismiss
+            </button>
+            <button
+              onClick={onApprove}
+              disabled={isApproving || isRejecting}
+              className="btn btn-primary text-sm flex items-center gap-1"
+            >
+              {isApproving ? <ButtonSpinner /> : <Check className="h-4 w-4" />}
+              Apply
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-2">
+          Recurring corrections
+        </p>
+        <ul className="space-y-1.5">
+          {proposal.findings.map((finding) => (
+            <li key={finding.description} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <Badge variant="gray" size="sm">{FINDING_LABELS[finding.kind]}</Badge>
+              <span>
+                {finding.description}
+                {finding.kind === 'sign_off' && finding.examples.length > 0 && (
+                  <span className="text-gray-500 dark:text-gray-400"> (e.g. "{finding.examples.join('", "')}")</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-2">
+          Writing guidelines
+        </p>
+        <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap max-h-64 overflow-y-auto">
+          {diffWords(proposal.currentGuidelines || '', proposal.proposedGuidelines).map((segment, i) =>
+            segment.type === 'equal' ? (
+              <span key={i}>{segment.text}</span>
+            ) : segment.type === 'removed' ? (
+              <del key={i} className="bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+                {segment.text}
+              </del>
+            ) : (
+              <ins key={i} className="no-underline bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300">
+                {segment.text}
+              </ins>
+            )
+          )}
+        </div>
+      </div>
+
+      {newExamples.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-2">
+            New example responses
+          </p>
+          <ul className="space-y-2">
+            {newExamples.map((example) => (
+              <li
+                key={example}
+                className="text-sm text-gray-700 dark:text-gray-300 border-l-2 border-green-400 pl-3 line-clamp-4"
+              >
+                {example}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,8 +17,10 @@ import {
 } from '@dnd-kit/sortable';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { ExternalLink, GripVertical, ChevronLeft, ChevronRight } from 'lucide-react';
-import type { EngagementItem, EngagementStatus } from '../types';
+import { ExternalLink, GripVertical, ChevronLeft, ChevronRight, ShieldAlert, HeartCrack } from 'lucide-react';
+import { Badge } from './ui';
+import { SENSITIVE_TOPIC_LABELS } from '../constants/sensitiveTopics';
+import type { EngagementItem, EngagementStatus, SensitiveTopic } from '../types';
 
 interface KanbanBoardProps {
   items: EngagementItem[];
@@ -35,6 +37,17 @@ const COLUMNS: { id: EngagementStatus; title: string; color: string }[] = [
   { id: 'published', title: 'Published', color: 'bg-green-600' },
 ];
 
+// Passing mentions (low severity) aren't worth a badge
+function badgeTopics(item: EngagementItem): SensitiveTopic[] {
+  return (item.sensitiveTopics || [])
+    .filter((topic) => topic.severity !== 'low')
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'high' ? -1 : 1));
+}
+
+// Only statuses the server reports as legal next steps can be dropped on
+const canMoveTo = (item: EngagementItem, status: EngagementStatus) =>
+  !!item.allowedTransitions?.includes(status);
+
 interface KanbanCardProps {
   item: EngagementItem;
   onClick: () => void;
@@ -74,6 +87,8 @@ function KanbanCard({ item, onClick, isSelected, onKeyDown, onMoveToColumn }: Ka
     onKeyDown?.(e);
   };
 
+  const sensitiveTopics = badgeTopics(item);
+
   return (
     <div
       ref={setNodeRef}
@@ -112,6 +127,29 @@ function KanbanCard({ item, onClick, isSelected, onKeyDown, onMoveToColumn }: Ka
                 · {item.relevanceScore}/10
               </span>
             )}
+            {!!item.injectionFlags?.length && (
+              <Badge
+                variant="danger"
+                size="sm"
+                icon={<ShieldAlert className="h-3 w-3" aria-hidden="true" />}
+                className="ml-auto"
+              >
+                <span title={item.injectionFlags.map((flag) => flag.reason).join('\n')}>Injection</span>
+              </Badge>
+            )}
+            {sensitiveTopics.length > 0 && (
+              <Badge
+                variant={sensitiveTopics[0].severity === 'high' ? 'danger' : 'warning'}
+                size="sm"
+                icon={<HeartCrack className="h-3 w-3" aria-hidden="true" />}
+                className={item.injectionFlags?.length ? '' : 'ml-auto'}
+              >
+                <span title={sensitiveTopics.map((topic) => `${SENSITIVE_TOPIC_LABELS[topic.category]} (${topic.severity}): ${topic.reason}`).join('\n')}>
+                  {SENSITIVE_TOPIC_LABELS[sensitiveTopics[0].category]}
+                  {sensitiveTopics.length > 1 && ` +${sensitiveTopics.length - 1}`}
+                </span>
+              </Badge>
+            )}
           </div>
           {item.commentScore !== undefined && item.commentScore !== null && (
             <span className="text-xs text-green-600 dark:text-green-400 mt-1 inline-block">
@@ -142,6 +180,7 @@ function KanbanColumn({
   onMoveItem,
   columnIndex,
   totalColumns,
+  isDropDisabled = false,
 }: {
   column: (typeof COLUMNS)[0];
   items: EngagementItem[];
@@ -150,15 +189,17 @@ function KanbanColumn({
   onMoveItem?: (itemId: string, direction: 'left' | 'right') => void;
   columnIndex: number;
   totalColumns: number;
+  isDropDisabled?: boolean;
 }) {
   const columnRef = useRef<HTMLDivElement>(null);
 
   return (
     <div
       ref={columnRef}
-      className="flex-1 min-w-[280px] max-w-[320px]"
+      className={`flex-1 min-w-[280px] max-w-[320px] transition-opacity ${isDropDisabled ? 'opacity-40' : ''}`}
       role="group"
       aria-labelledby={`column-${column.id}-title`}
+      aria-disabled={isDropDisabled}
     >
       <div className="flex items-center gap-2 mb-3">
         <div className={`w-3 h-3 rounded-full ${column.color}`} aria-hidden="true" />
@@ -271,6 +312,10 @@ export default function KanbanBoard({
     });
 
     if (overColumn && overColumn.id !== activeItem.status) {
+      if (!canMoveTo(activeItem, overColumn.id)) {
+        setAnnouncement(`${activeItem.postTitle} cannot be moved to ${overColumn.title}.`);
+        return;
+      }
       onStatusChange(activeItem.id, overColumn.id);
       setAnnouncement(`Moved ${activeItem.postTitle} to ${overColumn.title}.`);
     } else {
@@ -289,6 +334,10 @@ export default function KanbanBoard({
 
       if (newColumnIndex >= 0 && newColumnIndex < COLUMNS.length) {
         const newColumn = COLUMNS[newColumnIndex];
+        if (!canMoveTo(item, newColumn.id)) {
+          setAnnouncement(`${item.postTitle} cannot be moved to ${newColumn.title}.`);
+          return;
+        }
         onStatusChange(itemId, newColumn.id);
         setAnnouncement(`Moved ${item.postTitle} to ${newColumn.title}.`);
       }
@@ -311,7 +360,10 @@ export default function KanbanBoard({
         const columnItems = getItemsByStatus(col.id);
         return columnItems.some((i) => i.id === over.id) || over.id === col.id;
       });
-      return item && overColumn ? `Over ${overColumn.title} column` : '';
+      if (!item || !overColumn) return '';
+      return canMoveTo(item, overColumn.id) || overColumn.id === item.status
+        ? `Over ${overColumn.title} column`
+        : `Over ${overColumn.title} column. This move is not allowed.`;
     },
     onDragEnd({ active, over }) {
       if (!over) return 'Dropped outside';
@@ -367,6 +419,9 @@ export default function KanbanBoard({
               onMoveItem={handleMoveItem}
               columnIndex={index}
               totalColumns={COLUMNS.length}
+              isDropDisabled={
+                !!activeItem && column.id !== activeItem.status && !canMoveTo(activeItem, column.id)
+              }
             />
           ))}
         </div>
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { BookOpen, ChevronDown, ChevronUp } from 'lucide-react';
+import type { KnowledgeSnippet } from '../types';
+
+interface KnowledgeSourcesProps {
+  sources?: KnowledgeSnippet[];
+  label?: string;
+}
+
+// Knowledge base snippets a draft or proofread cited, collapsed to their titles
+export default function KnowledgeSources({ sources, label = 'Sources' }: KnowledgeSourcesProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!sources || sources.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="text-xs">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        aria-expanded={isOpen}
+      >
+        <BookOpen className="h-3.5 w-3.5" />
+        {label}: {sources.map((s) => s.heading || s.title).join(', ')}
+        {isOpen ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+      </button>
+      {isOpen && (
+        <ul className="mt-2 space-y-2">
+          {sources.map((source) => (
+            <li key={source.chunkId} className="border-l-2 border-brand-300 dark:border-brand-700 pl-2">
+              <p className="font-medium text-gray-700 dark:text-gray-300">
+                {[source.title, source.heading].filter(Boolean).join(' › ')}
+              </p>
+              <p className="text-gray-600 dark:text-gray-400 whitespace-pre-wrap line-clamp-4">{source.content}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
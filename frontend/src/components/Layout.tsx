@@ -46,6 +46,8 @@ const navigationGroups: NavGroup[] = [
       { name: 'Brand Settings', href: '/brand-settings', icon: 'storefront' },
       { name: 'Accounts', href: '/accounts', icon: 'manage_accounts' },
       { name: 'Personas', href: '/personas', icon: 'face' },
+      { name: 'Competitors', href: '/competitors', icon: 'radar' },
+      { name: 'Knowledge Base', href: '/knowledge', icon: 'menu_book' },
       { name: 'Configuration', href: '/settings', icon: 'settings' },
     ],
   },
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import { Wand2 } from 'lucide-react';
+import { accountsApi } from '../services/api';
+import { Alert, ButtonSpinner, FormField, Modal, ModalActions } from './ui';
+import type { PersonaDraft, RedditAccount } from '../types';
+
+interface PersonaFromAccountProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDrafted: (draft: PersonaDraft, account: RedditAccount) => void;
+}
+
+export default function PersonaFromAccount({ isOpen, onClose, onDrafted }: PersonaFromAccountProps) {
+  const [accountId, setAccountId] = useState('');
+
+  const { data: accountsData } = useQuery({
+    queryKey: ['accounts'],
+    queryFn: () => accountsApi.list(),
+    enabled: isOpen,
+  });
+  const accounts = (accountsData?.data as RedditAccount[] | undefined) || [];
+
+  const draftMutation = useMutation({
+    mutationFn: (id: string) => accountsApi.draftPersona(id).then((res) => res.data as PersonaDraft),
+    onSuccess: (draft, id) => {
+      const account = accounts.find((a) => a.id === id);
+      if (account) {
+        onDrafted(draft, account);
+      }
+    },
+  });
+  const draftError = draftMutation.error as AxiosError<{ error?: string }> | null;
+
+  const handleClose = () => {
+    draftMutation.reset();
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Draft Persona from Account"
+      description="Reads the account's recent public comments and drafts a persona in its voice. You can edit everything before saving."
+    >
+      <div className="space-y-4">
+        <FormField label="Reddit account" htmlFor="persona-source-account" required>
+          <select
+            id="persona-source-account"
+            value={accountId}
+            onChange={(e) => setAccountId(e.target.value)}
+            className="input"
+          >
+            <option value="">Select an account...</option>
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                u/{account.username}
+                {account.persona && ` (persona: ${account.persona.name})`}
+              </option>
+            ))}
+          </select>
+        </FormField>
+
+        {draftError && (
+          <Alert variant="error">{draftError.response?.data?.error || 'Failed to draft a persona'}</Alert>
+        )}
+
+        <ModalActions>
+          <button type="button" onClick={handleClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => draftMutation.mutate(accountId)}
+            disabled={!accountId || draftMutation.isPending}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            {draftMutation.isPending ? <ButtonSpinner /> : <Wand2 className="h-4 w-4" />}
+            {draftMutation.isPending ? 'Reading comments...' : 'Draft persona'}
+          </button>
+        </ModalActions>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import { CheckCircle, FlaskConical, XCircle } from 'lucide-react';
+import { engagementsApi, personasApi } from '../services/api';
+import { Alert, Badge, ButtonSpinner, Checkbox, FormField, Input, Modal, Textarea } from './ui';
+import KnowledgeSources from './KnowledgeSources';
+import type {
+  CommentLength,
+  CommentStyle,
+  EngagementItem,
+  PaginatedResponse,
+  Persona,
+  PlaygroundRequest,
+  PlaygroundResponse,
+} from '../types';
+
+const MAX_PERSONAS = 4;
+
+interface PersonaPlaygroundProps {
+  isOpen: boolean;
+  onClose: () => void;
+  personas: Persona[];
+}
+
+export default function PersonaPlayground({ isOpen, onClose, personas }: PersonaPlaygroundProps) {
+  const [source, setSource] = useState<'paste' | 'engagement'>('paste');
+  const [subreddit, setSubreddit] = useState('');
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [engagementItemId, setEngagementItemId] = useState('');
+  const [personaIds, setPersonaIds] = useState<string[]>([]);
+  const [length, setLength] = useState<CommentLength>('standard');
+  const [style, setStyle] = useState<CommentStyle>('friendly');
+  const [proofread, setProofread] = useState(true);
+
+  const { data: engagementsData } = useQuery({
+    queryKey: ['engagements', 'playground-posts'],
+    queryFn: () => engagementsApi.list({ limit: 50 }).then((res) => res.data as PaginatedResponse<EngagementItem>),
+    enabled: isOpen && source === 'engagement',
+  });
+  const engagements = engagementsData?.items || [];
+
+  const runMutation = useMutation({
+    mutationFn: (data: PlaygroundRequest) => personasApi.playground(data).then((res) => res.data as PlaygroundResponse),
+  });
+  const runError = runMutation.error as AxiosError<{ error?: string }> | null;
+
+  const togglePersona = (id: string) => {
+    setPersonaIds((current) =>
+      current.includes(id) ? current.filter((p) => p !== id) : [...current, id].slice(-MAX_PERSONAS)
+    );
+  };
+
+  const hasPost = source === 'paste' ? subreddit.trim() !== '' && title.trim() !== '' : engagementItemId !== '';
+  const canRun = hasPost && personaIds.length > 0 && !runMutation.isPending;
+
+  const handleRun = () => {
+    runMutation.mutate({
+      personaIds,
+      ...(source === 'paste'
+        ? { post: { subreddit: subreddit.trim().replace(/^r\//, ''), title: title.trim(), content } }
+        : { engagementItemId }),
+      options: { length, style },
+      proofread,
+    });
+  };
+
+  const results = runMutation.data?.results || [];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Persona Playground"
+      description="Try personas on a sample post. Nothing is saved to your engagements."
+      size="4xl"
+    >
+      <div className="space-y-4">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setSource('paste')}
+            className={`btn text-sm ${source === 'paste' ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            Paste a post
+          </button>
+          <button
+            type="button"
+            onClick={() => setSource('engagement')}
+            className={`btn text-sm ${source === 'engagement' ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            Pick an engagement
+          </button>
+        </div>
+
+        {source === 'paste' ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <FormField label="Subreddit" htmlFor="playground-subreddit" required>
+                <Input
+                  id="playground-subreddit"
+                  value={subreddit}
+                  onChange={(e) => setSubreddit(e.target.value)}
+                  placeholder="fitness"
+                />
+              </FormField>
+              <div className="md:col-span-2">
+                <FormField label="Post title" htmlFor="playground-title" required>
+                  <Input
+                    id="playground-title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="What's the most time-efficient cardio?"
+                  />
+                </FormField>
+              </div>
+            </div>
+            <FormField label="Post body" htmlFor="playground-content">
+              <Textarea
+                id="playground-content"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                rows={4}
+                placeholder="Paste the post text..."
+              />
+            </FormField>
+          </div>
+        ) : (
+          <FormField label="Engagement" htmlFor="playground-engagement" required>
+            <select
+              id="playground-engagement"
+              value={engagementItemId}
+              onChange={(e) => setEngagementItemId(e.target.value)}
+              className="input"
+            >
+              <option value="">Select a discovered post...</option>
+              {engagements.map((item) => (
+                <option key={item.id} value={item.id}>
+                  r/{item.subreddit} · {item.postTitle}
+                </option>
+              ))}
+            </select>
+          </FormField>
+        )}
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Personas <span className="font-normal text-gray-500 dark:text-gray-400">(up to {MAX_PERSONAS})</span>
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {personas.map((persona) => (
+              <Checkbox
+                key={persona.id}
+                id={`playground-persona-${persona.id}`}
+                label={persona.name}
+                checked={personaIds.includes(persona.id)}
+                onChange={() => togglePersona(persona.id)}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <FormField label="Length" htmlFor="playground-length">
+            <select
+              id="playground-length"
+              value={length}
+              onChange={(e) => setLength(e.target.value as CommentLength)}
+              className="input"
+            >
+              <option value="concise">Concise (~80 words)</option>
+              <option value="standard">Standard (~150 words)</option>
+              <option value="detailed">Detailed (~250 words)</option>
+            </select>
+          </FormField>
+          <FormField label="Style" htmlFor="playground-style">
+            <select
+              id="playground-style"
+              value={style}
+              onChange={(e) => setStyle(e.target.value as CommentStyle)}
+              className="input"
+            >
+              <option value="friendly">Friendly</option>
+              <option value="casual">Casual</option>
+              <option value="professional">Professional</option>
+              <option value="technical">Technical</option>
+            </select>
+          </FormField>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Checkbox
+            id="playground-proofread"
+            label="Proofread each draft"
+            checked={proofread}
+            onChange={(e) => setProofread(e.target.checked)}
+          />
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={!canRun}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            {runMutation.isPending ? <ButtonSpinner /> : <FlaskConical className="h-4 w-4" />}
+            {runMutation.isPending ? 'Writing...' : 'Try personas'}
+          </button>
+        </div>
+
+        {runError && (
+          <Alert variant="error">{runError.response?.data?.error || 'Failed to run the playground'}</Alert>
+        )}
+
+        {results.length > 0 && (
+          <div className={`grid grid-cols-1 gap-3 ${results.length > 1 ? 'md:grid-cols-2' : ''}`}>
+            {results.map((result) => (
+              <div key={result.personaId} className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="font-semibold text-gray-900 dark:text-gray-100">{result.personaName}</h4>
+                  {result.proofread && (
+                    <Badge
+                      variant={result.proofread.approval_recommendation ? 'success' : 'warning'}
+                      icon={result.proofread.approval_recommendation
+                        ? <CheckCircle className="h-3 w-3" />
+                        : <XCircle className="h-3 w-3" />}
+                    >
+                      {result.proofread.confidence_score}/10
+                    </Badge>
+                  )}
+                </div>
+
+                {result.error ? (
+                  <Alert variant="error">{result.error}</Alert>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{result.draft?.text}</p>
+                    {result.draft && (
+                      <p className="text-xs text-gray-400 dark:text-gray-500">{result.draft.model}</p>
+                    )}
+                    <KnowledgeSources sources={result.draft?.sources} />
+                    {result.proofread && result.proofread.issues.length > 0 && (
+                      <div className="pt-2 border-t dark:border-gray-700">
+                        <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mb-1">Proofread issues</p>
+                        <ul className="list-disc list-inside text-xs text-gray-600 dark:text-gray-400 space-y-0.5">
+                          {result.proofread.issues.map((issue) => (
+                            <li key={issue}>{issue}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <KnowledgeSources sources={result.proofread?.sources} label="Checked against" />
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,138 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import { CheckCircle, HelpCircle, ShieldCheck, XCircle } from 'lucide-react';
+import { engagementsApi } from '../services/api';
+import { Alert, Badge, ButtonSpinner } from './ui';
+import KnowledgeSources from './KnowledgeSources';
+import type { ClaimStatus, EngagementItem, EngagementProofreadResult } from '../types';
+
+const CLAIM_BADGES: Record<ClaimStatus, { variant: 'success' | 'warning' | 'danger'; label: string; icon: JSX.Element }> = {
+  supported: { variant: 'success', label: 'Supported', icon: <CheckCircle className="h-3 w-3" /> },
+  unsupported: { variant: 'warning', label: 'Unsupported', icon: <HelpCircle className="h-3 w-3" /> },
+  contradicted: { variant: 'danger', label: 'Contradicted', icon: <XCircle className="h-3 w-3" /> },
+};
+
+interface ProofreadPanelProps {
+  item: EngagementItem;
+  onDraftUpdated: (item: EngagementItem) => void;
+}
+
+export default function ProofreadPanel({ item, onDraftUpdated }: ProofreadPanelProps) {
+  const queryClient = useQueryClient();
+
+  const proofreadMutation = useMutation({
+    mutationFn: () => engagementsApi.proofread(item.id).then((res) => res.data as EngagementProofreadResult),
+  });
+  const proofreadError = proofreadMutation.error as AxiosError<{ error?: string }> | null;
+
+  const applyMutation = useMutation({
+    mutationFn: (text: string) => engagementsApi.update(item.id, { editedResponse: text, revisionSource: 'proofread' }),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['engagements'] });
+      onDraftUpdated(response.data);
+    },
+  });
+
+  const result = proofreadMutation.data;
+  const savedText = item.editedResponse || item.draftResponse || '';
+  const claimCheck = result?.claimCheck ?? item.claimCheck ?? null;
+  const isStale = !!claimCheck && claimCheck.text !== savedText;
+  const contradicted = claimCheck?.claims.filter((c) => c.status === 'contradicted') || [];
+  const canEdit = item.status !== 'published';
+
+  return (
+    <div className="pt-3 border-t dark:border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Proofread & claims
+        </p>
+        <button
+          type="button"
+          onClick={() => proofreadMutation.mutate()}
+          disabled={proofreadMutation.isPending || !savedText}
+          className="btn btn-secondary text-xs py-1 px-2 flex items-center gap-1"
+          title="Proofreads the saved draft and checks its product and competitor claims"
+        >
+          {proofreadMutation.isPending && <ButtonSpinner />}
+          {result || claimCheck ? 'Check again' : 'Proofread'}
+        </button>
+      </div>
+
+      {proofreadError && (
+        <Alert variant="error">{proofreadError.response?.data?.error || 'Failed to proofread the draft'}</Alert>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge
+              variant={result.approval_recommendation ? 'success' : 'warning'}
+              icon={result.approval_recommendation ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+            >
+              {result.confidence_score}/10
+            </Badge>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {result.approval_recommendation ? 'Looks ready to approve' : 'Needs another pass'}
+            </span>
+          </div>
+          {result.issues.length > 0 && (
+            <ul className="list-disc list-inside text-xs text-gray-600 dark:text-gray-400 space-y-0.5">
+              {result.issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+          {canEdit && result.revised_text.trim() && result.revised_text.trim() !== savedText.trim() && (
+            <button
+              type="button"
+              onClick={() => applyMutation.mutate(result.revised_text)}
+              disabled={applyMutation.isPending}
+              className="btn btn-ghost text-xs py-1 px-2 flex items-center gap-1"
+            >
+              {applyMutation.isPending && <ButtonSpinner />}
+              Use revised text
+            </button>
+          )}
+          <KnowledgeSources sources={result.sources} label="Checked against" />
+        </div>
+      )}
+
+      {claimCheck && (
+        <div className="space-y-2">
+          {contradicted.length > 0 && !isStale && (
+            <Alert variant="error">
+              {contradicted.length} claim(s) contradict the brand's facts. Approval is blocked until the draft is fixed.
+            </Alert>
+          )}
+          {isStale && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The draft changed since these claims were checked. It will be checked again on approval.
+            </p>
+          )}
+          {claimCheck.claims.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No product or competitor claims found.</p>
+          ) : (
+            <ul className="space-y-2">
+              {claimCheck.claims.map((claim) => {
+                const badge = CLAIM_BADGES[claim.status];
+                return (
+                  <li key={claim.claim} className="text-xs space-y-1">
+                    <div className="flex items-start gap-2">
+                      <Badge variant={badge.variant} size="sm" icon={badge.icon}>{badge.label}</Badge>
+                      <span className="text-gray-800 dark:text-gray-200">"{claim.claim}"</span>
+                    </div>
+                    {claim.explanation && (
+                      <p className="text-gray-500 dark:text-gray-400 pl-1">{claim.explanation}</p>
+                    )}
+                    <KnowledgeSources sources={claim.sources} />
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+import { engagementsApi } from '../services/api';
+import { Badge } from './ui';
+import type { EngagementItem, SafetyAction, SafetyCheckResult, SafetyViolation } from '../types';
+
+interface Segment {
+  text: string;
+  action?: SafetyAction;
+  messages: string[];
+}
+
+/**
+ * Splits the text into plain and flagged segments. Overlapping spans are merged, and a
+ * segment covered by any blocking rule is shown as blocking.
+ */
+function segmentText(text: string, violations: SafetyViolation[]): Segment[] {
+  const boundaries = new Set([0, text.length]);
+  for (const violation of violations) {
+    for (const span of violation.spans) {
+      boundaries.add(span.start);
+      boundaries.add(span.end);
+    }
+  }
+
+  const points = [...boundaries].filter((p) => p >= 0 && p <= text.length).sort((a, b) => a - b);
+  const segments: Segment[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const [start, end] = [points[i], points[i + 1]];
+    const covering = violations.filter((v) => v.spans.some((span) => span.start <= start && span.end >= end));
+    const action = covering.length === 0 ? undefined : covering.some((v) => v.action === 'block') ? 'block' : 'warn';
+    const previous = segments[segments.length - 1];
+
+    if (previous && previous.action === action && action === undefined) {
+      previous.text += text.slice(start, end);
+    } else {
+      segments.push({ text: text.slice(start, end), action, messages: covering.map((v) => v.message) });
+    }
+  }
+  return segments;
+}
+
+interface SafetyReportProps {
+  item: EngagementItem;
+  editedResponse: string;
+}
+
+// Safety rule violations and a missing disclosure in the saved draft, offending text highlighted
+export default function SafetyReport({ item, editedResponse }: SafetyReportProps) {
+  const savedText = item.editedResponse || item.draftResponse || '';
+
+  const { data } = useQuery({
+    queryKey: ['engagement-safety', item.id, savedText],
+    queryFn: () => engagementsApi.safety(item.id).then((res) => res.data as SafetyCheckResult),
+    enabled: !!savedText,
+  });
+
+  const missingDisclosure = data?.disclosure && !data.disclosure.present ? data.disclosure : null;
+  if (!data || (data.violations.length === 0 && !missingDisclosure)) {
+    return null;
+  }
+
+  const hasSpans = data.violations.some((v) => v.spans.length > 0);
+
+  return (
+    <div className="pt-3 border-t dark:border-gray-700 space-y-3">
+      <p className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+        <ShieldAlert className="h-4 w-4" />
+        Safety rules
+      </p>
+
+      <ul className="space-y-1">
+        {missingDisclosure && (
+          <li className="flex items-start gap-2 text-xs">
+            <Badge variant="danger" size="sm" icon={<ShieldAlert className="h-3 w-3" />}>
+              Blocks publishing
+            </Badge>
+            <span className="text-gray-700 dark:text-gray-300">
+              r/{item.subreddit} needs an affiliation disclosure. Add "{missingDisclosure.text}" to the draft.
+            </span>
+          </li>
+        )}
+        {data.violations.map((violation, index) => (
+          <li key={`${violation.rule}-${index}`} className="flex items-start gap-2 text-xs">
+            <Badge
+              variant={violation.action === 'block' ? 'danger' : 'warning'}
+              size="sm"
+              icon={violation.action === 'block' ? <ShieldAlert className="h-3 w-3" /> : <AlertTriangle className="h-3 w-3" />}
+            >
+              {violation.action === 'block' ? 'Blocks' : 'Warning'}
+            </Badge>
+            <span className="text-gray-700 dark:text-gray-300">{violation.message}</span>
+          </li>
+        ))}
+      </ul>
+
+      {hasSpans && (
+        <p className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap bg-gray-50 dark:bg-gray-800 rounded p-3">
+          {segmentText(data.text, data.violations).map((segment, index) =>
+            segment.action ? (
+              <mark
+                key={index}
+                title={segment.messages.join('\n')}
+                className={
+                  segment.action === 'block'
+                    ? 'bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200 rounded-sm'
+                    : 'bg-amber-100 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200 rounded-sm'
+                }
+              >
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </p>
+      )}
+
+      {editedResponse !== savedText && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Checked against the saved draft; save your edits to check them.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import type { SensitiveCategory, SensitiveTopicSettings } from '../types';
+
+export const SENSITIVE_TOPIC_LABELS: Record<SensitiveCategory, string> = {
+  grief: 'Grief',
+  self_harm: 'Self-harm',
+  medical_emergency: 'Medical emergency',
+  tragedy: 'Tragedy',
+  abuse: 'Abuse',
+  addiction: 'Addiction',
+};
+
+// Mirrors the backend defaults
+export const DEFAULT_SENSITIVE_TOPIC_SETTINGS: SensitiveTopicSettings = {
+  grief: { action: 'reject', minSeverity: 'medium' },
+  self_harm: { action: 'block', minSeverity: 'medium' },
+  medical_emergency: { action: 'block', minSeverity: 'medium' },
+  tragedy: { action: 'reject', minSeverity: 'medium' },
+  abuse: { action: 'block', minSeverity: 'medium' },
+  addiction: { action: 'reject', minSeverity: 'medium' },
+};
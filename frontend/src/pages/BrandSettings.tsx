@@ -1,10 +1,22 @@
-import { useState, useEffect, useCallback, KeyboardEvent } from 'react';
+import { useState, useEffect, useCallback, KeyboardEvent, ReactNode } from 'react';
 import { X } from 'lucide-react';
 import { useBrandStore } from '../hooks/useBrandStore';
 import { brandsApi } from '../services/api';
 import PageHeader from '../components/PageHeader';
-import { Alert, Input, Textarea, ButtonSpinner, LoadingSpinner } from '../components/ui';
-import type { Brand } from '../types';
+import AIUsageSummary from '../components/AIUsageSummary';
+import { Alert, Input, Textarea, ButtonSpinner, LoadingSpinner, Toggle } from '../components/ui';
+import { DEFAULT_SENSITIVE_TOPIC_SETTINGS, SENSITIVE_TOPIC_LABELS } from '../constants/sensitiveTopics';
+import type {
+  Brand,
+  SafetyAction,
+  SafetyRuleBase,
+  SafetyRuleId,
+  SafetyRules,
+  SensitiveCategory,
+  SensitiveSeverity,
+  SensitiveTopicAction,
+  SensitiveTopicSettings,
+} from '../types';
 
 interface TagInputProps {
   label: string;
@@ -83,6 +95,81 @@ function TagInput({ label, helpText, values, onChange, placeholder }: TagInputPr
   );
 }
 
+// Mirrors the backend defaults: every rule starts disabled and blocking
+const DEFAULT_SAFETY_RULES: SafetyRules = {
+  bannedPhrases: { enabled: false, action: 'block', phrases: [] },
+  requiredDisclosure: { enabled: false, action: 'block', text: '' },
+  maxLinks: { enabled: false, action: 'block', max: 1 },
+  competitorBashing: { enabled: false, action: 'block' },
+  medicalClaims: { enabled: false, action: 'block' },
+  financialClaims: { enabled: false, action: 'block' },
+  denyList: { enabled: false, action: 'block', patterns: [] },
+};
+
+const SAFETY_RULE_INFO: Record<SafetyRuleId, { label: string; description: string }> = {
+  bannedPhrases: { label: 'Banned phrases', description: 'Phrases drafts must never use' },
+  requiredDisclosure: { label: 'Required disclosure', description: 'Text every draft must include' },
+  maxLinks: { label: 'Link limit', description: 'Maximum number of links in a draft' },
+  competitorBashing: {
+    label: 'No competitor bashing',
+    description: 'Flags sentences that name a competitor alongside negative language',
+  },
+  medicalClaims: { label: 'No medical claims', description: 'Flags claims that a product cures, treats or prevents conditions' },
+  financialClaims: { label: 'No financial claims', description: 'Flags guaranteed returns and similar investment promises' },
+  denyList: { label: 'Deny list', description: 'Keywords, or regular expressions written as /pattern/flags' },
+};
+
+function withSafetyDefaults(rules?: Partial<SafetyRules>): SafetyRules {
+  const merged = { ...DEFAULT_SAFETY_RULES };
+  for (const id of Object.keys(DEFAULT_SAFETY_RULES) as SafetyRuleId[]) {
+    Object.assign(merged, { [id]: { ...DEFAULT_SAFETY_RULES[id], ...rules?.[id] } });
+  }
+  return merged;
+}
+
+interface SafetyRuleRowProps {
+  id: SafetyRuleId;
+  rule: SafetyRuleBase;
+  onChange: (rule: Partial<SafetyRuleBase>) => void;
+  children?: ReactNode;
+}
+
+function SafetyRuleRow({ id, rule, onChange, children }: SafetyRuleRowProps) {
+  const info = SAFETY_RULE_INFO[id];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <Toggle
+          checked={rule.enabled}
+          onChange={(enabled) => onChange({ enabled })}
+          label={info.label}
+          description={info.description}
+        />
+        <select
+          value={rule.action}
+          onChange={(e) => onChange({ action: e.target.value as SafetyAction })}
+          disabled={!rule.enabled}
+          className="input w-auto text-sm"
+          aria-label={`${info.label} action`}
+        >
+          <option value="block">Block</option>
+          <option value="warn">Warn only</option>
+        </select>
+      </div>
+      {rule.enabled && children && <div className="pl-12">{children}</div>}
+    </div>
+  );
+}
+
+function withSensitiveTopicDefaults(settings?: Partial<SensitiveTopicSettings>): SensitiveTopicSettings {
+  const merged = { ...DEFAULT_SENSITIVE_TOPIC_SETTINGS };
+  for (const category of Object.keys(DEFAULT_SENSITIVE_TOPIC_SETTINGS) as SensitiveCategory[]) {
+    merged[category] = { ...DEFAULT_SENSITIVE_TOPIC_SETTINGS[category], ...settings?.[category] };
+  }
+  return merged;
+}
+
 export default function BrandSettings() {
   const { currentBrand, setBrands } = useBrandStore();
   const [brand, setBrand] = useState<Brand | null>(null);
@@ -104,6 +191,20 @@ export default function BrandSettings() {
   const [goals, setGoals] = useState<string[]>([]);
   const [brandValues, setBrandValues] = useState<string[]>([]);
   const [keyDifferentiators, setKeyDifferentiators] = useState<string[]>([]);
+  const [aiMonthlyBudget, setAiMonthlyBudget] = useState('');
+  const [safetyRules, setSafetyRules] = useState<SafetyRules>(DEFAULT_SAFETY_RULES);
+  const [disclosureRequired, setDisclosureRequired] = useState(false);
+  const [disclosureTemplate, setDisclosureTemplate] = useState('');
+  const [redactPii, setRedactPii] = useState(false);
+  const [sensitiveTopics, setSensitiveTopics] = useState<SensitiveTopicSettings>(DEFAULT_SENSITIVE_TOPIC_SETTINGS);
+
+  const updateRule = <K extends SafetyRuleId>(id: K, changes: Partial<SafetyRules[K]>) => {
+    setSafetyRules((current) => ({ ...current, [id]: { ...current[id], ...changes } }));
+  };
+
+  const updateTopic = (category: SensitiveCategory, changes: Partial<SensitiveTopicSettings[SensitiveCategory]>) => {
+    setSensitiveTopics((current) => ({ ...current, [category]: { ...current[category], ...changes } }));
+  };
 
   const populateForm = useCallback((b: Brand) => {
     setName(b.name);
@@ -119,6 +220,12 @@ export default function BrandSettings() {
     setGoals(b.goals || []);
     setBrandValues(b.brandValues || []);
     setKeyDifferentiators(b.keyDifferentiators || []);
+    setAiMonthlyBudget(b.aiMonthlyBudget != null ? String(b.aiMonthlyBudget) : '');
+    setSafetyRules(withSafetyDefaults(b.safetyRules));
+    setDisclosureRequired(b.disclosureRequired || false);
+    setDisclosureTemplate(b.disclosureTemplate || '');
+    setRedactPii(b.redactPii || false);
+    setSensitiveTopics(withSensitiveTopicDefaults(b.sensitiveTopics));
   }, []);
 
   useEffect(() => {
@@ -162,6 +269,12 @@ export default function BrandSettings() {
         goals,
         brandValues,
         keyDifferentiators,
+        aiMonthlyBudget: aiMonthlyBudget.trim() !== '' ? parseFloat(aiMonthlyBudget) : null,
+        safetyRules,
+        disclosureRequired,
+        disclosureTemplate: disclosureTemplate.trim() || null,
+        redactPii,
+        sensitiveTopics,
       });
 
       // Refresh brand list so the store is up to date
@@ -170,7 +283,8 @@ export default function BrandSettings() {
 
       setMessage({ type: 'success', text: 'Brand settings saved successfully' });
     } catch (err: any) {
-      const errorMessage = err.response?.data?.message || 'Failed to save brand settings';
+      // Validation errors name the offending field, e.g. an invalid deny list regex
+      const errorMessage = err.response?.data?.details?.[0]?.message || err.response?.data?.error || 'Failed to save brand settings';
       setMessage({ type: 'error', text: errorMessage });
     } finally {
       setSaving(false);
@@ -334,6 +448,150 @@ export default function BrandSettings() {
           </div>
         </section>
 
+        {/* Safety Rules Section */}
+        <section className="card p-6">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">
+            Safety Rules
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Checked when a draft is approved or published. Blocking rules stop the action; warnings are shown to the reviewer.
+          </p>
+          <div className="space-y-5">
+            <SafetyRuleRow id="bannedPhrases" rule={safetyRules.bannedPhrases} onChange={(c) => updateRule('bannedPhrases', c)}>
+              <TagInput
+                label="Phrases"
+                values={safetyRules.bannedPhrases.phrases}
+                onChange={(phrases) => updateRule('bannedPhrases', { phrases })}
+                placeholder="e.g. best on the market"
+              />
+            </SafetyRuleRow>
+            <SafetyRuleRow id="requiredDisclosure" rule={safetyRules.requiredDisclosure} onChange={(c) => updateRule('requiredDisclosure', c)}>
+              <Input
+                label="Disclosure text"
+                value={safetyRules.requiredDisclosure.text}
+                onChange={(e) => updateRule('requiredDisclosure', { text: e.target.value })}
+                placeholder="e.g. I work for Acme"
+              />
+            </SafetyRuleRow>
+            <SafetyRuleRow id="maxLinks" rule={safetyRules.maxLinks} onChange={(c) => updateRule('maxLinks', c)}>
+              <Input
+                label="Maximum links"
+                type="number"
+                min="0"
+                max="20"
+                value={String(safetyRules.maxLinks.max)}
+                onChange={(e) => updateRule('maxLinks', { max: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              />
+            </SafetyRuleRow>
+            <SafetyRuleRow id="competitorBashing" rule={safetyRules.competitorBashing} onChange={(c) => updateRule('competitorBashing', c)} />
+            <SafetyRuleRow id="medicalClaims" rule={safetyRules.medicalClaims} onChange={(c) => updateRule('medicalClaims', c)} />
+            <SafetyRuleRow id="financialClaims" rule={safetyRules.financialClaims} onChange={(c) => updateRule('financialClaims', c)} />
+            <SafetyRuleRow id="denyList" rule={safetyRules.denyList} onChange={(c) => updateRule('denyList', c)}>
+              <TagInput
+                label="Entries"
+                values={safetyRules.denyList.patterns}
+                onChange={(patterns) => updateRule('denyList', { patterns })}
+                placeholder="e.g. crypto or /\bDM me\b/i"
+              />
+            </SafetyRuleRow>
+          </div>
+        </section>
+
+        {/* Sensitive Topics Section */}
+        <section className="card p-6">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">
+            Sensitive Topics
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Discovered posts are checked for sensitive topics before their relevance is scored.
+            Auto-rejected posts can still be reopened by a reviewer; blocked posts can't be drafted for, approved or published.
+          </p>
+          <div className="space-y-3">
+            {(Object.keys(SENSITIVE_TOPIC_LABELS) as SensitiveCategory[]).map((category) => (
+              <div key={category} className="flex items-center justify-between gap-4">
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                  {SENSITIVE_TOPIC_LABELS[category]}
+                </span>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={sensitiveTopics[category].action}
+                    onChange={(e) => updateTopic(category, { action: e.target.value as SensitiveTopicAction })}
+                    className="input w-auto text-sm"
+                    aria-label={`${SENSITIVE_TOPIC_LABELS[category]} action`}
+                  >
+                    <option value="allow">Allow</option>
+                    <option value="reject">Auto-reject</option>
+                    <option value="block">Block</option>
+                  </select>
+                  <select
+                    value={sensitiveTopics[category].minSeverity}
+                    onChange={(e) => updateTopic(category, { minSeverity: e.target.value as SensitiveSeverity })}
+                    disabled={sensitiveTopics[category].action === 'allow'}
+                    className="input w-auto text-sm"
+                    aria-label={`${SENSITIVE_TOPIC_LABELS[category]} minimum severity`}
+                  >
+                    <option value="low">Any mention</option>
+                    <option value="medium">Medium or high</option>
+                    <option value="high">High only</option>
+                  </select>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Disclosure Section */}
+        <section className="card p-6">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">
+            Affiliation Disclosure
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Drafts work the disclosure in where it is required, and publishing is refused without it.
+            Subreddits can require a disclosure on their own, and personas and subreddits can override the wording.
+          </p>
+          <div className="space-y-4">
+            <Toggle
+              checked={disclosureRequired}
+              onChange={setDisclosureRequired}
+              label="Require in every subreddit"
+              description="For jurisdictions where all brand-affiliated comments must disclose it"
+            />
+            <Input
+              label="Disclosure wording"
+              value={disclosureTemplate}
+              onChange={(e) => setDisclosureTemplate(e.target.value)}
+              placeholder="Full disclosure: I work with {brand}."
+              helpText="{brand} is replaced with the brand name"
+            />
+          </div>
+        </section>
+
+        {/* AI Usage Section */}
+        <section className="card p-6">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">
+            AI Usage & Budget
+          </h2>
+          <div className="space-y-4">
+            <Input
+              label="Monthly AI Budget (USD)"
+              type="number"
+              min="0"
+              step="0.01"
+              value={aiMonthlyBudget}
+              onChange={(e) => setAiMonthlyBudget(e.target.value)}
+              placeholder="No limit"
+              helpText="Auto-analysis of discovered posts pauses once estimated spend reaches this amount; 0 keeps it paused"
+            />
+            <Toggle
+              checked={redactPii}
+              onChange={setRedactPii}
+              label="Redact personal details from posts"
+              description="Replaces emails, phone numbers and usernames in post text before it is sent to a hosted AI provider. Local models see the original text."
+            />
+            <AIUsageSummary />
+          </div>
+        </section>
+
         {/* Save Button */}
         <div className="flex justify-end">
           <button
@@ -0,0 +1,383 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { AxiosError } from 'axios';
+import { alertsApi } from '../services/api';
+import { Plus, Edit2, Trash2, Radar, ExternalLink, MessageSquare, AlertTriangle, Repeat, Tag } from 'lucide-react';
+import type { Competitor, CompetitorSummary } from '../types';
+import PageHeader from '../components/PageHeader';
+import EmptyState from '../components/EmptyState';
+import {
+  Modal,
+  ModalActions,
+  useModal,
+  SkeletonCard,
+  ConfirmDialog,
+  useConfirmDialog,
+  FormField,
+  Input,
+  Textarea,
+  ButtonSpinner,
+  Badge,
+  Alert,
+} from '../components/ui';
+
+interface CompetitorForm {
+  name: string;
+  variants: string;
+  website: string;
+  notes: string;
+}
+
+export default function Competitors() {
+  const queryClient = useQueryClient();
+  const [editingCompetitor, setEditingCompetitor] = useState<Competitor | null>(null);
+  const [competitorToDelete, setCompetitorToDelete] = useState<Competitor | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const formModal = useModal();
+  const deleteDialog = useConfirmDialog();
+
+  const { data: competitors, isLoading } = useQuery({
+    queryKey: ['competitors'],
+    queryFn: () => alertsApi.getTrackedCompetitors(),
+  });
+
+  const { data: summary } = useQuery({
+    queryKey: ['competitors', 'summary'],
+    queryFn: () => alertsApi.getCompetitorSummary(),
+  });
+
+  const mentionSummary = summary?.data as CompetitorSummary | undefined;
+  const mentionCounts = new Map((mentionSummary?.byCompetitor || []).map((c) => [c.name, c.count]));
+  const topAspect = [...(mentionSummary?.byAspect || [])]
+    .sort((a, b) => b.count - a.count)
+    .find((a) => a.count > 0);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    formState: { errors },
+  } = useForm<CompetitorForm>();
+
+  const handleMutationError = (error: AxiosError<{ error?: string }>) => {
+    setFormError(error.response?.data?.error || 'Failed to save competitor');
+  };
+
+  const closeForm = () => {
+    setEditingCompetitor(null);
+    setFormError(null);
+    formModal.close();
+    reset();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: Partial<Competitor>) => alertsApi.createCompetitor(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['competitors'] });
+      closeForm();
+    },
+    onError: handleMutationError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Competitor> }) =>
+      alertsApi.updateCompetitor(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['competitors'] });
+      closeForm();
+    },
+    onError: handleMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => alertsApi.deleteCompetitor(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['competitors'] });
+      setCompetitorToDelete(null);
+      deleteDialog.close();
+    },
+  });
+
+  const handleDeleteCompetitor = (competitor: Competitor) => {
+    setCompetitorToDelete(competitor);
+    deleteDialog.open();
+  };
+
+  const confirmDelete = () => {
+    if (competitorToDelete) {
+      deleteMutation.mutate(competitorToDelete.id);
+    }
+  };
+
+  const onSubmit = (data: CompetitorForm) => {
+    const formatted = {
+      name: data.name.trim(),
+      variants: data.variants.split(',').map((v) => v.trim()).filter(Boolean),
+      website: data.website.trim() || null,
+      notes: data.notes.trim() || null,
+    };
+
+    setFormError(null);
+    if (editingCompetitor) {
+      updateMutation.mutate({ id: editingCompetitor.id, data: formatted });
+    } else {
+      createMutation.mutate(formatted);
+    }
+  };
+
+  const openEditForm = (competitor: Competitor) => {
+    setEditingCompetitor(competitor);
+    setFormError(null);
+    setValue('name', competitor.name);
+    setValue('variants', competitor.variants.join(', '));
+    setValue('website', competitor.website || '');
+    setValue('notes', competitor.notes || '');
+    formModal.open();
+  };
+
+  const openCreateForm = () => {
+    reset();
+    setEditingCompetitor(null);
+    setFormError(null);
+    formModal.open();
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <PageHeader
+        title="Competitors"
+        description="Brands to watch for in discovered Reddit posts"
+        breadcrumbs={[{ label: 'Settings' }, { label: 'Competitors' }]}
+        actions={
+          <button onClick={openCreateForm} className="btn btn-primary flex items-center">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Competitor
+          </button>
+        }
+      />
+
+      {/* Mention Summary */}
+      {mentionSummary && mentionSummary.totalMentions > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="card p-4">
+            <div className="flex items-center">
+              <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+                <MessageSquare className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+              </div>
+              <div className="ml-3">
+                <p className="text-sm text-gray-500 dark:text-gray-400">Mentions</p>
+                <p className="text-xl font-bold dark:text-gray-100">{mentionSummary.totalMentions}</p>
+              </div>
+            </div>
+          </div>
+          <div className="card p-4">
+            <div className="flex items-center">
+              <div className="p-2 bg-red-100 dark:bg-red-900/30 rounded-lg">
+                <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400" />
+              </div>
+              <div className="ml-3">
+                <p className="text-sm text-gray-500 dark:text-gray-400">High Priority</p>
+                <p className="text-xl font-bold dark:text-gray-100">{mentionSummary.highPriorityCount}</p>
+              </div>
+            </div>
+          </div>
+          <div className="card p-4">
+            <div className="flex items-center">
+              <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-lg">
+                <Repeat className="h-5 w-5 text-green-600 dark:text-green-400" />
+              </div>
+              <div className="ml-3">
+                <p className="text-sm text-gray-500 dark:text-gray-400">Considering a Switch</p>
+                <p className="text-xl font-bold dark:text-gray-100">{mentionSummary.switchingIntentCount}</p>
+              </div>
+            </div>
+          </div>
+          <div className="card p-4">
+            <div className="flex items-center">
+              <div className="p-2 bg-purple-100 dark:bg-purple-900/30 rounded-lg">
+                <Tag className="h-5 w-5 text-purple-600 dark:text-purple-400" />
+              </div>
+              <div className="ml-3">
+                <p className="text-sm text-gray-500 dark:text-gray-400">Most Discussed</p>
+                <p className="text-xl font-bold capitalize dark:text-gray-100">{topAspect?.aspect || '—'}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Competitor Form Modal */}
+      <Modal
+        isOpen={formModal.isOpen}
+        onClose={closeForm}
+        title={editingCompetitor ? 'Edit Competitor' : 'Add Competitor'}
+      >
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {formError && <Alert variant="error">{formError}</Alert>}
+
+          <FormField
+            label="Name"
+            htmlFor="competitor-name"
+            error={errors.name?.message}
+            required
+          >
+            <Input
+              {...register('name', { required: 'Name is required' })}
+              id="competitor-name"
+              placeholder="Peloton"
+            />
+          </FormField>
+
+          <FormField
+            label="Name Variants"
+            htmlFor="competitor-variants"
+            helpText="Other spellings or product names, separated with commas"
+          >
+            <Input
+              {...register('variants')}
+              id="competitor-variants"
+              placeholder="peleton, peloton bike, peloton app"
+            />
+          </FormField>
+
+          <FormField label="Website" htmlFor="competitor-website">
+            <Input
+              {...register('website')}
+              id="competitor-website"
+              placeholder="https://www.onepeloton.com"
+            />
+          </FormField>
+
+          <FormField label="Notes" htmlFor="competitor-notes">
+            <Textarea
+              {...register('notes')}
+              id="competitor-notes"
+              rows={3}
+              placeholder="Positioning, pricing, common complaints..."
+            />
+          </FormField>
+
+          <ModalActions>
+            <button type="button" onClick={closeForm} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={createMutation.isPending || updateMutation.isPending}
+            >
+              {(createMutation.isPending || updateMutation.isPending) && (
+                <ButtonSpinner className="mr-2" />
+              )}
+              {editingCompetitor ? 'Update' : 'Add'}
+            </button>
+          </ModalActions>
+        </form>
+      </Modal>
+
+      {/* Competitor Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {isLoading ? (
+          <>
+            <SkeletonCard />
+            <SkeletonCard />
+            <SkeletonCard />
+          </>
+        ) : !Array.isArray(competitors?.data) || competitors.data.length === 0 ? (
+          <div className="col-span-full">
+            <EmptyState
+              icon={Radar}
+              title="No competitors tracked"
+              description="Add competitors to flag discovered posts that mention them."
+              actions={[
+                {
+                  label: 'Add Competitor',
+                  onClick: openCreateForm,
+                  primary: true,
+                },
+              ]}
+            />
+          </div>
+        ) : (
+          competitors.data.map((competitor: Competitor, index: number) => (
+            <div
+              key={competitor.id}
+              className="card p-6 hover:shadow-lg transition-shadow duration-200 animate-slide-up"
+              style={{ animationDelay: `${index * 50}ms` }}
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                    {competitor.name}
+                  </h3>
+                  {competitor.website && (
+                    <a
+                      href={competitor.website}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline mt-1"
+                    >
+                      {competitor.website.replace(/^https?:\/\//, '')}
+                      <ExternalLink className="h-3 w-3 ml-1" />
+                    </a>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => openEditForm(competitor)}
+                    className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    title="Edit competitor"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteCompetitor(competitor)}
+                    className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    title="Delete competitor"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="mt-4 space-y-3">
+                {competitor.variants.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {competitor.variants.map((variant) => (
+                      <Badge key={variant} variant="gray" size="sm">
+                        {variant}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {competitor.notes && (
+                  <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-3">
+                    {competitor.notes}
+                  </p>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-4 pt-3 border-t dark:border-gray-700">
+                Mentioned in {mentionCounts.get(competitor.name) || 0} discovered post(s)
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Confirm Delete Dialog */}
+      <ConfirmDialog
+        isOpen={deleteDialog.isOpen}
+        onClose={() => {
+          deleteDialog.close();
+          setCompetitorToDelete(null);
+        }}
+        onConfirm={confirmDelete}
+        title="Delete Competitor"
+        message={`Are you sure you want to stop tracking "${competitorToDelete?.name}"?`}
+        confirmLabel={deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
-import { analyticsApi, keywordsApi } from '../services/api';
+import { alertsApi, analyticsApi, keywordsApi } from '../services/api';
 import { Download, ExternalLink } from 'lucide-react';
 import {
   AreaChart,
   Area,
+  LineChart,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -13,11 +15,22 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { StatusBadge } from '../components/ui';
+import { useOrganizationStore } from '../hooks/useOrganizationStore';
+import { useBrandStore } from '../hooks/useBrandStore';
+import { exportShareOfVoice } from '../utils/csvExport';
+import type { BrandRollup, DraftVariantStats, OrganizationRollup, ShareOfVoiceReport } from '../types';
 
 type DateRange = '30' | '90';
+type VoiceRange = 3 | 6 | 12;
+
+// Brand first, then competitors in order
+const VOICE_COLORS = ['#0d9488', '#6366f1', '#f59e0b', '#ef4444', '#8b5cf6', '#64748b'];
 
 export default function Dashboard() {
   const [dateRange, setDateRange] = useState<DateRange>('30');
+  const [voiceRange, setVoiceRange] = useState<VoiceRange>(3);
+  const { currentOrganization } = useOrganizationStore();
+  const { currentBrand } = useBrandStore();
 
   const { data: dashboardData, isLoading } = useQuery({
     queryKey: ['analytics', 'dashboard'],
@@ -29,6 +42,22 @@ export default function Dashboard() {
     queryFn: () => analyticsApi.getTrends(parseInt(dateRange)),
   });
 
+  const { data: rollupData } = useQuery({
+    queryKey: ['analytics', 'organization', currentOrganization?.id],
+    queryFn: () => analyticsApi.getOrganizationRollup(),
+    enabled: !!currentOrganization,
+  });
+
+  const { data: voiceData } = useQuery({
+    queryKey: ['competitors', 'share-of-voice', voiceRange],
+    queryFn: () => alertsApi.getShareOfVoice(voiceRange),
+  });
+
+  const { data: variantData } = useQuery({
+    queryKey: ['analytics', 'draft-variants', dateRange],
+    queryFn: () => analyticsApi.getDraftVariantStats(parseInt(dateRange)),
+  });
+
   const { data: keywordsData } = useQuery({
     queryKey: ['keywords'],
     queryFn: () => keywordsApi.list(),
@@ -38,6 +67,15 @@ export default function Dashboard() {
   const trends = Array.isArray(trendsData?.data) ? trendsData.data : [];
   const keywords = Array.isArray(keywordsData?.data) ? keywordsData.data : [];
   const recentActivity = Array.isArray(stats?.recentActivity) ? stats.recentActivity : [];
+  const rollup = rollupData?.data as OrganizationRollup | undefined;
+  const brandRollups = rollup?.brands || [];
+  const shareOfVoice = voiceData?.data as ShareOfVoiceReport | undefined;
+  const variantStats = variantData?.data as DraftVariantStats | undefined;
+  const voiceNames = shareOfVoice ? [shareOfVoice.brand, ...shareOfVoice.competitors] : [];
+  const voiceSeries = (shareOfVoice?.weeks || []).map((week) => ({
+    weekStart: week.weekStart,
+    ...week.share,
+  }));
 
   // Calculate stats for the cards
   const totalReach =
@@ -315,6 +353,220 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* Share of voice against tracked competitors */}
+      {shareOfVoice && shareOfVoice.competitors.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+            <div>
+              <h3 className="font-bold text-slate-900 dark:text-white">Share of Voice</h3>
+              <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                Weekly share of discovered posts mentioning {shareOfVoice.brand} or a competitor
+              </p>
+            </div>
+            <div className="flex gap-3">
+              <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-lg">
+                {([3, 6, 12] as VoiceRange[]).map((months) => (
+                  <button
+                    key={months}
+                    onClick={() => setVoiceRange(months)}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${
+                      voiceRange === months
+                        ? 'bg-white dark:bg-slate-700 shadow-sm text-slate-900 dark:text-white'
+                        : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300'
+                    }`}
+                  >
+                    {months}M
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => exportShareOfVoice(shareOfVoice)}
+                className="px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors flex items-center gap-1.5"
+              >
+                <Download className="h-3.5 w-3.5" />
+                CSV
+              </button>
+            </div>
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={voiceSeries}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis
+                  dataKey="weekStart"
+                  tickFormatter={(value) =>
+                    new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                  }
+                  tick={{ fontSize: 11, fill: '#94a3b8' }}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  tickFormatter={(value) => `${value}%`}
+                  tick={{ fontSize: 11, fill: '#94a3b8' }}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                    border: '1px solid #e2e8f0',
+                    borderRadius: '8px',
+                    boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)',
+                  }}
+                  labelFormatter={(value) => `Week of ${new Date(value).toLocaleDateString()}`}
+                  formatter={(value) => `${value ?? 0}%`}
+                />
+                {voiceNames.map((name, index) => (
+                  <Line
+                    key={name}
+                    type="monotone"
+                    dataKey={name}
+                    stroke={VOICE_COLORS[index % VOICE_COLORS.length]}
+                    strokeWidth={index === 0 ? 3 : 2}
+                    dot={false}
+                    name={name}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mt-6 pt-4 border-t border-slate-200 dark:border-slate-700">
+            <div className="flex flex-wrap gap-4 text-xs font-medium">
+              {shareOfVoice.totals.map((total, index) => (
+                <div key={total.name} className="flex items-center gap-1.5">
+                  <span
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: VOICE_COLORS[index % VOICE_COLORS.length] }}
+                  />
+                  <span className="text-slate-700 dark:text-slate-300">{total.name}</span>
+                  <span className="text-slate-500 dark:text-slate-400">
+                    {total.share}% ({total.mentions})
+                  </span>
+                </div>
+              ))}
+            </div>
+            {shareOfVoice.topSubreddits.length > 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Top subreddits:{' '}
+                {shareOfVoice.topSubreddits.map((s) => `r/${s.subreddit}`).join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Which generated draft variants reviewers keep */}
+      {variantStats && variantStats.decided > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="font-bold text-slate-900 dark:text-white">Draft Variant Wins</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              How often each style and length was picked when several drafts were compared (last {variantStats.days} days)
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-200 dark:divide-slate-700">
+            {([['Style', variantStats.byStyle], ['Length', variantStats.byLength]] as const).map(([label, rows]) => (
+              <table key={label} className="w-full text-left">
+                <thead>
+                  <tr className="bg-slate-50 dark:bg-slate-800/50">
+                    <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                      {label}
+                    </th>
+                    <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                      Generated
+                    </th>
+                    <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                      Chosen
+                    </th>
+                    <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                      Win Rate
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                  {rows.map((row) => (
+                    <tr key={row.value}>
+                      <td className="px-6 py-4 text-sm font-semibold text-slate-900 dark:text-white capitalize">{row.value}</td>
+                      <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{row.generated}</td>
+                      <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
+                        {row.chosen}
+                        {row.merged > 0 && <span className="text-xs"> ({row.merged} merged)</span>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
+                        {row.winRate !== null ? `${row.winRate}%` : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Brand comparison across the organization */}
+      {brandRollups.length > 1 && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+          <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="font-bold text-slate-900 dark:text-white">Brand Comparison</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              All brands in {currentOrganization?.name}
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-slate-50 dark:bg-slate-800/50">
+                  <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    Brand
+                  </th>
+                  <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    Engagements
+                  </th>
+                  <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    Published
+                  </th>
+                  <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    Approval Rate
+                  </th>
+                  <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    Avg Relevance
+                  </th>
+                  <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    Upvotes
+                  </th>
+                  <th className="px-6 py-4 text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                    Replies
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {brandRollups.map((brand: BrandRollup) => (
+                  <tr
+                    key={brand.brandId}
+                    className={brand.brandId === currentBrand?.id ? 'bg-brand-50/50 dark:bg-brand-900/10' : ''}
+                  >
+                    <td className="px-6 py-4 text-sm font-semibold text-slate-900 dark:text-white">{brand.brandName}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{brand.totalEngagements}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{brand.publishedCount}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
+                      {brand.approvalRate !== null ? `${brand.approvalRate}%` : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">
+                      {brand.avgRelevanceScore !== null ? brand.avgRelevanceScore.toFixed(1) : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{brand.totalUpvotes}</td>
+                    <td className="px-6 py-4 text-sm text-slate-600 dark:text-slate-400">{brand.totalReplies}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Recent Engagement Activity Table */}
       <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
         <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
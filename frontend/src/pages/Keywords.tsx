@@ -31,10 +31,23 @@ interface SubredditForm {
   name: string;
   phase: number;
   selfPromoRules: string;
+  disclosureRequired: boolean;
+  disclosureTemplate: string;
   minKarma: number;
+  minAccountAgeDays: number;
   isActive: boolean;
 }
 
+// One-line summary of a subreddit's synced rules
+function describeRules(rules: NonNullable<Subreddit['rules']>): string {
+  const promo = rules.selfPromotionRatio
+    ? `${rules.selfPromotion} (${Math.round(rules.selfPromotionRatio * 100)}%)`
+    : rules.selfPromotion;
+  return [`Links ${rules.linkPolicy}`, `Self-promo ${promo}`, rules.flairRequired && 'Flair required']
+    .filter(Boolean)
+    .join(' · ');
+}
+
 export default function Keywords() {
   const queryClient = useQueryClient();
   const [showKeywordForm, setShowKeywordForm] = useState(false);
@@ -154,11 +167,23 @@ export default function Keywords() {
         name: editingSubreddit.name,
         phase: editingSubreddit.phase,
         minKarma: editingSubreddit.minKarma,
+        minAccountAgeDays: editingSubreddit.minAccountAgeDays,
         selfPromoRules: editingSubreddit.selfPromoRules || '',
+        disclosureRequired: editingSubreddit.disclosureRequired,
+        disclosureTemplate: editingSubreddit.disclosureTemplate || '',
         isActive: editingSubreddit.isActive,
       });
     } else {
-      subredditForm.reset({ phase: 1, minKarma: 0, isActive: true, name: '', selfPromoRules: '' });
+      subredditForm.reset({
+        phase: 1,
+        minKarma: 0,
+        minAccountAgeDays: 0,
+        isActive: true,
+        name: '',
+        selfPromoRules: '',
+        disclosureRequired: false,
+        disclosureTemplate: '',
+      });
     }
   }, [editingSubreddit, subredditForm]);
 
@@ -199,6 +224,12 @@ export default function Keywords() {
     },
   });
 
+  const syncSubredditRules = useMutation({
+    mutationFn: (id: string) => subredditsApi.syncRules(id),
+    // Failures are stored on the subreddit and shown in the list
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['subreddits'] }),
+  });
+
   const deleteSubreddit = useMutation({
     mutationFn: (id: string) => subredditsApi.delete(id),
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['subreddits'] }),
@@ -878,9 +909,31 @@ export default function Keywords() {
                     </div>
                     <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                       Phase {sub.phase} · Min karma: {sub.minKarma}
+                      {sub.minAccountAgeDays > 0 && ` · Min account age: ${sub.minAccountAgeDays}d`}
                     </p>
+                    {sub.rules && (
+                      <p
+                        className="text-xs text-gray-500 dark:text-gray-400 mt-0.5"
+                        title={sub.rulesSyncedAt ? `Synced ${new Date(sub.rulesSyncedAt).toLocaleString()}` : undefined}
+                      >
+                        {describeRules(sub.rules)}
+                      </p>
+                    )}
+                    {sub.rulesSyncError && (
+                      <p className="text-xs text-red-600 dark:text-red-400 mt-0.5">Rules sync failed: {sub.rulesSyncError}</p>
+                    )}
                   </div>
                   <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => syncSubredditRules.mutate(sub.id)}
+                      disabled={syncSubredditRules.isPending}
+                      className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 p-1"
+                      title={sub.rules ? 'Sync rules from Reddit again' : 'Sync rules from Reddit'}
+                    >
+                      <RefreshCw
+                        className={`h-4 w-4 ${syncSubredditRules.isPending && syncSubredditRules.variables === sub.id ? 'animate-spin' : ''}`}
+                      />
+                    </button>
                     <button
                       onClick={() => openEditSubreddit(sub)}
                       className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 p-1"
@@ -1012,10 +1065,37 @@ export default function Keywords() {
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Minimum Karma</label>
                   <input {...subredditForm.register('minKarma', { valueAsNumber: true })} type="number" className="input mt-1" />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Minimum Account Age (days)</label>
+                  <input {...subredditForm.register('minAccountAgeDays', { valueAsNumber: true })} type="number" min="0" className="input mt-1" />
+                  <p className="text-xs text-gray-500 mt-1">Publishing is blocked for accounts below the karma or age minimum</p>
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Self-Promo Rules</label>
                   <textarea {...subredditForm.register('selfPromoRules')} className="input mt-1" rows={2} />
                 </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    {...subredditForm.register('disclosureRequired')}
+                    id="subreddit-disclosure"
+                    className="h-4 w-4 rounded border-gray-300 text-red-600 focus:ring-red-500"
+                  />
+                  <label htmlFor="subreddit-disclosure" className="text-sm text-gray-700 dark:text-gray-300">
+                    Requires affiliation disclosure
+                  </label>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Disclosure Wording</label>
+                  <input
+                    {...subredditForm.register('disclosureTemplate')}
+                    className="input mt-1"
+                    placeholder="Leave empty to use the persona or brand wording"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Used here whenever a disclosure is required; {'{brand}'} is replaced with the brand name
+                  </p>
+                </div>
                 <div className="flex items-center gap-2">
                   <input
                     type="checkbox"
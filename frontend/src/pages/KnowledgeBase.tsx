@@ -0,0 +1,381 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { AxiosError } from 'axios';
+import { knowledgeApi } from '../services/api';
+import { useAuthStore } from '../hooks/useAuthStore';
+import { Plus, Edit2, Trash2, BookOpen, Upload, Search } from 'lucide-react';
+import type { KnowledgeDocument, KnowledgeDocumentDetail, KnowledgeDocumentInput, KnowledgeDocumentKind, KnowledgeSnippet } from '../types';
+import PageHeader from '../components/PageHeader';
+import EmptyState from '../components/EmptyState';
+import {
+  Modal,
+  ModalActions,
+  useModal,
+  SkeletonCard,
+  ConfirmDialog,
+  useConfirmDialog,
+  FormField,
+  Input,
+  Textarea,
+  ButtonSpinner,
+  Badge,
+  Alert,
+} from '../components/ui';
+
+const KIND_LABELS: Record<KnowledgeDocumentKind, string> = {
+  markdown: 'Document',
+  faq: 'FAQ',
+  pricing: 'Pricing',
+  spec: 'Spec sheet',
+};
+
+const KIND_PLACEHOLDERS: Record<KnowledgeDocumentKind, string> = {
+  markdown: '# Getting started\n\nUse markdown headings to split the document into sections...',
+  faq: 'Q: Is there a free trial?\nA: Yes, every plan starts with a 14-day trial.\n\nQ: Can I cancel anytime?\nA: ...',
+  pricing: '## Plans\n\n| Plan | Price | Seats |\n|---|---|---|\n| Starter | $9/mo | 1 |\n| Pro | $29/mo | 5 |',
+  spec: '## Dimensions\n\n- Weight: 1.2 kg\n- Battery: 10 hours...',
+};
+
+export default function KnowledgeBase() {
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const canEdit = user?.role !== 'reviewer';
+  const [editingDocument, setEditingDocument] = useState<KnowledgeDocument | null>(null);
+  const [documentToDelete, setDocumentToDelete] = useState<KnowledgeDocument | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [submittedQuery, setSubmittedQuery] = useState('');
+  const formModal = useModal();
+  const deleteDialog = useConfirmDialog();
+
+  const { data: documentsData, isLoading } = useQuery({
+    queryKey: ['knowledge'],
+    queryFn: () => knowledgeApi.list(),
+  });
+  const documents = (documentsData?.data as KnowledgeDocument[] | undefined) || [];
+
+  const { data: searchData, isFetching: isSearching } = useQuery({
+    queryKey: ['knowledge', 'search', submittedQuery],
+    queryFn: () => knowledgeApi.search(submittedQuery).then((res) => res.data as KnowledgeSnippet[]),
+    enabled: submittedQuery !== '',
+  });
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<KnowledgeDocumentInput>({ defaultValues: { kind: 'markdown' } });
+  const kind = watch('kind');
+
+  const handleMutationError = (error: AxiosError<{ error?: string }>) => {
+    setFormError(error.response?.data?.error || 'Failed to save document');
+  };
+
+  const closeForm = () => {
+    setEditingDocument(null);
+    setFormError(null);
+    formModal.close();
+    reset({ title: '', kind: 'markdown', content: '' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: KnowledgeDocumentInput) => knowledgeApi.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge'] });
+      closeForm();
+    },
+    onError: handleMutationError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: KnowledgeDocumentInput }) => knowledgeApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge'] });
+      closeForm();
+    },
+    onError: handleMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => knowledgeApi.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge'] });
+      setDocumentToDelete(null);
+      deleteDialog.close();
+    },
+  });
+
+  // The list leaves out document bodies, so fetch the full document before editing
+  const loadMutation = useMutation({
+    mutationFn: (id: string) => knowledgeApi.get(id).then((res) => res.data as KnowledgeDocumentDetail),
+    onSuccess: (document) => {
+      setValue('title', document.title);
+      setValue('kind', document.kind);
+      setValue('content', document.content);
+      formModal.open();
+    },
+  });
+
+  const onSubmit = (data: KnowledgeDocumentInput) => {
+    setFormError(null);
+    if (editingDocument) {
+      updateMutation.mutate({ id: editingDocument.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const openCreateForm = () => {
+    reset({ title: '', kind: 'markdown', content: '' });
+    setEditingDocument(null);
+    setFormError(null);
+    formModal.open();
+  };
+
+  const openEditForm = (document: KnowledgeDocument) => {
+    setEditingDocument(document);
+    setFormError(null);
+    loadMutation.mutate(document.id);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    file.text().then((text) => {
+      setValue('content', text);
+      if (!watch('title')) {
+        setValue('title', file.name.replace(/\.(md|markdown|txt)$/i, ''));
+      }
+    });
+    e.target.value = '';
+  };
+
+  const confirmDelete = () => {
+    if (documentToDelete) {
+      deleteMutation.mutate(documentToDelete.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <PageHeader
+        title="Knowledge Base"
+        description="Product facts drafts and proofreads retrieve and cite"
+        breadcrumbs={[{ label: 'Settings' }, { label: 'Knowledge Base' }]}
+        actions={
+          canEdit && (
+            <button onClick={openCreateForm} className="btn btn-primary flex items-center">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Document
+            </button>
+          )
+        }
+      />
+
+      {/* Retrieval preview */}
+      {documents.length > 0 && (
+        <div className="card p-4 space-y-3">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSubmittedQuery(query.trim());
+            }}
+            className="flex gap-2"
+          >
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Paste a post title to see which snippets a draft would use..."
+              aria-label="Test retrieval"
+            />
+            <button type="submit" className="btn btn-secondary flex items-center gap-2" disabled={!query.trim()}>
+              {isSearching ? <ButtonSpinner /> : <Search className="h-4 w-4" />}
+              Test
+            </button>
+          </form>
+          {submittedQuery && searchData && (
+            searchData.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No snippets match this text.</p>
+            ) : (
+              <ol className="space-y-2">
+                {searchData.map((snippet) => (
+                  <li key={snippet.chunkId} className="border-l-2 border-brand-300 dark:border-brand-700 pl-3">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {[snippet.title, snippet.heading].filter(Boolean).join(' › ')}
+                      <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">score {snippet.score}</span>
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap line-clamp-3">{snippet.content}</p>
+                  </li>
+                ))}
+              </ol>
+            )
+          )}
+        </div>
+      )}
+
+      {/* Document Form Modal */}
+      <Modal
+        isOpen={formModal.isOpen}
+        onClose={closeForm}
+        title={editingDocument ? 'Edit Document' : 'Add Document'}
+        size="2xl"
+      >
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {formError && <Alert variant="error">{formError}</Alert>}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="md:col-span-2">
+              <FormField label="Title" htmlFor="knowledge-title" error={errors.title?.message} required>
+                <Input
+                  {...register('title', { required: 'Title is required' })}
+                  id="knowledge-title"
+                  placeholder="Pricing and plans"
+                />
+              </FormField>
+            </div>
+            <FormField label="Type" htmlFor="knowledge-kind">
+              <select {...register('kind')} id="knowledge-kind" className="input">
+                {(Object.keys(KIND_LABELS) as KnowledgeDocumentKind[]).map((k) => (
+                  <option key={k} value={k}>{KIND_LABELS[k]}</option>
+                ))}
+              </select>
+            </FormField>
+          </div>
+
+          <FormField
+            label="Content"
+            htmlFor="knowledge-content"
+            error={errors.content?.message}
+            helpText={kind === 'faq'
+              ? 'One entry per question, starting with "Q:" and "A:"'
+              : 'Markdown; headings split the document into searchable sections'}
+            required
+          >
+            <Textarea
+              {...register('content', { required: 'Content is required' })}
+              id="knowledge-content"
+              rows={14}
+              className="font-mono text-sm"
+              placeholder={KIND_PLACEHOLDERS[kind || 'markdown']}
+            />
+          </FormField>
+
+          <label className="btn btn-secondary text-sm inline-flex items-center gap-2 cursor-pointer">
+            <Upload className="h-4 w-4" />
+            Load from file
+            <input type="file" accept=".md,.markdown,.txt" onChange={handleFileUpload} className="sr-only" />
+          </label>
+
+          <ModalActions>
+            <button type="button" onClick={closeForm} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={createMutation.isPending || updateMutation.isPending}
+            >
+              {(createMutation.isPending || updateMutation.isPending) && (
+                <ButtonSpinner className="mr-2" />
+              )}
+              {editingDocument ? 'Update' : 'Add'}
+            </button>
+          </ModalActions>
+        </form>
+      </Modal>
+
+      {/* Document Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {isLoading ? (
+          <>
+            <SkeletonCard />
+            <SkeletonCard />
+            <SkeletonCard />
+          </>
+        ) : documents.length === 0 ? (
+          <div className="col-span-full">
+            <EmptyState
+              icon={BookOpen}
+              title="No knowledge base documents"
+              description="Add product docs, FAQs, pricing and spec sheets so drafts state facts instead of guessing."
+              actions={canEdit ? [
+                {
+                  label: 'Add Document',
+                  onClick: openCreateForm,
+                  primary: true,
+                },
+              ] : []}
+            />
+          </div>
+        ) : (
+          documents.map((document, index) => (
+            <div
+              key={document.id}
+              className="card p-6 hover:shadow-lg transition-shadow duration-200 animate-slide-up"
+              style={{ animationDelay: `${index * 50}ms` }}
+            >
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-gray-900 dark:text-gray-100 truncate">
+                    {document.title}
+                  </h3>
+                  <div className="mt-1">
+                    <Badge variant="gray" size="sm">{KIND_LABELS[document.kind]}</Badge>
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => openEditForm(document)}
+                      disabled={loadMutation.isPending}
+                      className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                      title="Edit document"
+                    >
+                      {loadMutation.isPending && loadMutation.variables === document.id
+                        ? <ButtonSpinner />
+                        : <Edit2 className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setDocumentToDelete(document);
+                        deleteDialog.open();
+                      }}
+                      className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                      title="Delete document"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-4 pt-3 border-t dark:border-gray-700">
+                {document._count?.chunks ?? 0} snippet(s) · updated {new Date(document.updatedAt).toLocaleDateString()}
+                {document.createdBy && ` · added by ${document.createdBy.name}`}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Confirm Delete Dialog */}
+      <ConfirmDialog
+        isOpen={deleteDialog.isOpen}
+        onClose={() => {
+          deleteDialog.close();
+          setDocumentToDelete(null);
+        }}
+        onConfirm={confirmDelete}
+        title="Delete Document"
+        message={`Are you sure you want to delete "${documentToDelete?.title}"? Drafts will no longer cite it.`}
+        confirmLabel={deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -1,11 +1,16 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
-import { personasApi } from '../services/api';
-import { Plus, Edit2, Trash2, UserCircle } from 'lucide-react';
-import type { Persona } from '../types';
+import type { AxiosError } from 'axios';
+import { accountsApi, personasApi } from '../services/api';
+import { useAuthStore } from '../hooks/useAuthStore';
+import { Plus, Edit2, Trash2, UserCircle, Lightbulb, FlaskConical, Wand2 } from 'lucide-react';
+import type { Persona, PersonaDraft, PersonaGuidelineProposal, RedditAccount } from '../types';
 import PageHeader from '../components/PageHeader';
 import EmptyState from '../components/EmptyState';
+import GuidelineProposalCard from '../components/GuidelineProposalCard';
+import PersonaPlayground from '../components/PersonaPlayground';
+import PersonaFromAccount from '../components/PersonaFromAccount';
 import {
   Modal,
   ModalActions,
@@ -16,8 +21,10 @@ import {
   FormField,
   Input,
   Textarea,
+  Checkbox,
   ButtonSpinner,
   Badge,
+  Alert,
 } from '../components/ui';
 
 interface PersonaForm {
@@ -30,6 +37,7 @@ interface PersonaForm {
   expertiseAreas: string;
   writingGuidelines: string;
   exampleResponses: string;
+  disclosureTemplate: string;
 }
 
 export default function Personas() {
@@ -37,13 +45,55 @@ export default function Personas() {
   const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
   const [personaToDelete, setPersonaToDelete] = useState<Persona | null>(null);
   const formModal = useModal();
+  const playgroundModal = useModal();
+  const fromAccountModal = useModal();
   const deleteDialog = useConfirmDialog();
 
+  const { user } = useAuthStore();
+  // Set while the form holds a persona drafted from an account's comments
+  const [draftSource, setDraftSource] = useState<{ account: RedditAccount; commentCount: number } | null>(null);
+  const [assignToAccount, setAssignToAccount] = useState(true);
+  const [learnMessage, setLearnMessage] = useState<{ type: 'info' | 'error'; text: string } | null>(null);
+
   const { data: personas, isLoading } = useQuery({
     queryKey: ['personas'],
     queryFn: () => personasApi.list(),
   });
 
+  const { data: proposalsData } = useQuery({
+    queryKey: ['personas', 'proposals'],
+    queryFn: () => personasApi.listProposals(),
+  });
+  const proposals = (proposalsData?.data as PersonaGuidelineProposal[] | undefined) || [];
+
+  const learnMutation = useMutation({
+    mutationFn: (id: string) => personasApi.proposeGuidelines(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['personas', 'proposals'] });
+      setLearnMessage(null);
+    },
+    onError: (error: AxiosError<{ error?: string }>) => {
+      setLearnMessage({
+        type: error.response?.status === 400 ? 'info' : 'error',
+        text: error.response?.data?.error || 'Failed to learn from reviewer edits',
+      });
+    },
+  });
+
+  const approveProposalMutation = useMutation({
+    mutationFn: (proposalId: string) => personasApi.approveProposal(proposalId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['personas'] });
+    },
+  });
+
+  const rejectProposalMutation = useMutation({
+    mutationFn: (proposalId: string) => personasApi.rejectProposal(proposalId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['personas', 'proposals'] });
+    },
+  });
+
   const {
     register,
     handleSubmit,
@@ -53,9 +103,19 @@ export default function Personas() {
   } = useForm<PersonaForm>();
 
   const createMutation = useMutation({
-    mutationFn: (data: Partial<Persona>) => personasApi.create(data),
+    mutationFn: async (data: Partial<Persona>) => {
+      const response = await personasApi.create(data);
+      if (draftSource && assignToAccount) {
+        await accountsApi.update(draftSource.account.id, { personaId: (response.data as Persona).id });
+      }
+      return response;
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['personas'] });
+      if (draftSource && assignToAccount) {
+        queryClient.invalidateQueries({ queryKey: ['accounts'] });
+      }
+      setDraftSource(null);
       formModal.close();
       reset();
     },
@@ -103,6 +163,7 @@ export default function Personas() {
       expertiseAreas: data.expertiseAreas.split(',').map((a) => a.trim()).filter(Boolean),
       writingGuidelines: data.writingGuidelines,
       exampleResponses: data.exampleResponses.split('\n---\n').filter(Boolean),
+      disclosureTemplate: data.disclosureTemplate?.trim() || null,
     };
 
     if (editingPersona) {
@@ -123,12 +184,32 @@ export default function Personas() {
     setValue('expertiseAreas', persona.expertiseAreas.join(', '));
     setValue('writingGuidelines', persona.writingGuidelines || '');
     setValue('exampleResponses', persona.exampleResponses.join('\n---\n'));
+    setValue('disclosureTemplate', persona.disclosureTemplate || '');
     formModal.open();
   };
 
   const openCreateForm = () => {
     reset();
     setEditingPersona(null);
+    setDraftSource(null);
+    formModal.open();
+  };
+
+  const openDraftedForm = (draft: PersonaDraft, account: RedditAccount) => {
+    reset();
+    setEditingPersona(null);
+    setDraftSource({ account, commentCount: draft.commentCount });
+    setAssignToAccount(!account.persona);
+    setValue('name', draft.name);
+    setValue('description', draft.description);
+    setValue('toneOfVoice', draft.toneOfVoice);
+    setValue('goals', draft.goals.join('\n'));
+    setValue('characterTraits', draft.characterTraits.join(', '));
+    setValue('backgroundStory', draft.backgroundStory);
+    setValue('expertiseAreas', draft.expertiseAreas.join(', '));
+    setValue('writingGuidelines', draft.writingGuidelines);
+    setValue('exampleResponses', draft.exampleResponses.join('\n---\n'));
+    fromAccountModal.close();
     formModal.open();
   };
 
@@ -139,10 +220,26 @@ export default function Personas() {
         description="Define AI personalities for Reddit engagement"
         breadcrumbs={[{ label: 'Settings' }, { label: 'Personas' }]}
         actions={
-          <button onClick={openCreateForm} className="btn btn-primary flex items-center">
-            <Plus className="h-4 w-4 mr-2" />
-            Create Persona
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={playgroundModal.open}
+              disabled={!Array.isArray(personas?.data) || personas.data.length === 0}
+              className="btn btn-secondary flex items-center"
+            >
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Playground
+            </button>
+            {user?.role !== 'reviewer' && (
+              <button onClick={fromAccountModal.open} className="btn btn-secondary flex items-center">
+                <Wand2 className="h-4 w-4 mr-2" />
+                Draft from Account
+              </button>
+            )}
+            <button onClick={openCreateForm} className="btn btn-primary flex items-center">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Persona
+            </button>
+          </div>
         }
       />
 
@@ -154,6 +251,13 @@ export default function Personas() {
         size="lg"
       >
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {draftSource && !editingPersona && (
+            <Alert variant="info">
+              Drafted from {draftSource.commentCount} recent comments by u/{draftSource.account.username}.
+              Review and edit the fields before saving.
+            </Alert>
+          )}
+
           <FormField
             label="Name"
             htmlFor="persona-name"
@@ -257,6 +361,29 @@ export default function Personas() {
             />
           </FormField>
 
+          <FormField
+            label="Disclosure Wording"
+            htmlFor="persona-disclosure"
+            helpText="Used instead of the brand's wording where a disclosure is required; {brand} is replaced with the brand name"
+          >
+            <Input
+              {...register('disclosureTemplate')}
+              id="persona-disclosure"
+              placeholder="e.g. I'm on the {brand} team, so take this with a grain of salt"
+            />
+          </FormField>
+
+          {draftSource && !editingPersona && (
+            <Checkbox
+              id="persona-assign-account"
+              label={`Assign this persona to u/${draftSource.account.username}${
+                draftSource.account.persona ? ` (replaces ${draftSource.account.persona.name})` : ''
+              }`}
+              checked={assignToAccount}
+              onChange={(e) => setAssignToAccount(e.target.checked)}
+            />
+          )}
+
           <ModalActions>
             <button type="button" onClick={formModal.close} className="btn btn-secondary">
               Cancel
@@ -275,6 +402,28 @@ export default function Personas() {
         </form>
       </Modal>
 
+      {/* Guideline proposals learned from reviewer edits */}
+      {learnMessage && (
+        <Alert variant={learnMessage.type} dismissible onDismiss={() => setLearnMessage(null)}>
+          {learnMessage.text}
+        </Alert>
+      )}
+      {proposals.length > 0 && (
+        <div className="space-y-4">
+          {proposals.map((proposal) => (
+            <GuidelineProposalCard
+              key={proposal.id}
+              proposal={proposal}
+              canReview={user?.role === 'admin'}
+              onApprove={() => approveProposalMutation.mutate(proposal.id)}
+              onReject={() => rejectProposalMutation.mutate(proposal.id)}
+              isApproving={approveProposalMutation.isPending && approveProposalMutation.variables === proposal.id}
+              isRejecting={rejectProposalMutation.isPending && rejectProposalMutation.variables === proposal.id}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Persona Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {isLoading ? (
@@ -317,6 +466,18 @@ export default function Personas() {
                   )}
                 </div>
                 <div className="flex gap-1">
+                  <button
+                    onClick={() => learnMutation.mutate(persona.id)}
+                    disabled={learnMutation.isPending || proposals.some((p) => p.personaId === persona.id)}
+                    className="p-2 text-gray-400 hover:text-yellow-600 hover:bg-yellow-50 dark:hover:bg-yellow-900/20 rounded-lg transition-colors disabled:opacity-50"
+                    title="Suggest guideline updates from how reviewers edited this persona's comments"
+                  >
+                    {learnMutation.isPending && learnMutation.variables === persona.id ? (
+                      <ButtonSpinner />
+                    ) : (
+                      <Lightbulb className="h-4 w-4" />
+                    )}
+                  </button>
                   <button
                     onClick={() => openEditForm(persona)}
                     className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
@@ -365,6 +526,18 @@ export default function Personas() {
         )}
       </div>
 
+      <PersonaPlayground
+        isOpen={playgroundModal.isOpen}
+        onClose={playgroundModal.close}
+        personas={Array.isArray(personas?.data) ? personas.data : []}
+      />
+
+      <PersonaFromAccount
+        isOpen={fromAccountModal.isOpen}
+        onClose={fromAccountModal.close}
+        onDrafted={openDraftedForm}
+      />
+
       {/* Confirm Delete Dialog */}
       <ConfirmDialog
         isOpen={deleteDialog.isOpen}
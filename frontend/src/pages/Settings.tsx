@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { AxiosError } from 'axios';
 import { useAuthStore } from '../hooks/useAuthStore';
 import { settingsApi } from '../services/api';
 import PageHeader from '../components/PageHeader';
@@ -8,12 +9,15 @@ interface AvailableModels {
   anthropic: string[];
   openai: string[];
   google: string[];
+  // Present only when the server has an OpenAI-compatible endpoint configured
+  local?: string[];
 }
 
 interface AISettings {
   aiProvider: string;
   aiModel: string;
   availableModels: AvailableModels;
+  localModelsError?: string;
 }
 
 export default function Settings() {
@@ -49,9 +53,7 @@ export default function Settings() {
     // Set default model for the provider
     if (aiSettings?.availableModels) {
       const models = aiSettings.availableModels[provider as keyof AvailableModels];
-      if (models && models.length > 0) {
-        setSelectedModel(models[0]);
-      }
+      setSelectedModel(models && models.length > 0 ? models[0] : '');
     }
   };
 
@@ -66,8 +68,9 @@ export default function Settings() {
       const data = response.data as AISettings;
       setAISettings(data);
       setMessage({ type: 'success', text: 'AI settings saved successfully' });
-    } catch {
-      setMessage({ type: 'error', text: 'Failed to save settings' });
+    } catch (err) {
+      const error = err as AxiosError<{ error?: string }>;
+      setMessage({ type: 'error', text: error.response?.data?.error || 'Failed to save settings' });
     } finally {
       setSaving(false);
     }
@@ -75,6 +78,7 @@ export default function Settings() {
 
   const availableModels = aiSettings?.availableModels?.[selectedProvider as keyof AvailableModels] || [];
   const hasChanges = aiSettings && (selectedProvider !== aiSettings.aiProvider || selectedModel !== aiSettings.aiModel);
+  const localAvailable = !!aiSettings?.availableModels?.local;
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -136,14 +140,27 @@ export default function Settings() {
                 <option value="anthropic">Anthropic (Claude)</option>
                 <option value="openai">OpenAI (GPT)</option>
                 <option value="google">Google (Gemini)</option>
+                {(localAvailable || selectedProvider === 'local') && (
+                  <option value="local">Local (OpenAI-compatible)</option>
+                )}
               </Select>
             </FormField>
 
+            {selectedProvider === 'local' && (
+              <Alert variant={aiSettings?.localModelsError || availableModels.length === 0 ? 'warning' : 'info'}>
+                {aiSettings?.localModelsError
+                  || (availableModels.length === 0
+                    ? 'The local endpoint is not serving any models.'
+                    : 'Requests go only to your self-hosted endpoint and never fall back to a hosted provider.')}
+              </Alert>
+            )}
+
             <FormField label="Model" htmlFor="model">
               <Select
                 id="model"
                 value={selectedModel}
                 onChange={(e) => setSelectedModel(e.target.value)}
+                disabled={availableModels.length === 0}
               >
                 {availableModels.map((model) => (
                   <option key={model} value={model}>
@@ -156,7 +173,7 @@ export default function Settings() {
             <div className="pt-2">
               <button
                 onClick={handleSave}
-                disabled={saving || !hasChanges}
+                disabled={saving || !hasChanges || !selectedModel}
                 className={`btn ${
                   hasChanges ? 'btn-primary' : 'btn-secondary opacity-50 cursor-not-allowed'
                 }`}
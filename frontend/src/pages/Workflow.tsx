@@ -1,6 +1,7 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { engagementsApi, accountsApi } from '../services/api';
+import { AxiosError } from 'axios';
 import { RefreshCw, Download, LayoutGrid, List, CheckSquare, Square, Star, ChevronRight, ListTodo } from 'lucide-react';
 import type { EngagementItem, EngagementStatus, RedditAccount, GenerationOptions, CommentStyle } from '../types';
 import { exportEngagementItems } from '../utils/csvExport';
@@ -9,6 +10,7 @@ import EngagementDetailPanel from '../components/EngagementDetailPanel';
 import PageHeader from '../components/PageHeader';
 import SearchInput from '../components/SearchInput';
 import EmptyState from '../components/EmptyState';
+import { Alert } from '../components/ui';
 
 const statusTabs: { key: EngagementStatus | 'all'; label: string }[] = [
   { key: 'all', label: 'All' },
@@ -28,6 +30,10 @@ export default function Workflow() {
   const [viewMode, setViewMode] = useState<'list' | 'kanban'>('list');
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
+  const [statusError, setStatusError] = useState<string | null>(null);
+  const [streamingDraft, setStreamingDraft] = useState<string | null>(null);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const generateAbortRef = useRef<AbortController | null>(null);
 
   const { data: engagements, isLoading } = useQuery({
     queryKey: ['engagements', activeTab],
@@ -51,16 +57,52 @@ export default function Workflow() {
     },
   });
 
+  // Drafts stream in token by token; aborting the request cancels generation server-side
   const generateMutation = useMutation({
-    mutationFn: ({ id, accountId, options }: { id: string; accountId: string; options?: GenerationOptions }) =>
-      engagementsApi.generate(id, accountId, options),
-    onSuccess: (data) => {
+    mutationFn: ({ id, accountId, options }: { id: string; accountId: string; options?: GenerationOptions }) => {
+      const { variants, ...generationOptions } = options || {};
+      setGenerateError(null);
+      // Several candidates are generated in one request and compared once they all arrive
+      if (variants && variants > 1) {
+        return engagementsApi.generate(id, accountId, generationOptions, variants).then((response) => response.data as EngagementItem);
+      }
+
+      const controller = new AbortController();
+      generateAbortRef.current = controller;
+      setStreamingDraft('');
+      return engagementsApi.generateStream(id, accountId, generationOptions, {
+        signal: controller.signal,
+        onToken: (text) => setStreamingDraft((current) => (current ?? '') + text),
+      });
+    },
+    onSuccess: (item) => {
       queryClient.invalidateQueries({ queryKey: ['engagements'] });
-      setSelectedItem(data.data);
-      setEditedResponse(data.data.draftResponse || '');
+      setSelectedItem(item);
+      setEditedResponse(item.draftResponse || '');
+    },
+    onError: (error: Error) => {
+      if (error.name !== 'AbortError') {
+        setGenerateError(error.message || 'Failed to generate draft');
+      }
+    },
+    onSettled: () => {
+      generateAbortRef.current = null;
+      setStreamingDraft(null);
     },
   });
 
+  const cancelGenerate = useCallback(() => {
+    generateAbortRef.current?.abort();
+  }, []);
+
+  const handleDraftUpdated = useCallback((item: EngagementItem) => {
+    setSelectedItem(item);
+    setEditedResponse(item.editedResponse || item.draftResponse || '');
+  }, []);
+
+  // Don't keep generating for an item that is no longer open
+  useEffect(() => cancelGenerate, [selectedItem?.id, cancelGenerate]);
+
   const refineMutation = useMutation({
     mutationFn: ({ id, options }: { id: string; options: { action: 'shorten' | 'expand' | 'restyle'; targetStyle?: CommentStyle } }) =>
       engagementsApi.refine(id, options),
@@ -75,8 +117,13 @@ export default function Workflow() {
     mutationFn: (id: string) => engagementsApi.approve(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['engagements'] });
+      setStatusError(null);
       setSelectedItem(null);
     },
+    onError: (error: AxiosError<{ error?: string }>) => {
+      // Refused while the draft has contradicted claims; the proofread section lists them
+      setStatusError(error.response?.data?.error || 'Failed to approve');
+    },
   });
 
   const rejectMutation = useMutation({
@@ -97,17 +144,21 @@ export default function Workflow() {
 
   const updateStatusMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: EngagementStatus }) => {
-      // Map status to the appropriate action
-      if (status === 'approved') {
-        return engagementsApi.approve(id);
-      } else if (status === 'in_review') {
-        return engagementsApi.update(id, {});
+      // Publishing has side effects on Reddit, so it keeps its dedicated action
+      if (status === 'published') {
+        return engagementsApi.publish(id);
       }
-      // For other statuses, return the current item (no-op)
-      return engagementsApi.get(id);
+      return engagementsApi.transition(id, status);
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['engagements'] });
+      setStatusError(null);
+      if (selectedItem?.id === data.data.id) {
+        setSelectedItem(data.data);
+      }
+    },
+    onError: (error: AxiosError<{ error?: string }>) => {
+      setStatusError(error.response?.data?.error || 'Failed to update status');
     },
   });
 
@@ -138,6 +189,12 @@ export default function Workflow() {
     },
   });
 
+  // Rejected and failed items go back to review if they still have a draft
+  const handleReopen = (item: EngagementItem) => {
+    const hasDraft = !!(item.editedResponse || item.draftResponse);
+    updateStatusMutation.mutate({ id: item.id, status: hasDraft ? 'in_review' : 'discovered' });
+  };
+
   const handleStatusChange = (itemId: string, newStatus: EngagementStatus) => {
     updateStatusMutation.mutate({ id: itemId, status: newStatus });
   };
@@ -355,6 +412,18 @@ export default function Workflow() {
         }
       />
 
+      {statusError && (
+        <Alert variant="error" dismissible onDismiss={() => setStatusError(null)}>
+          {statusError}
+        </Alert>
+      )}
+
+      {generateError && (
+        <Alert variant="error" dismissible onDismiss={() => setGenerateError(null)}>
+          {generateError}
+        </Alert>
+      )}
+
       {/* Search Input */}
       {items.length > 0 && viewMode === 'list' && (
         <div className="max-w-md">
@@ -594,13 +663,18 @@ export default function Workflow() {
                 onApprove={() => approveMutation.mutate(selectedItem.id)}
                 onReject={() => rejectMutation.mutate(selectedItem.id)}
                 onPublish={() => publishMutation.mutate(selectedItem.id)}
+                onReopen={() => handleReopen(selectedItem)}
                 activeAccounts={activeAccounts}
                 isAnalyzing={analyzeMutation.isPending}
                 isGenerating={generateMutation.isPending}
+                streamingDraft={streamingDraft}
+                onCancelGenerate={cancelGenerate}
+                onDraftUpdated={handleDraftUpdated}
                 isRefining={refineMutation.isPending}
                 isApproving={approveMutation.isPending}
                 isRejecting={rejectMutation.isPending}
                 isPublishing={publishMutation.isPending}
+                isReopening={updateStatusMutation.isPending}
                 inline
               />
             </div>
@@ -621,13 +695,18 @@ export default function Workflow() {
           onApprove={() => approveMutation.mutate(selectedItem.id)}
           onReject={() => rejectMutation.mutate(selectedItem.id)}
           onPublish={() => publishMutation.mutate(selectedItem.id)}
+          onReopen={() => handleReopen(selectedItem)}
           activeAccounts={activeAccounts}
           isAnalyzing={analyzeMutation.isPending}
           isGenerating={generateMutation.isPending}
+          streamingDraft={streamingDraft}
+          onCancelGenerate={cancelGenerate}
+          onDraftUpdated={handleDraftUpdated}
           isRefining={refineMutation.isPending}
           isApproving={approveMutation.isPending}
           isRejecting={rejectMutation.isPending}
           isPublishing={publishMutation.isPending}
+          isReopening={updateStatusMutation.isPending}
         />
       )}
     </div>
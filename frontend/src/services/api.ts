@@ -103,6 +103,86 @@ api.interceptors.response.use(
 
 export default api;
 
+export interface StreamHandlers {
+  onToken: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+function streamHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Accept: 'text/event-stream',
+  };
+  const { accessToken } = useAuthStore.getState();
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+  const orgId = localStorage.getItem('currentOrganizationId');
+  if (orgId) {
+    headers['X-Organization-Id'] = orgId;
+  }
+  const brandId = getCurrentBrandId();
+  if (brandId) {
+    headers['X-Brand-Id'] = brandId;
+  }
+  return headers;
+}
+
+/**
+ * POST to a Server-Sent Events endpoint. Axios can't read a response body as it
+ * arrives, so this uses fetch with the same auth and context headers. Resolves with the
+ * `done` event's data, rejects on an `error` event, and aborts with `signal`.
+ */
+async function postEventStream<T>(path: string, body: unknown, handlers: StreamHandlers, retried = false): Promise<T> {
+  const baseURL = import.meta.env.VITE_API_URL || '/api';
+  const response = await fetch(`${baseURL}${path}`, {
+    method: 'POST',
+    headers: streamHeaders(),
+    body: JSON.stringify(body),
+    signal: handlers.signal,
+  });
+
+  if (response.status === 401 && !retried) {
+    // Any axios request refreshes an expired access token through the interceptor above
+    await authApi.me();
+    return postEventStream(path, body, handlers, true);
+  }
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      throw new Error('Stream ended before the draft was saved');
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const event = message.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(message.match(/^data: (.*)$/m)?.[1] || 'null');
+      if (event === 'token') {
+        handlers.onToken(data.text);
+      } else if (event === 'done') {
+        reader.cancel();
+        return data as T;
+      } else if (event === 'error') {
+        throw new Error(data?.error || 'Draft generation failed');
+      }
+    }
+  }
+}
+
 // Auth API
 export const authApi = {
   login: (email: string, password: string) =>
@@ -115,6 +195,16 @@ export const authApi = {
 };
 
 // Accounts API
+export const knowledgeApi = {
+  list: () => api.get('/knowledge'),
+  get: (id: string) => api.get(`/knowledge/${id}`),
+  create: (data: import('../types').KnowledgeDocumentInput) => api.post('/knowledge', data),
+  update: (id: string, data: Partial<import('../types').KnowledgeDocumentInput>) =>
+    api.put(`/knowledge/${id}`, data),
+  delete: (id: string) => api.delete(`/knowledge/${id}`),
+  search: (q: string, limit?: number) => api.get('/knowledge/search', { params: { q, limit } }),
+};
+
 export const accountsApi = {
   list: () => api.get('/accounts'),
   get: (id: string) => api.get(`/accounts/${id}`),
@@ -122,6 +212,7 @@ export const accountsApi = {
   update: (id: string, data: { personaId?: string | null; status?: string }) =>
     api.patch(`/accounts/${id}`, data),
   delete: (id: string) => api.delete(`/accounts/${id}`),
+  draftPersona: (id: string) => api.post(`/accounts/${id}/persona-draft`),
   // Shadowban detection
   checkShadowban: (id: string) => api.post(`/accounts/${id}/shadowban/check`),
   checkAllShadowbans: () => api.get('/accounts/shadowban/check-all'),
@@ -142,6 +233,12 @@ export const personasApi = {
   update: (id: string, data: Partial<import('../types').Persona>) =>
     api.put(`/personas/${id}`, data),
   delete: (id: string) => api.delete(`/personas/${id}`),
+  playground: (data: import('../types').PlaygroundRequest) => api.post('/personas/playground', data),
+  // Guideline proposals learned from reviewer edits
+  listProposals: () => api.get('/personas/proposals'),
+  proposeGuidelines: (id: string) => api.post(`/personas/${id}/proposals`),
+  approveProposal: (proposalId: string) => api.post(`/personas/proposals/${proposalId}/approve`),
+  rejectProposal: (proposalId: string) => api.post(`/personas/proposals/${proposalId}/reject`),
 };
 
 // Engagements API
@@ -149,16 +246,39 @@ export const engagementsApi = {
   list: (params?: { status?: string; subreddit?: string; limit?: number; offset?: number }) =>
     api.get('/engagements', { params }),
   get: (id: string) => api.get(`/engagements/${id}`),
+  getTransitions: (id: string) => api.get(`/engagements/${id}/transitions`),
+  transition: (id: string, status: import('../types').EngagementStatus, reason?: string) =>
+    api.post(`/engagements/${id}/transition`, { status, reason }),
   analyze: (id: string) => api.post(`/engagements/${id}/analyze`),
-  generate: (id: string, accountId: string, options?: import('../types').GenerationOptions) =>
-    api.post(`/engagements/${id}/generate`, { accountId, options }),
-  regenerate: (id: string, options?: import('../types').GenerationOptions) =>
-    api.post(`/engagements/${id}/regenerate`, { options }),
+  generate: (id: string, accountId: string, options?: import('../types').GenerationOptions, variants?: number) =>
+    api.post(`/engagements/${id}/generate`, { accountId, options, variants }),
+  regenerate: (id: string, options?: import('../types').GenerationOptions, variants?: number) =>
+    api.post(`/engagements/${id}/regenerate`, { options, variants }),
+  getCandidates: (id: string) => api.get(`/engagements/${id}/candidates`),
+  chooseCandidate: (id: string, candidateId: string, text?: string) =>
+    api.post(`/engagements/${id}/candidates/${candidateId}/choose`, { text }),
+  generateStream: (
+    id: string,
+    accountId: string,
+    options: import('../types').GenerationOptions | undefined,
+    handlers: StreamHandlers
+  ) => postEventStream<import('../types').EngagementItem>(`/engagements/${id}/generate/stream`, { accountId, options }, handlers),
+  regenerateStream: (
+    id: string,
+    options: import('../types').GenerationOptions | undefined,
+    handlers: StreamHandlers
+  ) => postEventStream<import('../types').EngagementItem>(`/engagements/${id}/regenerate/stream`, { options }, handlers),
   refine: (id: string, options: import('../types').RefinementOptions) =>
     api.post(`/engagements/${id}/refine`, options),
   proofread: (id: string) => api.post(`/engagements/${id}/proofread`),
-  update: (id: string, data: { editedResponse?: string; assignedAccountId?: string; reviewerNotes?: string }) =>
-    api.patch(`/engagements/${id}`, data),
+  safety: (id: string) => api.get(`/engagements/${id}/safety`),
+  update: (
+    id: string,
+    data: { editedResponse?: string; assignedAccountId?: string; reviewerNotes?: string; revisionSource?: 'edit' | 'proofread' }
+  ) => api.patch(`/engagements/${id}`, data),
+  getRevisions: (id: string) => api.get(`/engagements/${id}/revisions`),
+  revertRevision: (id: string, revisionId: string) =>
+    api.post(`/engagements/${id}/revisions/${revisionId}/revert`),
   approve: (id: string) => api.post(`/engagements/${id}/approve`),
   reject: (id: string, reason?: string) => api.post(`/engagements/${id}/reject`, { reason }),
   publish: (id: string) => api.post(`/engagements/${id}/publish`),
@@ -192,6 +312,7 @@ export const subredditsApi = {
     api.post('/subreddits', data),
   update: (id: string, data: Partial<import('../types').Subreddit>) =>
     api.patch(`/subreddits/${id}`, data),
+  syncRules: (id: string) => api.post(`/subreddits/${id}/sync`),
   delete: (id: string) => api.delete(`/subreddits/${id}`),
 };
 
@@ -201,6 +322,10 @@ export const analyticsApi = {
   getTrends: (days?: number) => api.get('/analytics/trends', { params: { days } }),
   getSubredditPerformance: () => api.get('/analytics/subreddits'),
   getAccountPerformance: (id: string) => api.get(`/analytics/accounts/${id}`),
+  getEngagementMetrics: (id: string) => api.get(`/analytics/engagements/${id}/metrics`),
+  getOrganizationRollup: () => api.get('/analytics/organization'),
+  getAIUsage: (days?: number) => api.get('/analytics/ai-usage', { params: { days } }),
+  getDraftVariantStats: (days?: number) => api.get('/analytics/draft-variants', { params: { days } }),
 };
 
 // Alerts API
@@ -208,7 +333,14 @@ export const alertsApi = {
   getCompetitorMentions: (params?: { priority?: string; competitor?: string; limit?: number }) =>
     api.get('/alerts/competitors', { params }),
   getCompetitorSummary: () => api.get('/alerts/competitors/summary'),
+  getShareOfVoice: (months: 3 | 6 | 12) =>
+    api.get('/alerts/competitors/share-of-voice', { params: { months } }),
   getTrackedCompetitors: () => api.get('/alerts/competitors/tracked'),
+  createCompetitor: (data: Partial<import('../types').Competitor>) =>
+    api.post('/alerts/competitors', data),
+  updateCompetitor: (id: string, data: Partial<import('../types').Competitor>) =>
+    api.patch(`/alerts/competitors/${id}`, data),
+  deleteCompetitor: (id: string) => api.delete(`/alerts/competitors/${id}`),
   analyzePost: (title: string, content?: string) =>
     api.post('/alerts/analyze', { title, content }),
 };
@@ -302,6 +434,19 @@ export const brandsApi = {
     api.delete(`/brands/${id}/members/${memberId}`),
 };
 
+// Audit API
+export const auditApi = {
+  list: (params?: {
+    entityType?: import('../types').AuditEntityType;
+    entityId?: string;
+    userId?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+    offset?: number;
+  }) => api.get('/audit', { params }),
+};
+
 // YouTube API
 export const youtubeApi = {
   // Discovery
@@ -62,6 +62,7 @@ export interface Persona {
   expertiseAreas: string[];
   writingGuidelines?: string;
   exampleResponses: string[];
+  disclosureTemplate?: string | null; // Overrides the brand's disclosure wording
   createdAt: string;
   updatedAt: string;
   _count?: {
@@ -69,6 +70,252 @@ export interface Persona {
   };
 }
 
+export type KnowledgeDocumentKind = 'markdown' | 'faq' | 'pricing' | 'spec';
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  kind: KnowledgeDocumentKind;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: { id: string; name: string } | null;
+  _count?: { chunks: number };
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  position: number;
+  heading: string | null;
+  content: string;
+}
+
+export interface KnowledgeDocumentDetail extends KnowledgeDocument {
+  content: string;
+  chunks: KnowledgeChunk[];
+}
+
+export interface KnowledgeDocumentInput {
+  title: string;
+  kind: KnowledgeDocumentKind;
+  content: string;
+}
+
+// A knowledge base chunk retrieved for (and cited by) a draft or proofread
+export interface KnowledgeSnippet {
+  chunkId: string;
+  documentId: string;
+  title: string;
+  heading: string | null;
+  content: string;
+  score: number;
+}
+
+export interface ProofreadResult {
+  issues: string[];
+  suggestions: string[];
+  revised_text: string;
+  approval_recommendation: boolean;
+  confidence_score: number;
+  sources: KnowledgeSnippet[];
+  ai_provider: string;
+  ai_model: string;
+}
+
+export type ClaimStatus = 'supported' | 'unsupported' | 'contradicted';
+
+export interface VerifiedClaim {
+  claim: string;
+  subject: 'product' | 'competitor';
+  status: ClaimStatus;
+  explanation: string;
+  sources: KnowledgeSnippet[];
+}
+
+export interface ClaimCheck {
+  text: string; // The draft text that was checked
+  claims: VerifiedClaim[];
+  checkedAt: string;
+}
+
+// Proofreading an engagement also verifies its claims; null when verification failed
+export interface EngagementProofreadResult extends ProofreadResult {
+  claimCheck: ClaimCheck | null;
+}
+
+export type SafetyRuleId =
+  | 'bannedPhrases'
+  | 'requiredDisclosure'
+  | 'maxLinks'
+  | 'competitorBashing'
+  | 'medicalClaims'
+  | 'financialClaims'
+  | 'denyList';
+
+export type SafetyAction = 'block' | 'warn';
+
+export interface SafetyRuleBase {
+  enabled: boolean;
+  action: SafetyAction;
+}
+
+export interface SafetyRules {
+  bannedPhrases: SafetyRuleBase & { phrases: string[] };
+  requiredDisclosure: SafetyRuleBase & { text: string };
+  maxLinks: SafetyRuleBase & { max: number };
+  competitorBashing: SafetyRuleBase;
+  medicalClaims: SafetyRuleBase;
+  financialClaims: SafetyRuleBase;
+  denyList: SafetyRuleBase & { patterns: string[] }; // Keywords, or regexes written as /pattern/flags
+}
+
+export type SensitiveCategory = 'grief' | 'self_harm' | 'medical_emergency' | 'tragedy' | 'abuse' | 'addiction';
+export type SensitiveSeverity = 'low' | 'medium' | 'high';
+
+// allow: engage as usual; reject: discovery rejects the post; block: no drafting, approving or publishing
+export type SensitiveTopicAction = 'allow' | 'reject' | 'block';
+
+export interface SensitiveTopic {
+  category: SensitiveCategory;
+  severity: SensitiveSeverity;
+  reason: string;
+}
+
+export type SensitiveTopicSettings = Record<SensitiveCategory, {
+  action: SensitiveTopicAction;
+  minSeverity: SensitiveSeverity; // Topics below this severity are ignored
+}>;
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SafetyViolation {
+  rule: SafetyRuleId;
+  action: SafetyAction;
+  message: string;
+  spans: TextSpan[]; // Empty when the problem is something missing from the text
+}
+
+export interface Disclosure {
+  text: string;
+  source: 'subreddit' | 'persona' | 'brand' | 'default';
+}
+
+export interface SafetyCheckResult {
+  text: string;
+  violations: SafetyViolation[];
+  blocking: SafetyViolation[];
+  // Set when the subreddit or brand requires an affiliation disclosure
+  disclosure: (Disclosure & { present: boolean }) | null;
+}
+
+export interface PlaygroundPost {
+  subreddit: string;
+  title: string;
+  content: string;
+}
+
+export interface PlaygroundRequest {
+  personaIds: string[];
+  engagementItemId?: string;
+  post?: PlaygroundPost;
+  options?: Pick<GenerationOptions, 'length' | 'style' | 'customInstructions'>;
+  proofread?: boolean;
+}
+
+// One persona's attempt; error is set instead of draft when generation failed
+export interface PlaygroundResult {
+  personaId: string;
+  personaName: string;
+  draft?: { text: string; provider: string; model: string; sources: KnowledgeSnippet[] };
+  proofread?: ProofreadResult | null;
+  error?: string;
+}
+
+export interface PlaygroundResponse {
+  post: PlaygroundPost;
+  results: PlaygroundResult[];
+}
+
+// Unsaved persona fields drafted from an account's public comments
+export interface PersonaDraft {
+  name: string;
+  description: string;
+  toneOfVoice: string;
+  characterTraits: string[];
+  expertiseAreas: string[];
+  goals: string[];
+  backgroundStory: string;
+  writingGuidelines: string;
+  exampleResponses: string[];
+  commentCount: number;
+  subreddits: string[];
+}
+
+export type GuidelineFindingKind = 'banned_phrase' | 'length' | 'sign_off' | 'formatting';
+
+export interface GuidelineFinding {
+  kind: GuidelineFindingKind;
+  description: string;
+  occurrences: number;
+  examples: string[];
+}
+
+// Writing guideline changes learned from reviewer edits, waiting for an admin
+export interface PersonaGuidelineProposal {
+  id: string;
+  personaId: string;
+  status: 'pending' | 'approved' | 'rejected';
+  currentGuidelines: string | null;
+  proposedGuidelines: string;
+  proposedExamples: string[];
+  findings: GuidelineFinding[];
+  sampleSize: number;
+  createdAt: string;
+  persona: Pick<Persona, 'id' | 'name' | 'exampleResponses'>;
+}
+
+export type CompetitorAspect = 'price' | 'quality' | 'support' | 'features';
+
+export interface ShareOfVoiceWeek {
+  weekStart: string;
+  totalPosts: number;
+  mentions: Record<string, number>;
+  share: Record<string, number>;
+  sentiment: Record<'positive' | 'negative' | 'neutral' | 'comparison', number>;
+  topSubreddits: { subreddit: string; count: number }[];
+}
+
+export interface ShareOfVoiceReport {
+  months: number;
+  brand: string;
+  competitors: string[];
+  weeks: ShareOfVoiceWeek[];
+  totals: { name: string; mentions: number; share: number }[];
+  topSubreddits: { subreddit: string; count: number }[];
+}
+
+export interface Competitor {
+  id: string;
+  name: string;
+  variants: string[];
+  website?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CompetitorSummary {
+  totalMentions: number;
+  byCompetitor: { name: string; count: number }[];
+  bySentiment: { sentiment: string; count: number }[];
+  byAspect: { aspect: CompetitorAspect; count: number }[];
+  highPriorityCount: number;
+  switchingIntentCount: number;
+}
+
 export interface RedditAccount {
   id: string;
   username: string;
@@ -95,13 +342,30 @@ export interface Keyword {
   createdAt: string;
 }
 
+// Structured rules synced from a subreddit's posted rules and sidebar
+export interface SubredditRules {
+  linkPolicy: 'allowed' | 'restricted' | 'forbidden';
+  linkPolicyNotes: string;
+  selfPromotion: 'allowed' | 'limited' | 'forbidden';
+  selfPromotionRatio: number | null; // Largest share of activity that may be self-promotion
+  selfPromotionNotes: string;
+  flairRequired: boolean;
+  otherRules: string[];
+}
+
 export interface Subreddit {
   id: string;
   name: string;
   phase: number;
   selfPromoRules?: string;
+  disclosureRequired: boolean;
+  disclosureTemplate?: string | null; // Overrides the brand and persona wording here
   minKarma: number;
+  minAccountAgeDays: number;
   isActive: boolean;
+  rules: SubredditRules | null;
+  rulesSyncedAt: string | null;
+  rulesSyncError: string | null;
   createdAt: string;
 }
 
@@ -115,6 +379,12 @@ export type EngagementStatus =
   | 'published'
   | 'failed';
 
+// Text in a post that looks like an attempt to instruct the AI reading it
+export interface InjectionFlag {
+  reason: string;
+  text: string;
+}
+
 export interface EngagementItem {
   id: string;
   redditPostId: string;
@@ -128,6 +398,9 @@ export interface EngagementItem {
   matchedKeyword?: string;
   relevanceScore?: number;
   isRecommended?: boolean;
+  injectionFlags?: InjectionFlag[];
+  sensitiveTopics?: SensitiveTopic[];
+  sensitivityCheckedAt?: string | null;
   aiAnalysis?: {
     relevance_score: number;
     opportunity_type: string;
@@ -135,9 +408,15 @@ export interface EngagementItem {
     recommended_approach: string;
     should_engage: boolean;
     cautions: string[];
+    ai_provider?: string;
+    ai_model?: string;
   };
   draftResponse?: string;
   editedResponse?: string;
+  draftProvider?: string;
+  draftModel?: string;
+  draftSources?: KnowledgeSnippet[];
+  claimCheck?: ClaimCheck | null;
   assignedAccountId?: string;
   assignedAccount?: {
     id: string;
@@ -156,6 +435,7 @@ export interface EngagementItem {
   commentScore?: number;
   replyCount?: number;
   lastMetricCheck?: string;
+  allowedTransitions?: EngagementStatus[];
   createdAt: string;
   updatedAt: string;
 }
@@ -186,6 +466,61 @@ export interface GenerationOptions {
   style?: CommentStyle;
   brandVoice?: string;
   customInstructions?: string;
+  temperature?: number;
+  // Number of candidates to generate side by side; sent alongside the options, not in them
+  variants?: number;
+}
+
+export type DraftCandidateStatus = 'pending' | 'chosen' | 'discarded';
+
+export interface DraftCandidate {
+  id: string;
+  engagementItemId: string;
+  text: string;
+  style: CommentStyle | null;
+  length: CommentLength | null;
+  temperature: number | null;
+  provider: string;
+  model: string;
+  sources: KnowledgeSnippet[];
+  status: DraftCandidateStatus;
+  merged: boolean;
+  chosenAt: string | null;
+  createdAt: string;
+}
+
+export type DraftRevisionSource = 'generate' | 'regenerate' | 'candidate' | 'refine' | 'proofread' | 'edit' | 'revert';
+
+export interface DraftRevision {
+  id: string;
+  engagementItemId: string;
+  text: string;
+  source: DraftRevisionSource;
+  detail: string | null;
+  provider: string | null;
+  model: string | null;
+  revertedFromId: string | null;
+  createdAt: string;
+  createdBy?: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+}
+
+export interface VariantWinStat {
+  value: string;
+  generated: number;
+  chosen: number;
+  merged: number;
+  winRate: number | null;
+}
+
+export interface DraftVariantStats {
+  days: number;
+  decided: number;
+  byStyle: VariantWinStat[];
+  byLength: VariantWinStat[];
 }
 
 export interface RefinementOptions {
@@ -290,6 +625,28 @@ export interface YouTubeAnalytics {
 // Brand types
 export type BrandRole = 'owner' | 'admin' | 'member';
 
+export interface AIUsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface AIUsageReport {
+  days: number;
+  totals: AIUsageTotals & { parseFailures: number };
+  daily: (AIUsageTotals & { date: string })[];
+  byFeature: (AIUsageTotals & { feature: string })[];
+  byModel: (AIUsageTotals & { provider: string; model: string; parseFailures: number })[];
+  byUser: (AIUsageTotals & { userId: string | null; name: string | null })[];
+  budget: {
+    monthlyBudget: number | null;
+    monthToDateCost: number;
+    remaining: number | null;
+    autoAnalysisPaused: boolean;
+  };
+}
+
 export interface Brand {
   id: string;
   name: string;
@@ -305,6 +662,13 @@ export interface Brand {
   keyDifferentiators: string[];
   brandValues: string[];
   contentGuidelines?: string;
+  aiMonthlyBudget?: number | null;
+  safetyRules?: Partial<SafetyRules>; // Rules the brand never configured are missing
+  disclosureRequired?: boolean;
+  disclosureTemplate?: string | null; // "{brand}" is replaced with the brand name
+  redactPii?: boolean;
+  sensitiveTopics?: Partial<SensitiveTopicSettings>; // Categories the brand never configured are missing
+  organizationId?: string | null;
   role?: BrandRole;
   createdAt: string;
   updatedAt: string;
@@ -331,3 +695,51 @@ export interface BrandMember {
 export interface BrandWithMembers extends Brand {
   members: BrandMember[];
 }
+
+// Audit log types
+export type AuditEntityType =
+  | 'engagement'
+  | 'persona'
+  | 'keyword'
+  | 'subreddit'
+  | 'reddit_account'
+  | 'brand'
+  | 'brand_member'
+  | 'competitor'
+  | 'knowledge_document';
+
+export interface AuditLogEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  userId: string | null;
+  brandId: string | null;
+  oldValue: Record<string, unknown> | null;
+  newValue: Record<string, unknown> | null;
+  createdAt: string;
+  user?: {
+    id: string;
+    name: string;
+    email: string | null; // Withheld on global entries by people outside the brand
+  } | null;
+}
+
+// Analytics types
+export interface BrandRollup {
+  brandId: string;
+  brandName: string;
+  totalEngagements: number;
+  publishedCount: number;
+  approvalRate: number | null;
+  avgRelevanceScore: number | null;
+  avgCommentScore: number | null;
+  totalUpvotes: number;
+  totalReplies: number;
+}
+
+export interface OrganizationRollup {
+  organizationId: string;
+  brands: BrandRollup[];
+  totals: Omit<BrandRollup, 'brandId' | 'brandName'>;
+}
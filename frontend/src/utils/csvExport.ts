@@ -3,6 +3,8 @@
  * Converts data arrays to CSV format and triggers download
  */
 
+import type { ShareOfVoiceReport } from '../types';
+
 type DataRow = Record<string, unknown>;
 
 interface ExportOptions {
@@ -243,3 +245,44 @@ export function exportRedditAccounts(accounts: DataRow[]): void {
     },
   });
 }
+
+export function exportShareOfVoice(report: ShareOfVoiceReport): void {
+  const names = [report.brand, ...report.competitors];
+
+  // One row per week with a mentions and share column for every tracked name
+  const flattenedData = report.weeks.map(week => ({
+    weekStart: week.weekStart,
+    totalPosts: week.totalPosts,
+    ...Object.fromEntries(names.flatMap(name => [
+      [`mentions:${name}`, week.mentions[name] || 0],
+      [`share:${name}`, week.share[name] || 0],
+    ])),
+    positive: week.sentiment.positive,
+    negative: week.sentiment.negative,
+    neutral: week.sentiment.neutral,
+    comparison: week.sentiment.comparison,
+    topSubreddits: week.topSubreddits.map(s => `r/${s.subreddit} (${s.count})`),
+  }));
+
+  exportToCSV(flattenedData, {
+    filename: `share-of-voice-${report.months}m-${new Date().toISOString().split('T')[0]}`,
+    fields: [
+      'weekStart', 'totalPosts',
+      ...names.flatMap(name => [`mentions:${name}`, `share:${name}`]),
+      'positive', 'negative', 'neutral', 'comparison', 'topSubreddits',
+    ],
+    headers: {
+      weekStart: 'Week Starting',
+      totalPosts: 'Posts',
+      ...Object.fromEntries(names.flatMap(name => [
+        [`mentions:${name}`, `${name} Mentions`],
+        [`share:${name}`, `${name} Share (%)`],
+      ])),
+      positive: 'Positive',
+      negative: 'Negative',
+      neutral: 'Neutral',
+      comparison: 'Comparison',
+      topSubreddits: 'Top Subreddits',
+    },
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * Word-level text diff
+ * Longest-common-subsequence over words (whitespace kept attached), good enough
+ * for comparing comment-sized drafts
+ */
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many word pairs the LCS table gets expensive; show a plain replacement instead
+const MAX_CELLS = 1_000_000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function push(segments: DiffSegment[], type: DiffSegment['type'], text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Diff two texts, returning segments that rebuild `before` (equal + removed)
+ * and `after` (equal + added)
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  if (before === after) {
+    return before ? [{ type: 'equal', text: before }] : [];
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(segments, 'removed', a[i++]);
+    } else {
+      push(segments, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) push(segments, 'removed', a[i++]);
+  while (j < b.length) push(segments, 'added', b[j++]);
+
+  return segments;
+}